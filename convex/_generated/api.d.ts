@@ -11,15 +11,23 @@
 import type * as appleMusic from "../appleMusic.js";
 import type * as auth from "../auth.js";
 import type * as env from "../env.js";
+import type * as gameDeletion from "../gameDeletion.js";
+import type * as gameEvents from "../gameEvents.js";
 import type * as games from "../games.js";
 import type * as http from "../http.js";
 import type * as playlistImport from "../playlistImport.js";
 import type * as playlistImportInternal from "../playlistImportInternal.js";
 import type * as playlists from "../playlists.js";
+import type * as ratings from "../ratings.js";
+import type * as seatClaims from "../seatClaims.js";
+import type * as spectators from "../spectators.js";
 import type * as spotify from "../spotify.js";
 import type * as spotifyInternal from "../spotifyInternal.js";
+import type * as teams from "../teams.js";
 import type * as timelines from "../timelines.js";
+import type * as turnTimers from "../turnTimers.js";
 import type * as turns from "../turns.js";
+import type * as userStats from "../userStats.js";
 
 import type {
   ApiFromModules,
@@ -31,15 +39,23 @@ declare const fullApi: ApiFromModules<{
   appleMusic: typeof appleMusic;
   auth: typeof auth;
   env: typeof env;
+  gameDeletion: typeof gameDeletion;
+  gameEvents: typeof gameEvents;
   games: typeof games;
   http: typeof http;
   playlistImport: typeof playlistImport;
   playlistImportInternal: typeof playlistImportInternal;
   playlists: typeof playlists;
+  ratings: typeof ratings;
+  seatClaims: typeof seatClaims;
+  spectators: typeof spectators;
   spotify: typeof spotify;
   spotifyInternal: typeof spotifyInternal;
+  teams: typeof teams;
   timelines: typeof timelines;
+  turnTimers: typeof turnTimers;
   turns: typeof turns;
+  userStats: typeof userStats;
 }>;
 
 /**
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest'
+import { combineDeckSources, orderDeck } from './deck'
+import { createRandom } from './random'
+import type { Id } from './_generated/dataModel'
+import type { DeckTrack } from './deck'
+
+const track = (
+  id: number,
+  releaseYear: number,
+  ...artistNames: Array<string>
+): DeckTrack => ({
+  trackId: `track${id}` as Id<'playlistTracks'>,
+  releaseYear,
+  artistNames,
+})
+
+const ids = (tracks: Array<DeckTrack>) => tracks.map((t) => t.trackId)
+
+const sortedIds = (tracks: Array<DeckTrack>) => ids(tracks).sort()
+
+/** Smallest number of cards between two cards sharing an artist */
+function closestArtistGap(tracks: Array<DeckTrack>): number {
+  let closest = Infinity
+  const lastSeen = new Map<string, number>()
+  tracks.forEach((t, position) => {
+    for (const artist of t.artistNames) {
+      const previous = lastSeen.get(artist)
+      if (previous !== undefined) {
+        closest = Math.min(closest, position - previous - 1)
+      }
+      lastSeen.set(artist, position)
+    }
+  })
+  return closest
+}
+
+const tracksFrom = (first: number, count: number) =>
+  Array.from({ length: count }, (_, i) => track(first + i, 1990, `Artist ${i}`))
+
+const countFrom = (deck: Array<DeckTrack>, source: Array<DeckTrack>) =>
+  deck.filter((t) => source.includes(t)).length
+
+describe('combineDeckSources', () => {
+  const a = tracksFrom(0, 20)
+  const b = tracksFrom(100, 20)
+
+  it('uses every track when no source is weighted', () => {
+    expect(
+      combineDeckSources([{ tracks: a }, { tracks: b }], createRandom('all')),
+    ).toEqual([...a, ...b])
+  })
+
+  it('takes each source in proportion to its weight', () => {
+    const deck = combineDeckSources(
+      [
+        { tracks: a, weight: 2 },
+        { tracks: b, weight: 1 },
+      ],
+      createRandom('weights'),
+    )
+    expect(countFrom(deck, a)).toBe(20)
+    expect(countFrom(deck, b)).toBe(10)
+  })
+
+  it('sizes the deck by the scarcest source', () => {
+    const scarce = tracksFrom(200, 4)
+    const deck = combineDeckSources(
+      [
+        { tracks: scarce, weight: 1 },
+        { tracks: a, weight: 3 },
+      ],
+      createRandom('scarce'),
+    )
+    expect(countFrom(deck, scarce)).toBe(4)
+    expect(countFrom(deck, a)).toBe(12)
+  })
+
+  it('weighs unweighted sources as 1 when others are weighted', () => {
+    const deck = combineDeckSources(
+      [{ tracks: a }, { tracks: b, weight: 0.5 }],
+      createRandom('default'),
+    )
+    expect(countFrom(deck, a)).toBe(20)
+    expect(countFrom(deck, b)).toBe(10)
+  })
+
+  it('picks the same tracks for the same seed', () => {
+    const groups = [
+      { tracks: a, weight: 1 },
+      { tracks: b, weight: 1 },
+      { tracks: tracksFrom(200, 5), weight: 1 },
+    ]
+    const deck = combineDeckSources(groups, createRandom('pick'))
+    expect(deck).toHaveLength(15)
+    expect(ids(combineDeckSources(groups, createRandom('pick')))).toEqual(
+      ids(deck),
+    )
+  })
+})
+
+describe('orderDeck', () => {
+  const deck = Array.from({ length: 40 }, (_, i) =>
+    track(i, 1960 + (i % 5) * 10, `Artist ${i % 10}`),
+  )
+
+  it('shuffles the same way for the same seed', () => {
+    const order = orderDeck(deck, undefined, createRandom('seed'))
+    expect(ids(orderDeck(deck, undefined, createRandom('seed')))).toEqual(
+      ids(order),
+    )
+    expect(
+      ids(orderDeck(deck, { strategy: 'random' }, createRandom('seed'))),
+    ).toEqual(ids(order))
+    expect(sortedIds(order)).toEqual(sortedIds(deck))
+  })
+
+  it('orders era-balanced decks the same way for the same seed', () => {
+    const strategy = { strategy: 'eraBalanced' as const, minArtistGap: 3 }
+    const order = orderDeck(deck, strategy, createRandom('seed'))
+    expect(ids(orderDeck(deck, strategy, createRandom('seed')))).toEqual(
+      ids(order),
+    )
+    expect(ids(orderDeck(deck, strategy, createRandom('other')))).not.toEqual(
+      ids(order),
+    )
+    expect(sortedIds(order)).toEqual(sortedIds(deck))
+  })
+
+  it('spreads each decade evenly through the deck', () => {
+    const eras = [
+      ...Array.from({ length: 10 }, (_, i) => track(i, 1985, `A${i}`)),
+      ...Array.from({ length: 10 }, (_, i) => track(i + 10, 2005, `B${i}`)),
+    ]
+    const order = orderDeck(
+      eras,
+      { strategy: 'eraBalanced', minArtistGap: 0 },
+      createRandom('eras'),
+    )
+    const firstHalf = order.slice(0, 10)
+    expect(firstHalf.filter((t) => t.releaseYear === 1985)).toHaveLength(5)
+    expect(firstHalf.filter((t) => t.releaseYear === 2005)).toHaveLength(5)
+  })
+
+  it('keeps cards by the same artist at least the gap apart', () => {
+    const order = orderDeck(
+      deck,
+      { strategy: 'eraBalanced', minArtistGap: 3 },
+      createRandom('gap'),
+    )
+    expect(closestArtistGap(order)).toBeGreaterThanOrEqual(3)
+  })
+
+  it('matches artists by normalized name', () => {
+    const names = ['The Beatles', 'Beatles', 'Queen', 'ABBA', 'Blondie']
+    const mixed = Array.from({ length: 10 }, (_, i) =>
+      track(i, 1970, names[i % names.length]),
+    )
+    const order = orderDeck(
+      mixed,
+      { strategy: 'eraBalanced', minArtistGap: 2 },
+      createRandom('names'),
+    )
+    const positions = order
+      .map((t, i) => (t.artistNames[0].endsWith('Beatles') ? i : -1))
+      .filter((i) => i !== -1)
+    for (let i = 1; i < positions.length; i++) {
+      expect(positions[i] - positions[i - 1]).toBeGreaterThan(2)
+    }
+  })
+
+  it('still uses every card when one artist dominates', () => {
+    const solo = Array.from({ length: 12 }, (_, i) =>
+      track(i, 1990 + i, 'Prince'),
+    )
+    const order = orderDeck(
+      solo,
+      { strategy: 'eraBalanced', minArtistGap: 5 },
+      createRandom('solo'),
+    )
+    expect(sortedIds(order)).toEqual(sortedIds(solo))
+  })
+
+  it('orders large decks while keeping artists apart', () => {
+    const large = Array.from({ length: 5000 }, (_, i) =>
+      track(i, 1950 + (i % 70), `Artist ${i % 200}`),
+    )
+    const order = orderDeck(
+      large,
+      { strategy: 'eraBalanced', minArtistGap: 20 },
+      createRandom('large'),
+    )
+    expect(order).toHaveLength(large.length)
+    // The last few leftovers may have nowhere to go
+    expect(closestArtistGap(order.slice(0, -20))).toBeGreaterThanOrEqual(20)
+  })
+})
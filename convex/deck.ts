@@ -0,0 +1,318 @@
+import { shuffleArray } from './random'
+import { normalizeString } from './textMatching'
+import type { Infer } from 'convex/values'
+import type { Doc, Id } from './_generated/dataModel'
+import type { QueryCtx } from './_generated/server'
+import type { Random } from './random'
+import type {
+  deckFiltersValidator,
+  deckSourceValidator,
+  deckStrategyValidator,
+} from './schema'
+
+export type DeckFilters = Infer<typeof deckFiltersValidator>
+export type DeckSource = Infer<typeof deckSourceValidator>
+export type DeckStrategy = Infer<typeof deckStrategyValidator>
+
+/** Most playlists one game can mix */
+export const MAX_DECK_SOURCES = 10
+
+/** Largest relative weight for a playlist */
+export const MAX_SOURCE_WEIGHT = 10
+
+/** Largest artist gap a host may ask for */
+export const MAX_ARTIST_GAP = 20
+
+// Cards ahead searched for one that keeps artists apart
+const ARTIST_LOOKAHEAD = 5 * MAX_ARTIST_GAP
+
+/** A playable track as it goes into the deck */
+export interface DeckTrack {
+  trackId: Id<'playlistTracks'>
+  releaseYear: number
+  artistNames: Array<string>
+}
+
+// ===========================================
+// Sources
+// ===========================================
+
+/**
+ * Get the playlists a game's deck is built from.
+ * Games from before multi-playlist decks only have `playlistId`.
+ */
+export function getDeckSources(game: Doc<'games'>): Array<DeckSource> {
+  return game.deckSources ?? [{ playlistId: game.playlistId }]
+}
+
+/**
+ * Get a game's deck sources with their playlist names, for display
+ */
+export async function getDeckSourceNames(
+  ctx: QueryCtx,
+  game: Doc<'games'>,
+): Promise<Array<DeckSource & { name?: string }>> {
+  const sources = []
+  for (const source of getDeckSources(game)) {
+    const playlist = await ctx.db.get('playlists', source.playlistId)
+    sources.push({ ...source, name: playlist?.name })
+  }
+  return sources
+}
+
+/**
+ * Combined name of the playlists a deck comes from, e.g. "80s Rock + Schlager"
+ */
+export function formatSourceNames(sources: Array<{ name?: string }>): string {
+  return sources
+    .map((source) => source.name)
+    .filter(Boolean)
+    .join(' + ')
+}
+
+/**
+ * Check the deck sources when a game is created
+ */
+export function validateDeckSources(sources: Array<DeckSource>): void {
+  if (sources.length === 0) {
+    throw new Error('Pick at least one playlist')
+  }
+  if (sources.length > MAX_DECK_SOURCES) {
+    throw new Error(`A game can mix at most ${MAX_DECK_SOURCES} playlists`)
+  }
+  const ids = new Set(sources.map((s) => s.playlistId))
+  if (ids.size !== sources.length) {
+    throw new Error('Each playlist can only be added once')
+  }
+  for (const { weight } of sources) {
+    if (weight !== undefined && !(weight > 0 && weight <= MAX_SOURCE_WEIGHT)) {
+      throw new Error(
+        `Playlist weights must be more than 0 and at most ${MAX_SOURCE_WEIGHT}`,
+      )
+    }
+  }
+}
+
+/**
+ * Drop tracks that appear in more than one playlist (or twice in one),
+ * matching by ISRC or Apple Music ID. The first copy is kept, so tracks
+ * count towards the earliest source that has them.
+ */
+export function dedupeTracks(
+  tracks: Array<Doc<'playlistTracks'>>,
+): Array<Doc<'playlistTracks'>> {
+  const seen = new Set<string>()
+  return tracks.filter((track) => {
+    const keys = [
+      track.isrc && `isrc:${track.isrc.toUpperCase()}`,
+      track.appleMusicId && `apple:${track.appleMusicId}`,
+    ].filter((key): key is string => !!key)
+    if (keys.some((key) => seen.has(key))) {
+      return false
+    }
+    keys.forEach((key) => seen.add(key))
+    return true
+  })
+}
+
+/**
+ * Combine each source's tracks into one pool. Without weights every track
+ * goes in. With weights each playlist supplies its share of the deck, so
+ * the deck is as large as the scarcest source allows; the tracks kept from
+ * each playlist are picked at random.
+ */
+export function combineDeckSources(
+  groups: Array<{ tracks: Array<DeckTrack>; weight?: number }>,
+  random: Random,
+): Array<DeckTrack> {
+  if (groups.every((group) => group.weight === undefined)) {
+    return groups.flatMap((group) => group.tracks)
+  }
+
+  const weightOf = (group: { weight?: number }) => group.weight ?? 1
+  const totalWeight = groups.reduce((sum, group) => sum + weightOf(group), 0)
+  const deckSize = Math.min(
+    ...groups.map((group) =>
+      Math.floor((group.tracks.length * totalWeight) / weightOf(group)),
+    ),
+  )
+
+  return groups.flatMap((group) =>
+    shuffleArray(group.tracks, random).slice(
+      0,
+      Math.floor((deckSize * weightOf(group)) / totalWeight),
+    ),
+  )
+}
+
+// ===========================================
+// Filters and ordering
+// ===========================================
+
+/**
+ * Check deck filters when a game is created, so mistakes surface before
+ * anyone joins. Returns the filters with blank artist names dropped.
+ */
+export function validateDeckFilters(filters: DeckFilters): DeckFilters {
+  const { minYear, maxYear, maxDeckSize } = filters
+  for (const year of [minYear, maxYear]) {
+    if (year !== undefined && !Number.isInteger(year)) {
+      throw new Error('Release years must be whole years')
+    }
+  }
+  if (minYear !== undefined && maxYear !== undefined && minYear > maxYear) {
+    throw new Error('The earliest release year must not be after the latest')
+  }
+  if (
+    maxDeckSize !== undefined &&
+    (!Number.isInteger(maxDeckSize) || maxDeckSize < 1)
+  ) {
+    throw new Error('Deck size cap must be a positive whole number')
+  }
+
+  const excludeArtists = filters.excludeArtists
+    ?.map((name) => name.trim())
+    .filter(Boolean)
+  return {
+    ...filters,
+    excludeArtists: excludeArtists?.length ? excludeArtists : undefined,
+  }
+}
+
+/**
+ * Check a deck strategy when a game is created
+ */
+export function validateDeckStrategy(strategy: DeckStrategy): void {
+  if (
+    strategy.strategy === 'eraBalanced' &&
+    (!Number.isInteger(strategy.minArtistGap) ||
+      strategy.minArtistGap < 0 ||
+      strategy.minArtistGap > MAX_ARTIST_GAP)
+  ) {
+    throw new Error(`Artist gap must be between 0 and ${MAX_ARTIST_GAP} cards`)
+  }
+}
+
+/**
+ * Pick the tracks that can go into the deck: ready tracks with a release
+ * year that pass the game's deck filters. The size cap is applied after
+ * shuffling, so it's left to the caller.
+ */
+export function filterDeckTracks(
+  tracks: Array<Doc<'playlistTracks'>>,
+  filters: DeckFilters | undefined,
+): Array<DeckTrack> {
+  const excluded = new Set(
+    (filters?.excludeArtists ?? []).map((name) => normalizeString(name)),
+  )
+
+  const deck: Array<DeckTrack> = []
+  for (const track of tracks) {
+    const releaseYear = track.releaseYear
+    if (releaseYear === undefined) continue
+    if (filters?.minYear !== undefined && releaseYear < filters.minYear) {
+      continue
+    }
+    if (filters?.maxYear !== undefined && releaseYear > filters.maxYear) {
+      continue
+    }
+    if (filters?.requirePreview && !track.previewUrl) continue
+    if (track.artistNames.some((name) => excluded.has(normalizeString(name)))) {
+      continue
+    }
+    deck.push({
+      trackId: track._id,
+      releaseYear,
+      artistNames: track.artistNames,
+    })
+  }
+  return deck
+}
+
+/**
+ * Put the deck in draw order using the game's strategy. Every random choice
+ * comes from `random`, so the same seed and strategy give the same order.
+ */
+export function orderDeck(
+  tracks: Array<DeckTrack>,
+  strategy: DeckStrategy | undefined,
+  random: Random,
+): Array<DeckTrack> {
+  if (strategy?.strategy !== 'eraBalanced') {
+    return shuffleArray(tracks, random)
+  }
+  return spaceArtists(stratifyByDecade(tracks, random), strategy.minArtistGap)
+}
+
+/**
+ * Spread each decade evenly through the deck: a decade with k cards gets one
+ * card in each k-th of the deck, at a random point within that stretch.
+ */
+function stratifyByDecade(
+  tracks: Array<DeckTrack>,
+  random: Random,
+): Array<DeckTrack> {
+  const decades = new Map<number, Array<DeckTrack>>()
+  for (const track of tracks) {
+    const decade = Math.floor(track.releaseYear / 10)
+    const group = decades.get(decade)
+    if (group) {
+      group.push(track)
+    } else {
+      decades.set(decade, [track])
+    }
+  }
+
+  // Iterate decades in a fixed order so the result only depends on the seed
+  const keyed: Array<{ track: DeckTrack; key: number }> = []
+  for (const decade of [...decades.keys()].sort((a, b) => a - b)) {
+    const group = shuffleArray(decades.get(decade) ?? [], random)
+    group.forEach((track, i) => {
+      keyed.push({ track, key: (i + random()) / group.length })
+    })
+  }
+
+  return keyed.sort((a, b) => a.key - b.key).map(({ track }) => track)
+}
+
+/**
+ * Reorder the deck so at least `gap` cards separate two cards by the same
+ * artist, moving cards as little as possible. Only the next
+ * `ARTIST_LOOKAHEAD` cards are searched for one that fits, so large decks
+ * stay fast. When none fits (e.g. one artist dominates the playlist) the
+ * next card is used anyway.
+ */
+function spaceArtists(tracks: Array<DeckTrack>, gap: number): Array<DeckTrack> {
+  if (gap < 1) {
+    return tracks
+  }
+
+  const lastSeen = new Map<string, number>()
+  const upcoming = tracks.map((track) => ({
+    track,
+    artists: track.artistNames.map((name) => normalizeString(name)),
+  }))
+  const window: typeof upcoming = []
+  let nextIndex = 0
+  const ordered: Array<DeckTrack> = []
+
+  while (ordered.length < tracks.length) {
+    while (window.length < ARTIST_LOOKAHEAD && nextIndex < upcoming.length) {
+      window.push(upcoming[nextIndex++])
+    }
+
+    const position = ordered.length
+    const index = window.findIndex(({ artists }) =>
+      artists.every(
+        (artist) => position - (lastSeen.get(artist) ?? -Infinity) > gap,
+      ),
+    )
+    const [{ track, artists }] = window.splice(Math.max(0, index), 1)
+    for (const artist of artists) {
+      lastSeen.set(artist, position)
+    }
+    ordered.push(track)
+  }
+
+  return ordered
+}
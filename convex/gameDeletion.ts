@@ -0,0 +1,176 @@
+import { v } from 'convex/values'
+import { internal } from './_generated/api'
+import { internalMutation } from './_generated/server'
+import { cancelPhaseTimer, cancelTimeLimit } from './turnTimers'
+import type { Doc, Id } from './_generated/dataModel'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+
+// Rows deleted per mutation, well inside Convex's per-mutation write limits
+const DELETE_BATCH_SIZE = 500
+
+// ===========================================
+// Lookup helpers
+// ===========================================
+
+/**
+ * Find a game that is not being deleted. A game being deleted counts as
+ * gone, so nothing can add rows to it while its batches run.
+ */
+export async function findLiveGame(
+  ctx: QueryCtx,
+  gameId: Id<'games'>,
+): Promise<Doc<'games'> | null> {
+  const game = await ctx.db.get('games', gameId)
+  if (!game || game.deletingAt !== undefined) {
+    return null
+  }
+  return game
+}
+
+/**
+ * Load a game that is not being deleted, or throw as if it did not exist
+ */
+export async function getLiveGame(
+  ctx: QueryCtx,
+  gameId: Id<'games'>,
+): Promise<Doc<'games'>> {
+  const game = await findLiveGame(ctx, gameId)
+  if (!game) {
+    throw new Error('Game not found')
+  }
+  return game
+}
+
+// ===========================================
+// Deletion helpers
+// ===========================================
+
+/**
+ * Delete up to `limit` of a game's rows, the tables that point at others
+ * first. Returns how many were deleted: fewer than `limit` means none are
+ * left.
+ */
+async function deleteGameRows(
+  ctx: MutationCtx,
+  gameId: Id<'games'>,
+  limit: number,
+): Promise<number> {
+  let deleted = 0
+
+  const events = await ctx.db
+    .query('gameEvents')
+    .withIndex('by_gameId_and_sequence', (q) => q.eq('gameId', gameId))
+    .take(limit - deleted)
+  for (const event of events) {
+    await ctx.db.delete('gameEvents', event._id)
+  }
+  deleted += events.length
+  if (deleted >= limit) return deleted
+
+  const entries = await ctx.db
+    .query('timelineEntries')
+    .withIndex('by_gameId', (q) => q.eq('gameId', gameId))
+    .take(limit - deleted)
+  for (const entry of entries) {
+    await ctx.db.delete('timelineEntries', entry._id)
+  }
+  deleted += entries.length
+  if (deleted >= limit) return deleted
+
+  const cards = await ctx.db
+    .query('gameCards')
+    .withIndex('by_gameId', (q) => q.eq('gameId', gameId))
+    .take(limit - deleted)
+  for (const card of cards) {
+    await ctx.db.delete('gameCards', card._id)
+  }
+  deleted += cards.length
+  if (deleted >= limit) return deleted
+
+  const spectators = await ctx.db
+    .query('gameSpectators')
+    .withIndex('by_gameId', (q) => q.eq('gameId', gameId))
+    .take(limit - deleted)
+  for (const spectator of spectators) {
+    await ctx.db.delete('gameSpectators', spectator._id)
+  }
+  deleted += spectators.length
+  if (deleted >= limit) return deleted
+
+  const players = await ctx.db
+    .query('gamePlayers')
+    .withIndex('by_gameId', (q) => q.eq('gameId', gameId))
+    .take(limit - deleted)
+  for (const player of players) {
+    await ctx.db.delete('gamePlayers', player._id)
+  }
+  deleted += players.length
+  if (deleted >= limit) return deleted
+
+  const teams = await ctx.db
+    .query('gameTeams')
+    .withIndex('by_gameId', (q) => q.eq('gameId', gameId))
+    .take(limit - deleted)
+  for (const team of teams) {
+    await ctx.db.delete('gameTeams', team._id)
+  }
+  deleted += teams.length
+
+  return deleted
+}
+
+/**
+ * Start deleting a game at any phase: it disappears from lookups and stops
+ * accepting turns at once, and its rows are removed by scheduled batches
+ */
+export async function scheduleGameDeletion(
+  ctx: MutationCtx,
+  game: Doc<'games'>,
+): Promise<void> {
+  if (game.deletingAt !== undefined) {
+    return
+  }
+
+  await cancelPhaseTimer(ctx, game)
+  await cancelTimeLimit(ctx, game)
+  await ctx.db.patch('games', game._id, {
+    deletingAt: Date.now(),
+    phaseTimer: undefined,
+    timeLimitTimer: undefined,
+  })
+  await ctx.scheduler.runAfter(0, internal.gameDeletion.deleteGameBatch, {
+    gameId: game._id,
+  })
+}
+
+// ===========================================
+// Internal Mutations
+// ===========================================
+
+/**
+ * Delete one batch of a game's rows, then schedule the next batch, or
+ * delete the game itself once nothing else is left
+ */
+export const deleteGameBatch = internalMutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const deleted = await deleteGameRows(ctx, args.gameId, DELETE_BATCH_SIZE)
+
+    if (deleted >= DELETE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.gameDeletion.deleteGameBatch, {
+        gameId: args.gameId,
+      })
+      return null
+    }
+
+    const game = await ctx.db.get('games', args.gameId)
+    if (game) {
+      await ctx.db.delete('games', game._id)
+    }
+
+    return null
+  },
+})
@@ -0,0 +1,187 @@
+import { v } from 'convex/values'
+import { query } from './_generated/server'
+import { gameEventDataValidator } from './schema'
+import { formatSourceNames, getDeckSourceNames } from './deck'
+import { getGameByCode, isSpectator } from './spectators'
+import type { Infer } from 'convex/values'
+import type { Id } from './_generated/dataModel'
+import type { MutationCtx } from './_generated/server'
+
+export type GameEventData = Infer<typeof gameEventDataValidator>
+
+// ===========================================
+// Event recording
+// ===========================================
+
+/**
+ * Append an event to a game's log.
+ * Sequence numbers are assigned here so callers never have to track them.
+ */
+export async function recordGameEvent(
+  ctx: MutationCtx,
+  gameId: Id<'games'>,
+  round: number,
+  data: GameEventData,
+): Promise<void> {
+  const lastEvent = await ctx.db
+    .query('gameEvents')
+    .withIndex('by_gameId_and_sequence', (q) => q.eq('gameId', gameId))
+    .order('desc')
+    .first()
+
+  await ctx.db.insert('gameEvents', {
+    gameId,
+    sequence: lastEvent ? lastEvent.sequence + 1 : 0,
+    round,
+    createdAt: Date.now(),
+    data,
+  })
+}
+
+// ===========================================
+// Replay Queries
+// ===========================================
+
+/**
+ * Get the full event log of a finished game, plus the card and player
+ * details needed to rebuild it round by round on the client
+ */
+export const getReplay = query({
+  args: { joinCode: v.string() },
+  returns: v.union(
+    v.object({
+      gameId: v.id('games'),
+      playlistName: v.optional(v.string()),
+      winnerId: v.optional(v.id('gamePlayers')),
+      players: v.array(
+        v.object({
+          _id: v.id('gamePlayers'),
+          seatIndex: v.number(),
+          displayName: v.string(),
+          isCurrentUser: v.boolean(),
+        }),
+      ),
+      cards: v.array(
+        v.object({
+          _id: v.id('gameCards'),
+          title: v.string(),
+          artistNames: v.array(v.string()),
+          releaseYear: v.number(),
+          imageUrl: v.optional(v.string()),
+        }),
+      ),
+      events: v.array(
+        v.object({
+          sequence: v.number(),
+          round: v.number(),
+          createdAt: v.number(),
+          data: gameEventDataValidator,
+        }),
+      ),
+    }),
+    v.null(),
+  ),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      return null
+    }
+
+    const game = await getGameByCode(ctx, args.joinCode)
+
+    // Replays would leak upcoming cards, so only finished games are available
+    if (!game || game.phase !== 'finished') {
+      return null
+    }
+
+    const players = await ctx.db
+      .query('gamePlayers')
+      .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+      .collect()
+
+    const isHost = game.hostUserId === identity.subject
+    const isPlayer = players.some(
+      (p) => p.kind === 'user' && p.userId === identity.subject,
+    )
+    if (
+      !isHost &&
+      !isPlayer &&
+      !(await isSpectator(ctx, game._id, identity.subject))
+    ) {
+      return null
+    }
+
+    players.sort((a, b) => a.seatIndex - b.seatIndex)
+
+    const events = await ctx.db
+      .query('gameEvents')
+      .withIndex('by_gameId_and_sequence', (q) => q.eq('gameId', game._id))
+      .collect()
+
+    // Only include cards that actually appear in the log
+    const cardIds = new Set<Id<'gameCards'>>()
+    for (const event of events) {
+      const data = event.data
+      if (data.type === 'gameStarted') {
+        for (const starting of data.startingCards) {
+          cardIds.add(starting.cardId)
+        }
+      } else if (data.type === 'playerJoined') {
+        data.startingCardIds.forEach((cardId) => cardIds.add(cardId))
+      } else if (data.type === 'playerRemoved') {
+        data.discardedCardIds.forEach((cardId) => cardIds.add(cardId))
+      } else if (
+        data.type !== 'gameFinished' &&
+        data.type !== 'playerStatusChanged' &&
+        data.type !== 'suddenDeathStarted'
+      ) {
+        cardIds.add(data.cardId)
+      }
+    }
+
+    const cards: Array<{
+      _id: Id<'gameCards'>
+      title: string
+      artistNames: Array<string>
+      releaseYear: number
+      imageUrl?: string
+    }> = []
+
+    for (const cardId of cardIds) {
+      const card = await ctx.db.get('gameCards', cardId)
+      if (!card) continue
+
+      const track = await ctx.db.get('playlistTracks', card.trackId)
+      if (!track) continue
+
+      cards.push({
+        _id: card._id,
+        title: track.title,
+        artistNames: track.artistNames,
+        releaseYear: card.releaseYear,
+        imageUrl: track.imageUrl,
+      })
+    }
+
+    const sources = await getDeckSourceNames(ctx, game)
+
+    return {
+      gameId: game._id,
+      playlistName: formatSourceNames(sources) || undefined,
+      winnerId: game.winnerId,
+      players: players.map((p) => ({
+        _id: p._id,
+        seatIndex: p.seatIndex,
+        displayName: p.displayName,
+        isCurrentUser: p.kind === 'user' && p.userId === identity.subject,
+      })),
+      cards,
+      events: events.map((e) => ({
+        sequence: e.sequence,
+        round: e.round,
+        createdAt: e.createdAt,
+        data: e.data,
+      })),
+    }
+  },
+})
@@ -1,6 +1,62 @@
 import { v } from 'convex/values'
 import { mutation, query } from './_generated/server'
-import type { QueryCtx } from './_generated/server'
+import { recordGameEvent } from './gameEvents'
+import {
+  deckFiltersValidator,
+  deckSourceValidator,
+  deckStrategyValidator,
+  endOfDeckValidator,
+  gameFinishReasonValidator,
+  gameLimitValidator,
+  gameRulesValidator,
+  lateJoinValidator,
+  playStyleValidator,
+  rulesPresetValidator,
+  seatStatusValidator,
+  standingValidator,
+  turnTimersValidator,
+} from './schema'
+import {
+  createTeams,
+  getGameTeams,
+  hasTeams,
+  pickTeamForNewSeat,
+  takeTeamTurn,
+} from './teams'
+import { RULES_PRESETS, getGameRules } from './rules'
+import {
+  combineDeckSources,
+  dedupeTracks,
+  filterDeckTracks,
+  formatSourceNames,
+  getDeckSourceNames,
+  getDeckSources,
+  orderDeck,
+  validateDeckFilters,
+  validateDeckSources,
+  validateDeckStrategy,
+} from './deck'
+import { canUsePlaylist } from './playlistAccess'
+import { getEndOfDeck, validateEndOfDeck } from './standings'
+import { findLiveGame, getLiveGame, scheduleGameDeletion } from './gameDeletion'
+import {
+  cancelPhaseTimer,
+  cancelTimeLimit,
+  restartPhaseTimer,
+  resumePhaseTimer,
+  resumeTimeLimit,
+  startTimeLimit,
+} from './turnTimers'
+import { drawNextCard, leaveStartedGame } from './turns'
+import { createRandom, generateSeed, randomCode, resolveSeed } from './random'
+import {
+  generateSpectateCode,
+  getGameByCode,
+  getGameSpectators,
+  isSpectator,
+} from './spectators'
+import type { Infer } from 'convex/values'
+import type { MutationCtx, QueryCtx } from './_generated/server'
 import type { Doc, Id } from './_generated/dataModel'
 
 // ===========================================
@@ -25,27 +81,244 @@ export const gamePhaseValidator = v.union(
 // ===========================================
 
 /**
- * Generate a random 6-character alphanumeric join code
+ * Generate a 6-character join code no other game is using (as a join code
+ * or a spectate code).
+ * Codes are drawn from the game's seed mixed with its creation time, so a
+ * replayed deck doesn't keep colliding with the original game's code.
  */
-function generateJoinCode(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789' // Removed ambiguous chars (0, O, 1, I)
-  let code = ''
-  for (let i = 0; i < 6; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length))
+async function generateUniqueJoinCode(
+  ctx: MutationCtx,
+  seed: string,
+  createdAt: number,
+): Promise<string> {
+  const random = createRandom(`${seed}:joinCode:${createdAt}`)
+  for (let attempts = 0; attempts < 10; attempts++) {
+    const joinCode = randomCode(random, 6)
+    if (!(await getGameByCode(ctx, joinCode))) {
+      return joinCode
+    }
+  }
+  throw new Error('Could not generate unique join code')
+}
+
+/**
+ * Check a late-join setting fits the game: late joins need remote players,
+ * and a newcomer's hand must stay short of the win condition
+ */
+function validateLateJoin(
+  lateJoin: Infer<typeof lateJoinValidator>,
+  mode: Doc<'games'>['mode'],
+  startingCards: number,
+  winCondition: number,
+): void {
+  if (mode !== 'sidecars') {
+    throw new Error('Only multi-device games can be joined late')
+  }
+  if (!Number.isInteger(lateJoin.catchUpCards) || lateJoin.catchUpCards < 0) {
+    throw new Error('Catch-up cards must be a whole number, 0 or more')
+  }
+  if (startingCards + lateJoin.catchUpCards >= winCondition) {
+    throw new Error(
+      `Late joiners would start with ${startingCards + lateJoin.catchUpCards} cards, but ${winCondition} wins the game`,
+    )
   }
-  return code
 }
 
 /**
- * Shuffle an array using Fisher-Yates algorithm
+ * Check a round or time limit: co-op games have no standings to decide
+ * them, and the limit must be a sensible length
  */
-function shuffleArray<T>(array: Array<T>): Array<T> {
-  const shuffled = [...array]
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+function validateGameLimit(
+  limit: Infer<typeof gameLimitValidator>,
+  playStyle: Infer<typeof playStyleValidator>,
+): void {
+  if (playStyle === 'coop') {
+    throw new Error('Co-op games can only end at the win condition')
+  }
+  if (limit.kind === 'rounds') {
+    if (
+      !Number.isInteger(limit.rounds) ||
+      limit.rounds < 1 ||
+      limit.rounds > 100
+    ) {
+      throw new Error('Round limits must be between 1 and 100 rounds')
+    }
+  } else if (
+    !Number.isInteger(limit.minutes) ||
+    limit.minutes < 5 ||
+    limit.minutes > 600
+  ) {
+    throw new Error('Time limits must be between 5 and 600 minutes')
+  }
+}
+
+/**
+ * Check per-phase turn timers: each one that is set must be a whole number
+ * of seconds long enough to act in. Leave a phase unset for no limit.
+ */
+function validateTurnTimers(
+  turnTimers: Infer<typeof turnTimersValidator>,
+): void {
+  for (const seconds of [
+    turnTimers.placementSeconds,
+    turnTimers.bettingSeconds,
+    turnTimers.revealSeconds,
+  ]) {
+    if (
+      seconds !== undefined &&
+      (!Number.isInteger(seconds) || seconds < 5 || seconds > 600)
+    ) {
+      throw new Error('Turn timers must be between 5 and 600 seconds')
+    }
+  }
+}
+
+/**
+ * Deal a player who joined mid-game into it: their starting cards plus any
+ * catch-up cards from the top of the deck, in year order. Team players
+ * share their team's timeline and tokens, so they get no cards of their own.
+ */
+async function dealInLateJoiner(
+  ctx: MutationCtx,
+  game: Doc<'games'>,
+  player: Doc<'gamePlayers'>,
+  lateJoin: Infer<typeof lateJoinValidator>,
+): Promise<void> {
+  const cards: Array<Doc<'gameCards'>> = []
+  if (!player.teamId) {
+    const handSize = getGameRules(game).startingCards + lateJoin.catchUpCards
+    const deckCards = await ctx.db
+      .query('gameCards')
+      .withIndex('by_gameId_and_state', (q) =>
+        q.eq('gameId', game._id).eq('state', 'deck'),
+      )
+      .collect()
+    // Leave at least one card so the game can go on
+    if (deckCards.length <= handSize) {
+      throw new Error('Not enough cards left in the deck to join')
+    }
+
+    for (let i = 0; i < handSize; i++) {
+      const card = await drawNextCard(ctx, game._id)
+      if (!card) break
+      await ctx.db.patch('gameCards', card._id, {
+        state: 'timeline',
+        ownerPlayerId: player._id,
+        deckOrder: undefined,
+      })
+      cards.push(card)
+    }
+    cards.sort((a, b) => a.releaseYear - b.releaseYear)
+
+    for (let position = 0; position < cards.length; position++) {
+      await ctx.db.insert('timelineEntries', {
+        gameId: game._id,
+        playerId: player._id,
+        cardId: cards[position]._id,
+        position,
+      })
+    }
+  }
+
+  await recordGameEvent(ctx, game._id, game.roundNumber ?? 0, {
+    type: 'playerJoined',
+    playerId: player._id,
+    displayName: player.displayName,
+    tokenBalance: player.tokenBalance,
+    teamId: player.teamId,
+    startingCardIds: cards.map((c) => c._id),
+  })
+}
+
+/**
+ * Create a new lobby with a finished (or any) game's settings, playlists
+ * and teams. Local seats and the host's seat are always copied; other
+ * players' seats only when `keepUserSeats` is set, with claimed local seats
+ * handed back to the host otherwise. Seats of players who left are dropped.
+ */
+async function cloneIntoLobby(
+  ctx: MutationCtx,
+  game: Doc<'games'>,
+  options: {
+    seed: string
+    keepUserSeats: boolean
+    rematchOfGameId?: Id<'games'>
+  },
+): Promise<{ gameId: Id<'games'>; joinCode: string }> {
+  const createdAt = Date.now()
+  const joinCode = await generateUniqueJoinCode(ctx, options.seed, createdAt)
+
+  const gameId = await ctx.db.insert('games', {
+    hostUserId: game.hostUserId,
+    joinCode,
+    spectateCode: await generateSpectateCode(ctx),
+    mode: game.mode,
+    playStyle: game.playStyle,
+    playlistId: game.playlistId,
+    deckSources: game.deckSources,
+    useTokens: game.useTokens,
+    startingTokens: game.startingTokens,
+    maxTokens: game.maxTokens,
+    winCondition: game.winCondition,
+    turnTimers: game.turnTimers,
+    lateJoin: game.lateJoin,
+    endOfDeck: game.endOfDeck,
+    limit: game.limit,
+    startingLives: game.startingLives,
+    rules: game.rules,
+    seed: options.seed,
+    deckFilters: game.deckFilters,
+    deckStrategy: game.deckStrategy,
+    rematchOfGameId: options.rematchOfGameId,
+    phase: 'lobby',
+    currentTurnSeatIndex: 0,
+    createdAt,
+  })
+
+  // Recreate the teams in the same order
+  const teams = await getGameTeams(ctx, game._id)
+  const teamIds = await createTeams(
+    ctx,
+    gameId,
+    teams.map((t) => t.name),
+    game.startingTokens,
+  )
+  const newTeamId = (teamId: Id<'gameTeams'> | undefined) => {
+    const index = teams.findIndex((t) => t._id === teamId)
+    return index >= 0 ? teamIds[index] : undefined
+  }
+
+  const players = await ctx.db
+    .query('gamePlayers')
+    .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+    .collect()
+  players.sort((a, b) => a.seatIndex - b.seatIndex)
+
+  const seats = players.filter(
+    (p) =>
+      p.status !== 'left' &&
+      (options.keepUserSeats ||
+        p.kind === 'local' ||
+        p.claimedFromLocal ||
+        (p.isHostSeat && p.userId === game.hostUserId)),
+  )
+  for (let i = 0; i < seats.length; i++) {
+    // Claimed local seats go back to the host unless players are kept
+    const backToLocal = seats[i].claimedFromLocal && !options.keepUserSeats
+    await ctx.db.insert('gamePlayers', {
+      gameId,
+      seatIndex: i,
+      displayName: seats[i].displayName,
+      kind: backToLocal ? 'local' : seats[i].kind,
+      userId: backToLocal ? undefined : seats[i].userId,
+      tokenBalance: game.startingTokens,
+      isHostSeat: seats[i].isHostSeat,
+      teamId: newTeamId(seats[i].teamId),
+      claimedFromLocal: backToLocal ? undefined : seats[i].claimedFromLocal,
+    })
   }
-  return shuffled
+
+  return { gameId, joinCode }
 }
 
 // ===========================================
@@ -57,18 +330,35 @@ function shuffleArray<T>(array: Array<T>): Array<T> {
  *
  * For hostOnly mode: pass player names to create local seats
  * For sidecars mode: host creates the game and shares the join code
+ * For team play: seats are spread evenly across the named teams
+ * For co-op: every seat joins a single team that shares lives
  */
 export const create = mutation({
   args: {
-    playlistId: v.id('playlists'),
+    // The playlists to build the deck from; playlistId is shorthand for one
+    playlistId: v.optional(v.id('playlists')),
+    deckSources: v.optional(v.array(deckSourceValidator)),
     mode: gameModeValidator,
     // For hostOnly mode: array of player names (host is always first)
     playerNames: v.optional(v.array(v.string())),
+    playStyle: v.optional(playStyleValidator),
+    // For team play: team names in turn order (defaults to two teams)
+    teamNames: v.optional(v.array(v.string())),
     // Game options
     useTokens: v.optional(v.boolean()),
     startingTokens: v.optional(v.number()),
     maxTokens: v.optional(v.number()),
     winCondition: v.optional(v.number()),
+    turnTimers: v.optional(turnTimersValidator),
+    lateJoin: v.optional(lateJoinValidator), // Unset = lobby joins only
+    endOfDeck: v.optional(endOfDeckValidator), // Unset = default tie-breakers
+    limit: v.optional(gameLimitValidator), // Unset = play to the win condition
+    startingLives: v.optional(v.number()), // Co-op only
+    rulesPreset: v.optional(rulesPresetValidator), // Defaults to 'original'
+    yearBucketSpan: v.optional(v.number()), // Overrides the preset's bucket size
+    seed: v.optional(v.string()), // Reproduces a deck order; random if blank
+    deckFilters: v.optional(deckFiltersValidator),
+    deckStrategy: v.optional(deckStrategyValidator), // Defaults to random
   },
   returns: v.object({
     gameId: v.id('games'),
@@ -83,43 +373,120 @@ export const create = mutation({
     const userId = identity.subject
     const userName = identity.name ?? 'Host'
 
-    // Verify the playlist exists and belongs to the user
-    const playlist = await ctx.db.get("playlists", args.playlistId)
-    if (!playlist || playlist.ownerUserId !== userId) {
-      throw new Error('Playlist not found or not owned by you')
+    // Verify the playlists exist and are owned by or shared with the user
+    const deckSources =
+      args.deckSources ??
+      (args.playlistId ? [{ playlistId: args.playlistId }] : [])
+    validateDeckSources(deckSources)
+    for (const source of deckSources) {
+      const playlist = await ctx.db.get('playlists', source.playlistId)
+      if (!playlist || !(await canUsePlaylist(ctx, playlist, userId))) {
+        throw new Error('Playlist not found or not shared with you')
+      }
     }
 
-    // Generate a unique join code
-    let joinCode = generateJoinCode()
-    let attempts = 0
-    while (attempts < 10) {
-      const existing = await ctx.db
-        .query('games')
-        .withIndex('by_joinCode', (q) => q.eq('joinCode', joinCode))
-        .first()
-      if (!existing) break
-      joinCode = generateJoinCode()
-      attempts++
+    const playStyle = args.playStyle ?? 'individual'
+    const teamNames =
+      args.teamNames && args.teamNames.length > 0
+        ? args.teamNames.map((name) => name.trim())
+        : ['Team 1', 'Team 2']
+    if (playStyle === 'teams' && teamNames.length < 2) {
+      throw new Error('Team games need at least 2 teams')
+    }
+    if (playStyle === 'teams' && teamNames.some((name) => !name)) {
+      throw new Error('Team names cannot be empty')
     }
-    if (attempts >= 10) {
-      throw new Error('Could not generate unique join code')
+    if (args.startingLives !== undefined && args.startingLives < 1) {
+      throw new Error('Co-op games need at least 1 life')
     }
 
+    const rules = {
+      ...RULES_PRESETS[args.rulesPreset ?? 'original'],
+      ...(args.yearBucketSpan !== undefined && {
+        yearBucketSpan: args.yearBucketSpan,
+      }),
+    }
+    if (
+      !Number.isInteger(rules.yearBucketSpan) ||
+      rules.yearBucketSpan < 1 ||
+      rules.yearBucketSpan > 50
+    ) {
+      throw new Error('Year buckets must be between 1 and 50 years')
+    }
+    const winCondition = args.winCondition ?? 10
+    if (winCondition <= rules.startingCards) {
+      throw new Error(
+        `Win condition must be more than the ${rules.startingCards} starting cards`,
+      )
+    }
+    if (args.lateJoin) {
+      validateLateJoin(
+        args.lateJoin,
+        args.mode,
+        rules.startingCards,
+        winCondition,
+      )
+    }
+    if (args.endOfDeck) {
+      validateEndOfDeck(args.endOfDeck, playStyle)
+    }
+    if (args.limit) {
+      validateGameLimit(args.limit, playStyle)
+    }
+    if (args.turnTimers) {
+      validateTurnTimers(args.turnTimers)
+    }
+
+    const deckFilters = args.deckFilters
+      ? validateDeckFilters(args.deckFilters)
+      : undefined
+    const deckStrategy = args.deckStrategy ?? { strategy: 'random' }
+    validateDeckStrategy(deckStrategy)
+    const seed = resolveSeed(args.seed)
+    const createdAt = Date.now()
+    const joinCode = await generateUniqueJoinCode(ctx, seed, createdAt)
+
     // Create the game
     const gameId = await ctx.db.insert('games', {
       hostUserId: userId,
       joinCode,
+      spectateCode: await generateSpectateCode(ctx),
       mode: args.mode,
-      playlistId: args.playlistId,
+      playStyle,
+      playlistId: deckSources[0].playlistId,
+      deckSources,
       useTokens: args.useTokens ?? true,
       startingTokens: args.startingTokens ?? 2,
       maxTokens: args.maxTokens ?? 5,
-      winCondition: args.winCondition ?? 10,
+      winCondition,
+      turnTimers: args.turnTimers,
+      lateJoin: args.lateJoin,
+      endOfDeck: args.endOfDeck,
+      limit: args.limit,
+      startingLives:
+        playStyle === 'coop' ? (args.startingLives ?? 3) : undefined,
+      rules,
+      seed,
+      deckFilters,
+      deckStrategy,
       phase: 'lobby',
       currentTurnSeatIndex: 0,
-      createdAt: Date.now(),
+      createdAt,
     })
 
+    // Co-op is played as a single team of everyone
+    const teamIds =
+      playStyle === 'teams'
+        ? await createTeams(ctx, gameId, teamNames, args.startingTokens ?? 2)
+        : playStyle === 'coop'
+          ? await createTeams(
+              ctx,
+              gameId,
+              ['Everyone'],
+              args.startingTokens ?? 2,
+            )
+          : []
+
     // Create player seats
     if (args.mode === 'hostOnly') {
       // For host-only mode, create local seats from the provided names
@@ -136,6 +503,7 @@ export const create = mutation({
           kind: 'local',
           tokenBalance: args.startingTokens ?? 2,
           isHostSeat: i === 0,
+          teamId: teamIds.length > 0 ? teamIds[i % teamIds.length] : undefined,
         })
       }
     } else {
@@ -148,6 +516,7 @@ export const create = mutation({
         userId,
         tokenBalance: args.startingTokens ?? 2,
         isHostSeat: true,
+        teamId: teamIds.at(0),
       })
     }
 
@@ -155,6 +524,91 @@ export const create = mutation({
   },
 })
 
+/**
+ * Start over with the exact same deck: creates a new lobby with the old
+ * game's seed and settings, so starting it shuffles the playlist into the
+ * same card order. Local seats are copied; sidecar players rejoin with the
+ * new join code.
+ */
+export const replayDeck = mutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.object({
+    gameId: v.id('games'),
+    joinCode: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const game = await getLiveGame(ctx, args.gameId)
+
+    if (game.hostUserId !== identity.subject) {
+      throw new Error('Only the host can replay this deck')
+    }
+
+    if (!game.seed) {
+      throw new Error('This game has no deck seed to replay')
+    }
+
+    return await cloneIntoLobby(ctx, game, {
+      seed: game.seed,
+      keepUserSeats: false,
+    })
+  },
+})
+
+/**
+ * Play again with the same people: creates a new lobby with the same
+ * settings, playlists and seats (a fresh deck), and links it from the
+ * finished game so everyone still watching is sent there. Calling it again
+ * returns the rematch that already exists.
+ */
+export const rematch = mutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.object({
+    gameId: v.id('games'),
+    joinCode: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const game = await getLiveGame(ctx, args.gameId)
+
+    if (game.hostUserId !== identity.subject) {
+      throw new Error('Only the host can start a rematch')
+    }
+
+    if (game.phase !== 'finished') {
+      throw new Error('Can only rematch a finished game')
+    }
+
+    if (game.rematchGameId) {
+      const existing = await findLiveGame(ctx, game.rematchGameId)
+      if (existing) {
+        return { gameId: existing._id, joinCode: existing.joinCode }
+      }
+    }
+
+    const result = await cloneIntoLobby(ctx, game, {
+      seed: generateSeed(),
+      keepUserSeats: true,
+      rematchOfGameId: game._id,
+    })
+    await ctx.db.patch('games', game._id, { rematchGameId: result.gameId })
+
+    return result
+  },
+})
+
 /**
  * Add a local player seat to a host-only game (in lobby phase)
  */
@@ -170,10 +624,7 @@ export const addLocalPlayer = mutation({
       throw new Error('Not authenticated')
     }
 
-    const game = await ctx.db.get("games", args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
-    }
+    const game = await getLiveGame(ctx, args.gameId)
 
     if (game.hostUserId !== identity.subject) {
       throw new Error('Only the host can add local players')
@@ -200,6 +651,7 @@ export const addLocalPlayer = mutation({
       kind: 'local',
       tokenBalance: game.startingTokens,
       isHostSeat: false,
+      teamId: await pickTeamForNewSeat(ctx, game),
     })
 
     return playerId
@@ -225,10 +677,7 @@ export const removeLocalPlayer = mutation({
       throw new Error('Player not found')
     }
 
-    const game = await ctx.db.get("games", player.gameId)
-    if (!game) {
-      throw new Error('Game not found')
-    }
+    const game = await getLiveGame(ctx, player.gameId)
 
     if (game.hostUserId !== identity.subject) {
       throw new Error('Only the host can remove players')
@@ -272,7 +721,8 @@ export const removeLocalPlayer = mutation({
 })
 
 /**
- * Join a game by code (sidecars mode only)
+ * Join a game by code (sidecars mode only), in the lobby or, when the host
+ * allows late joins, after the game has started
  */
 export const joinByCode = mutation({
   args: {
@@ -293,22 +743,30 @@ export const joinByCode = mutation({
     const userName = args.displayName ?? identity.name ?? 'Player'
 
     // Find the game by join code
-    const game = await ctx.db
-      .query('games')
-      .withIndex('by_joinCode', (q) =>
-        q.eq('joinCode', args.joinCode.toUpperCase()),
-      )
-      .first()
+    const game = await getGameByCode(ctx, args.joinCode)
 
     if (!game) {
       throw new Error('Game not found. Check the join code.')
     }
 
+    if (game.joinCode !== args.joinCode.trim().toUpperCase()) {
+      throw new Error('This code is for watching the game, not joining it')
+    }
+
     if (game.mode !== 'sidecars') {
       throw new Error('This game does not accept remote players')
     }
 
-    if (game.phase !== 'lobby') {
+    if (game.kickedUserIds?.includes(userId)) {
+      throw new Error('The host removed you from this game')
+    }
+
+    if (game.phase === 'finished') {
+      throw new Error('Game has already finished')
+    }
+
+    const { lateJoin } = game
+    if (game.phase !== 'lobby' && !lateJoin) {
       throw new Error('Game has already started')
     }
 
@@ -324,6 +782,17 @@ export const joinByCode = mutation({
       return { gameId: game._id, playerId: existingPlayer._id }
     }
 
+    // Spectators who take a seat stop watching
+    const spectator = await ctx.db
+      .query('gameSpectators')
+      .withIndex('by_gameId_and_userId', (q) =>
+        q.eq('gameId', game._id).eq('userId', userId),
+      )
+      .first()
+    if (spectator) {
+      await ctx.db.delete('gameSpectators', spectator._id)
+    }
+
     // Get current player count
     const players = await ctx.db
       .query('gamePlayers')
@@ -339,18 +808,29 @@ export const joinByCode = mutation({
       userId,
       tokenBalance: game.startingTokens,
       isHostSeat: false,
+      teamId: await pickTeamForNewSeat(ctx, game),
     })
 
+    // Late joiners take the last seat in the turn order
+    if (game.phase !== 'lobby' && lateJoin) {
+      const player = await ctx.db.get('gamePlayers', playerId)
+      if (player) {
+        await dealInLateJoiner(ctx, game, player, lateJoin)
+      }
+    }
+
     return { gameId: game._id, playerId }
   },
 })
 
 /**
- * Leave a game (sidecars mode only, in lobby phase)
+ * Let players join after the game has started, or stop allowing it
+ * (host only, until the game ends)
  */
-export const leave = mutation({
+export const setLateJoin = mutation({
   args: {
     gameId: v.id('games'),
+    lateJoin: v.optional(lateJoinValidator),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -359,13 +839,50 @@ export const leave = mutation({
       throw new Error('Not authenticated')
     }
 
-    const game = await ctx.db.get("games", args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
+    const game = await getLiveGame(ctx, args.gameId)
+
+    if (game.hostUserId !== identity.subject) {
+      throw new Error('Only the host can change late joins')
     }
 
-    if (game.phase !== 'lobby') {
-      throw new Error('Cannot leave after game has started')
+    if (game.phase === 'finished') {
+      throw new Error('Game has already finished')
+    }
+
+    if (args.lateJoin) {
+      validateLateJoin(
+        args.lateJoin,
+        game.mode,
+        getGameRules(game).startingCards,
+        game.winCondition,
+      )
+    }
+
+    await ctx.db.patch('games', args.gameId, { lateJoin: args.lateJoin })
+
+    return null
+  },
+})
+
+/**
+ * Leave a game (sidecars mode only). After the start, leaving players'
+ * cards are discarded or kept in the standings depending on the rules.
+ */
+export const leave = mutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const game = await getLiveGame(ctx, args.gameId)
+
+    if (game.phase === 'finished') {
+      throw new Error('Game is already over')
     }
 
     // Find the player's seat
@@ -384,6 +901,24 @@ export const leave = mutation({
       throw new Error('Host cannot leave. Delete the game instead.')
     }
 
+    // A claimed local seat goes back to the host rather than disappearing
+    if (player.claimedFromLocal) {
+      await ctx.db.patch("gamePlayers", player._id, {
+        kind: 'local',
+        userId: undefined,
+        claimedFromLocal: undefined,
+      })
+      return null
+    }
+
+    if (game.phase !== 'lobby') {
+      if (game.pausedAt !== undefined) {
+        throw new Error('The game is paused')
+      }
+      await leaveStartedGame(ctx, game, player)
+      return null
+    }
+
     // Delete the player
     await ctx.db.delete("gamePlayers", player._id)
 
@@ -408,11 +943,13 @@ export const leave = mutation({
 })
 
 /**
- * Delete a game (host only, in lobby phase)
+ * Set the turn order by listing every seat in the new order
+ * (host only, in lobby phase)
  */
-export const deleteGame = mutation({
+export const reorderSeats = mutation({
   args: {
     gameId: v.id('games'),
+    playerIds: v.array(v.id('gamePlayers')),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -421,31 +958,162 @@ export const deleteGame = mutation({
       throw new Error('Not authenticated')
     }
 
-    const game = await ctx.db.get("games", args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
-    }
+    const game = await getLiveGame(ctx, args.gameId)
 
     if (game.hostUserId !== identity.subject) {
-      throw new Error('Only the host can delete the game')
+      throw new Error('Only the host can reorder seats')
     }
 
     if (game.phase !== 'lobby') {
-      throw new Error('Cannot delete a game that has started')
+      throw new Error('Can only reorder seats in lobby phase')
     }
 
-    // Delete all players
     const players = await ctx.db
       .query('gamePlayers')
-      .withIndex('by_gameId', (q) => q.eq('gameId', args.gameId))
+      .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+      .collect()
+
+    if (
+      args.playerIds.length !== players.length ||
+      new Set(args.playerIds).size !== players.length ||
+      !players.every((p) => args.playerIds.includes(p._id))
+    ) {
+      throw new Error('Seat order must list every player once')
+    }
+
+    for (let i = 0; i < args.playerIds.length; i++) {
+      const player = players.find((p) => p._id === args.playerIds[i])
+      if (player && player.seatIndex !== i) {
+        await ctx.db.patch('gamePlayers', player._id, { seatIndex: i })
+      }
+    }
+
+    return null
+  },
+})
+
+/**
+ * Hand host rights to a player with their own device (host only), so the
+ * game can carry on without the original host. The new host controls any
+ * local seats from then on.
+ */
+export const transferHost = mutation({
+  args: {
+    playerId: v.id('gamePlayers'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const player = await ctx.db.get('gamePlayers', args.playerId)
+    if (!player) {
+      throw new Error('Player not found')
+    }
+
+    const game = await getLiveGame(ctx, player.gameId)
+
+    if (game.hostUserId !== identity.subject) {
+      throw new Error('Only the host can transfer host rights')
+    }
+
+    if (player.kind !== 'user' || !player.userId) {
+      throw new Error('Only a player on their own device can become host')
+    }
+
+    if (player.userId === game.hostUserId) {
+      throw new Error('That player is already the host')
+    }
+
+    const previousHostSeats = await ctx.db
+      .query('gamePlayers')
+      .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
       .collect()
+    for (const seat of previousHostSeats) {
+      if (seat.isHostSeat) {
+        await ctx.db.patch('gamePlayers', seat._id, { isHostSeat: false })
+      }
+    }
+
+    await ctx.db.patch('gamePlayers', player._id, {
+      isHostSeat: true,
+      // The new host controls local seats anyway, so it is no longer a claim
+      claimedFromLocal: undefined,
+    })
+    await ctx.db.patch('games', game._id, { hostUserId: player.userId })
+
+    return null
+  },
+})
+
+/**
+ * Delete a game at any phase (host only). It disappears at once; its cards,
+ * timelines, events and seats are removed in the background.
+ */
+export const deleteGame = mutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const game = await getLiveGame(ctx, args.gameId)
+
+    if (game.hostUserId !== identity.subject) {
+      throw new Error('Only the host can delete the game')
+    }
+
+    await scheduleGameDeletion(ctx, game)
 
-    for (const player of players) {
-      await ctx.db.delete("gamePlayers", player._id)
+    return null
+  },
+})
+
+/**
+ * Archive a finished game, hiding it from the caller's game list without
+ * losing its results, or bring it back (host or seated players only)
+ */
+export const setArchived = mutation({
+  args: {
+    gameId: v.id('games'),
+    archived: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
     }
 
-    // Delete the game
-    await ctx.db.delete("games", args.gameId)
+    const game = await getLiveGame(ctx, args.gameId)
+
+    const userId = identity.subject
+    const seat = await ctx.db
+      .query('gamePlayers')
+      .withIndex('by_gameId_and_userId', (q) =>
+        q.eq('gameId', game._id).eq('userId', userId),
+      )
+      .first()
+    if (game.hostUserId !== userId && !seat) {
+      throw new Error('You are not in this game')
+    }
+
+    if (game.phase !== 'finished') {
+      throw new Error('Only finished games can be archived')
+    }
+
+    const archivedBy = (game.archivedByUserIds ?? []).filter(
+      (id) => id !== userId,
+    )
+    await ctx.db.patch('games', game._id, {
+      archivedByUserIds: args.archived ? [...archivedBy, userId] : archivedBy,
+    })
 
     return null
   },
@@ -459,7 +1127,7 @@ export const deleteGame = mutation({
  * Start the game (host only)
  * - Materializes gameCards from playlist (ready tracks only)
  * - Shuffles the deck
- * - Deals 1 starting card to each player's timeline
+ * - Deals 1 starting card to each player's timeline (each team's in team games)
  */
 export const start = mutation({
   args: {
@@ -472,10 +1140,7 @@ export const start = mutation({
       throw new Error('Not authenticated')
     }
 
-    const game = await ctx.db.get("games", args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
-    }
+    const game = await getLiveGame(ctx, args.gameId)
 
     if (game.hostUserId !== identity.subject) {
       throw new Error('Only the host can start the game')
@@ -485,16 +1150,23 @@ export const start = mutation({
       throw new Error('Game has already started')
     }
 
-    // Verify playlist is ready
-    const playlist = await ctx.db.get("playlists", game.playlistId)
-    if (!playlist) {
-      throw new Error('Playlist not found')
-    }
-
-    if (playlist.status !== 'ready') {
-      throw new Error(
-        'Playlist is still processing. Please wait until all tracks are matched.',
-      )
+    // Verify every source playlist is still available and ready
+    const sources = getDeckSources(game)
+    const playlists: Array<Doc<'playlists'>> = []
+    for (const source of sources) {
+      const playlist = await ctx.db.get('playlists', source.playlistId)
+      if (!playlist) {
+        throw new Error('Playlist not found')
+      }
+      if (!(await canUsePlaylist(ctx, playlist, game.hostUserId))) {
+        throw new Error(`${playlist.name} is no longer shared with you`)
+      }
+      if (playlist.status !== 'ready') {
+        throw new Error(
+          `${sources.length > 1 ? playlist.name : 'Playlist'} is still processing. Please wait until all tracks are matched.`,
+        )
+      }
+      playlists.push(playlist)
     }
 
     // Get all players
@@ -510,80 +1182,178 @@ export const start = mutation({
     // Sort by seat index
     players.sort((a, b) => a.seatIndex - b.seatIndex)
 
-    // Get ready tracks from playlist
-    const readyTracks = await ctx.db
-      .query('playlistTracks')
-      .withIndex('by_playlistId_and_status', (q) =>
-        q.eq('playlistId', game.playlistId).eq('status', 'ready'),
-      )
-      .collect()
+    // Timelines belong to teams in team games, otherwise to players
+    const isTeamGame = hasTeams(game)
+    const teams = isTeamGame ? await getGameTeams(ctx, args.gameId) : []
+    if (isTeamGame) {
+      for (const team of teams) {
+        if (!players.some((p) => p.teamId === team._id)) {
+          throw new Error(`${team.name} needs at least 1 player`)
+        }
+      }
+    }
+    const timelineCount = isTeamGame ? teams.length : players.length
+    const { startingCards } = getGameRules(game)
+    const dealtCount = timelineCount * startingCards
+    const { suddenDeathCards } = getEndOfDeck(game)
+
+    // Get ready tracks from every playlist, each song only once
+    const allReadyTracks: Array<Doc<'playlistTracks'>> = []
+    for (const playlist of playlists) {
+      const tracks = await ctx.db
+        .query('playlistTracks')
+        .withIndex('by_playlistId_and_status', (q) =>
+          q.eq('playlistId', playlist._id).eq('status', 'ready'),
+        )
+        .collect()
+      allReadyTracks.push(...tracks)
+    }
+    const readyTracks = dedupeTracks(allReadyTracks)
 
-    if (readyTracks.length < players.length + 10) {
+    const minimumDeckSize = dealtCount + 10 + suddenDeathCards
+    if (readyTracks.length < minimumDeckSize) {
       throw new Error(
-        `Playlist needs at least ${players.length + 10} ready tracks for a good game (has ${readyTracks.length})`,
+        `${sources.length > 1 ? 'Playlists need' : 'Playlist needs'} at least ${minimumDeckSize} ready tracks for a good game (has ${readyTracks.length})`,
       )
     }
 
-    // Build track data with release years (filter out tracks without releaseYear)
-    const trackData = readyTracks
-      .filter((t) => t.releaseYear !== undefined)
-      .map((t) => ({
-        trackId: t._id,
-        releaseYear: t.releaseYear!,
-      }))
+    // Build track data with release years, keeping only tracks that pass
+    // the deck filters, then mix the playlists by weight
+    const { deckFilters } = game
+    const seed = game.seed ?? generateSeed()
+    const random = createRandom(seed)
+    const sourceGroups = sources.map((source) => ({
+      tracks: filterDeckTracks(
+        readyTracks.filter((t) => t.playlistId === source.playlistId),
+        deckFilters,
+      ),
+      weight: source.weight,
+    }))
+    const emptySource = sourceGroups.findIndex(
+      (group) => group.weight !== undefined && group.tracks.length === 0,
+    )
+    if (emptySource >= 0) {
+      throw new Error(
+        `${playlists[emptySource].name} has no tracks for this deck, so it can't be weighted`,
+      )
+    }
+    const trackData = combineDeckSources(sourceGroups, random)
 
-    if (trackData.length < players.length + 10) {
+    if (trackData.length < minimumDeckSize) {
+      throw new Error(
+        deckFilters
+          ? `Only ${trackData.length} tracks match the deck options, but this game needs at least ${minimumDeckSize}. Widen the year range or exclude fewer artists.`
+          : sources.some((source) => source.weight !== undefined)
+            ? `The playlist weights only leave ${trackData.length} tracks, but this game needs at least ${minimumDeckSize}. Balance the weights or add tracks.`
+            : `Not enough tracks with release years for a good game`,
+      )
+    }
+    if (
+      deckFilters?.maxDeckSize !== undefined &&
+      deckFilters.maxDeckSize < minimumDeckSize
+    ) {
       throw new Error(
-        `Not enough tracks with release years for a good game`,
+        `Deck size cap of ${deckFilters.maxDeckSize} is too small, this game needs at least ${minimumDeckSize} cards`,
       )
     }
 
-    // Shuffle the tracks
-    const shuffledTracks = shuffleArray(trackData)
+    // Order the tracks with the game's seed and strategy so the order can be
+    // replayed, then cap the deck to a random subset
+    const shuffledTracks = orderDeck(trackData, game.deckStrategy, random).slice(
+      0,
+      deckFilters?.maxDeckSize,
+    )
 
-    // Create gameCards in shuffled order
+    // Create gameCards in shuffled order, holding the last few back for
+    // sudden death
     const gameCardIds: Array<Id<'gameCards'>> = []
     for (let i = 0; i < shuffledTracks.length; i++) {
       const cardId = await ctx.db.insert('gameCards', {
         gameId: args.gameId,
         trackId: shuffledTracks[i].trackId,
         releaseYear: shuffledTracks[i].releaseYear,
-        state: 'deck',
+        state:
+          i < shuffledTracks.length - suddenDeathCards ? 'deck' : 'reserved',
         deckOrder: i,
       })
       gameCardIds.push(cardId)
     }
 
-    // Deal 1 starting card to each player's timeline
-    for (let i = 0; i < players.length; i++) {
-      const cardId = gameCardIds[i]
+    // Deal the starting cards to each timeline, in year order
+    // Team cards are recorded against the team's first member
+    const dealtCards: Array<{
+      playerId: Id<'gamePlayers'>
+      cardId: Id<'gameCards'>
+    }> = []
+    for (let i = 0; i < timelineCount; i++) {
+      const playerId = isTeamGame ? undefined : players[i]._id
+      const teamId = isTeamGame ? teams[i]._id : undefined
+      const recordedPlayerId =
+        playerId ?? players.find((p) => p.teamId === teamId)?._id
+
+      const hand = gameCardIds
+        .slice(i * startingCards, (i + 1) * startingCards)
+        .map((cardId, j) => ({
+          cardId,
+          releaseYear: shuffledTracks[i * startingCards + j].releaseYear,
+        }))
+        .sort((a, b) => a.releaseYear - b.releaseYear)
+
+      for (let position = 0; position < hand.length; position++) {
+        const cardId = hand[position].cardId
+
+        // Update card state
+        await ctx.db.patch("gameCards", cardId, {
+          state: 'timeline',
+          ownerPlayerId: playerId,
+          ownerTeamId: teamId,
+          deckOrder: undefined,
+        })
 
-      // Update card state
-      await ctx.db.patch("gameCards", cardId, {
-        state: 'timeline',
-        ownerPlayerId: players[i]._id,
-        deckOrder: undefined,
-      })
+        // Create timeline entry
+        await ctx.db.insert('timelineEntries', {
+          gameId: args.gameId,
+          playerId,
+          teamId,
+          cardId,
+          position,
+        })
 
-      // Create timeline entry
-      await ctx.db.insert('timelineEntries', {
-        gameId: args.gameId,
-        playerId: players[i]._id,
-        cardId,
-        position: 0,
-      })
+        if (recordedPlayerId) {
+          dealtCards.push({ playerId: recordedPlayerId, cardId })
+        }
+      }
     }
 
-    // Update remaining deck cards' deckOrder (they shift down by players.length)
+    // Update remaining deck cards' deckOrder (they shift down by dealtCount)
     // Skip the first remaining card since we'll use it for the first round
-    for (let i = players.length + 1; i < gameCardIds.length; i++) {
+    for (let i = dealtCount + 1; i < gameCardIds.length; i++) {
       await ctx.db.patch("gameCards", gameCardIds[i], {
-        deckOrder: i - players.length - 1,
+        deckOrder: i - dealtCount - 1,
       })
     }
 
+    // Team pools start fresh, and the first team's first member goes first
+    let firstPlayer = players[0]
+    for (const team of teams) {
+      await ctx.db.patch('gameTeams', team._id, {
+        tokenBalance: game.startingTokens,
+        turnsTaken: 0,
+      })
+    }
+    if (isTeamGame) {
+      const member = await takeTeamTurn(
+        ctx,
+        { ...teams[0], turnsTaken: 0 },
+        players,
+      )
+      if (member) {
+        firstPlayer = member
+      }
+    }
+
     // Draw the first card for the first player's turn
-    const firstRoundCardId = gameCardIds[players.length]
+    const firstRoundCardId = gameCardIds[dealtCount]
     await ctx.db.patch("gameCards", firstRoundCardId, {
       state: 'inRound',
       deckOrder: undefined,
@@ -592,15 +1362,142 @@ export const start = mutation({
     // Update game state with first round already set up
     await ctx.db.patch("games", args.gameId, {
       phase: 'awaitingPlacement',
-      currentTurnSeatIndex: 0,
+      currentTurnSeatIndex: firstPlayer.seatIndex,
+      roundNumber: 1,
+      livesRemaining: game.startingLives,
+      seed,
       startedAt: Date.now(),
+      timeLimitTimer: await startTimeLimit(ctx, game),
       currentRound: {
         cardId: firstRoundCardId,
-        activePlayerId: players[0]._id,
+        activePlayerId: firstPlayer._id,
         placementIndex: undefined,
         bets: [],
         tokenClaimers: [],
       },
+      phaseTimer: await restartPhaseTimer(
+        ctx,
+        game,
+        'awaitingPlacement',
+        firstRoundCardId,
+      ),
+    })
+
+    await recordGameEvent(ctx, args.gameId, 0, {
+      type: 'gameStarted',
+      players: players.map((p) => ({
+        playerId: p._id,
+        displayName: p.displayName,
+        tokenBalance: p.tokenBalance,
+        teamId: p.teamId,
+      })),
+      teams: isTeamGame
+        ? teams.map((t) => ({
+            teamId: t._id,
+            name: t.name,
+            tokenBalance: game.startingTokens,
+          }))
+        : undefined,
+      startingCards: dealtCards,
+    })
+    await recordGameEvent(ctx, args.gameId, 1, {
+      type: 'roundStarted',
+      activePlayerId: firstPlayer._id,
+      cardId: firstRoundCardId,
+    })
+
+    return null
+  },
+})
+
+/**
+ * Get a user's best placing in a finished game, from any seat they hold
+ */
+function getUserPlace(
+  game: Doc<'games'>,
+  players: Array<Doc<'gamePlayers'>>,
+  userId: string,
+): number | undefined {
+  const places = (game.standings ?? [])
+    .filter((standing) =>
+      players.some(
+        (p) => p.userId === userId && standing.seatIds.includes(p._id),
+      ),
+    )
+    .map((standing) => standing.place)
+  return places.length > 0 ? Math.min(...places) : undefined
+}
+
+/**
+ * Get a started game the caller hosts, for pausing and resuming
+ */
+async function getHostedActiveGame(
+  ctx: MutationCtx,
+  gameId: Id<'games'>,
+): Promise<Doc<'games'>> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new Error('Not authenticated')
+  }
+
+  const game = await getLiveGame(ctx, gameId)
+
+  if (game.hostUserId !== identity.subject) {
+    throw new Error('Only the host can pause or resume the game')
+  }
+
+  if (game.phase === 'lobby' || game.phase === 'finished') {
+    throw new Error('Only a game in progress can be paused')
+  }
+
+  return game
+}
+
+/**
+ * Freeze a game in progress (host only). Turn actions are rejected and the
+ * phase timer stops until the game is resumed.
+ */
+export const pause = mutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await getHostedActiveGame(ctx, args.gameId)
+    if (game.pausedAt !== undefined) {
+      return null
+    }
+
+    // The deadline stays on the game so resuming knows the time that was left
+    await cancelPhaseTimer(ctx, game)
+    await cancelTimeLimit(ctx, game)
+    await ctx.db.patch('games', game._id, { pausedAt: Date.now() })
+
+    return null
+  },
+})
+
+/**
+ * Unfreeze a paused game (host only). The phase timer picks up with the
+ * time that was left when the game was paused.
+ */
+export const resume = mutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await getHostedActiveGame(ctx, args.gameId)
+    const { pausedAt } = game
+    if (pausedAt === undefined) {
+      return null
+    }
+
+    await ctx.db.patch('games', game._id, {
+      pausedAt: undefined,
+      pausedMs: (game.pausedMs ?? 0) + (Date.now() - pausedAt),
+      phaseTimer: await resumePhaseTimer(ctx, game, pausedAt),
+      timeLimitTimer: await resumeTimeLimit(ctx, game, pausedAt),
     })
 
     return null
@@ -616,17 +1513,47 @@ const gameResponseValidator = v.object({
   _id: v.id('games'),
   hostUserId: v.string(),
   isCurrentUserHost: v.boolean(),
-  joinCode: v.string(),
+  isCurrentUserSpectator: v.boolean(),
+  joinCode: v.string(), // The spectate code for spectators
+  spectateCode: v.optional(v.string()), // Unset on older games
   mode: gameModeValidator,
+  playStyle: playStyleValidator,
   playlistId: v.id('playlists'),
   playlistName: v.optional(v.string()),
+  sources: v.array(
+    v.object({
+      playlistId: v.id('playlists'),
+      name: v.optional(v.string()),
+      weight: v.optional(v.number()),
+    }),
+  ),
   useTokens: v.boolean(),
   startingTokens: v.number(),
   maxTokens: v.number(),
   winCondition: v.number(),
+  turnTimers: v.optional(turnTimersValidator),
+  lateJoin: v.optional(lateJoinValidator),
+  endOfDeck: v.optional(endOfDeckValidator),
+  limit: v.optional(gameLimitValidator),
+  startingLives: v.optional(v.number()),
+  livesRemaining: v.optional(v.number()),
+  rules: gameRulesValidator,
+  seed: v.optional(v.string()),
+  deckFilters: v.optional(deckFiltersValidator),
+  deckStrategy: v.optional(deckStrategyValidator),
   phase: gamePhaseValidator,
+  phaseDeadline: v.optional(v.number()), // Unset while paused
+  pausedAt: v.optional(v.number()),
+  timeLimitDeadline: v.optional(v.number()), // Unset while paused
+  roundsCompleted: v.number(), // Full turns around the table
+  isFinalRound: v.boolean(), // The last round of a round or time limit
   currentTurnSeatIndex: v.number(),
   winnerId: v.optional(v.id('gamePlayers')),
+  winningTeamId: v.optional(v.id('gameTeams')),
+  finishReason: v.optional(gameFinishReasonValidator),
+  suddenDeathContenderIds: v.optional(v.array(v.id('gamePlayers'))),
+  standings: v.optional(v.array(standingValidator)), // Set once finished
+  rematchJoinCode: v.optional(v.string()),
   createdAt: v.number(),
   startedAt: v.optional(v.number()),
   finishedAt: v.optional(v.number()),
@@ -637,15 +1564,36 @@ const gameResponseValidator = v.object({
       displayName: v.string(),
       kind: v.union(v.literal('local'), v.literal('user')),
       userId: v.optional(v.string()),
-      tokenBalance: v.number(),
+      tokenBalance: v.number(), // The team's pooled balance in team games
       isHostSeat: v.boolean(),
       isCurrentUser: v.boolean(),
+      teamId: v.optional(v.id('gameTeams')),
+      claimCode: v.optional(v.string()), // Host only
+      claimedFromLocal: v.boolean(),
+      status: v.optional(seatStatusValidator), // Away or left mid-game
+    }),
+  ),
+  teams: v.array(
+    v.object({
+      _id: v.id('gameTeams'),
+      teamIndex: v.number(),
+      name: v.string(),
+      tokenBalance: v.number(),
+    }),
+  ),
+  spectators: v.array(
+    v.object({
+      _id: v.id('gameSpectators'),
+      displayName: v.string(),
+      isCurrentUser: v.boolean(),
     }),
   ),
   currentRound: v.optional(
     v.object({
+      cardId: v.id('gameCards'), // Opaque until the reveal fills in `card`
       activePlayerId: v.id('gamePlayers'),
       placementIndex: v.optional(v.number()),
+      yearGuess: v.optional(v.number()),
       bets: v.array(
         v.object({
           bettorPlayerId: v.id('gamePlayers'),
@@ -653,6 +1601,23 @@ const gameResponseValidator = v.object({
         }),
       ),
       tokenClaimers: v.array(v.id('gamePlayers')),
+      // Guess text is hidden from other seats until the reveal
+      guesses: v.array(
+        v.object({
+          playerId: v.id('gamePlayers'),
+          title: v.optional(v.string()),
+          artist: v.optional(v.string()),
+          result: v.optional(
+            v.object({
+              titleCorrect: v.boolean(),
+              artistCorrect: v.boolean(),
+              accepted: v.boolean(),
+              overridden: v.boolean(),
+              tokensAwarded: v.number(),
+            }),
+          ),
+        }),
+      ),
       card: v.optional(
         v.object({
           _id: v.id('gameCards'),
@@ -669,10 +1634,20 @@ const gameResponseValidator = v.object({
 
 // Type for current round info
 type CurrentRoundInfo = {
+  cardId: Id<'gameCards'>
   activePlayerId: Id<'gamePlayers'>
   placementIndex?: number
+  yearGuess?: number
   bets: Array<{ bettorPlayerId: Id<'gamePlayers'>; slotIndex: number }>
   tokenClaimers: Array<Id<'gamePlayers'>>
+  guesses: Array<{
+    playerId: Id<'gamePlayers'>
+    title?: string
+    artist?: string
+    result?: NonNullable<
+      NonNullable<Doc<'games'>['currentRound']>['guesses']
+    >[0]['result']
+  }>
   card?: {
     _id: Id<'gameCards'>
     title: string
@@ -691,8 +1666,8 @@ async function buildGameResponse(
   game: Doc<'games'>,
   identity: { subject: string },
 ) {
-  // Get playlist name
-  const playlist = await ctx.db.get('playlists', game.playlistId)
+  // Get playlist names
+  const sources = await getDeckSourceNames(ctx, game)
 
   // Get all players
   const players = await ctx.db
@@ -702,18 +1677,35 @@ async function buildGameResponse(
 
   players.sort((a, b) => a.seatIndex - b.seatIndex)
 
-  // Check if the current user is the host or a player
+  const teams = await getGameTeams(ctx, game._id)
+
+  // Check if the current user is the host, a player or a spectator
   const isHost = game.hostUserId === identity.subject
   const isPlayer = players.some(
     (p) => p.kind === 'user' && p.userId === identity.subject,
   )
+  const isWatching =
+    !isHost &&
+    !isPlayer &&
+    (await isSpectator(ctx, game._id, identity.subject))
+  const hasLeft = players.some(
+    (p) => p.userId === identity.subject && p.status === 'left',
+  )
 
   // For host-only mode, host can always see everything
-  // For sidecars mode, need to be host or a player
-  if (!isHost && !isPlayer) {
+  // For sidecars mode, need to be host or a player, or to be watching
+  if (!isHost && !isPlayer && !isWatching) {
     return null
   }
 
+  const spectators = await getGameSpectators(ctx, game._id)
+
+  // Where players go once the host starts a rematch (until it gets going,
+  // so the old game's results stay viewable afterwards)
+  const rematchGame = game.rematchGameId
+    ? await findLiveGame(ctx, game.rematchGameId)
+    : null
+
   // Count remaining deck cards
   const deckCards = await ctx.db
     .query('gameCards')
@@ -727,13 +1719,28 @@ async function buildGameResponse(
 
   if (game.currentRound) {
     currentRound = {
+      cardId: game.currentRound.cardId,
       activePlayerId: game.currentRound.activePlayerId,
       placementIndex: game.currentRound.placementIndex,
+      yearGuess: game.currentRound.yearGuess,
       bets: game.currentRound.bets.map((b) => ({
         bettorPlayerId: b.bettorPlayerId,
         slotIndex: b.slotIndex,
       })),
       tokenClaimers: game.currentRound.tokenClaimers,
+      guesses: (game.currentRound.guesses ?? []).map((g) => {
+        const seat = players.find((p) => p._id === g.playerId)
+        const canSeeText =
+          game.phase === 'revealed' ||
+          (seat?.kind === 'user' && seat.userId === identity.subject) ||
+          (seat?.kind === 'local' && isHost)
+        return {
+          playerId: g.playerId,
+          title: canSeeText ? g.title : undefined,
+          artist: canSeeText ? g.artist : undefined,
+          result: g.result,
+        }
+      }),
     }
 
     // Only show card details after reveal
@@ -758,17 +1765,51 @@ async function buildGameResponse(
     _id: game._id,
     hostUserId: game.hostUserId,
     isCurrentUserHost: isHost,
-    joinCode: game.joinCode,
+    isCurrentUserSpectator: isWatching,
+    // Spectators only learn the code for watching, so they can't take a seat
+    joinCode: isWatching ? (game.spectateCode ?? game.joinCode) : game.joinCode,
+    spectateCode: game.spectateCode,
     mode: game.mode,
+    playStyle: game.playStyle ?? 'individual',
     playlistId: game.playlistId,
-    playlistName: playlist?.name,
+    playlistName: formatSourceNames(sources) || undefined,
+    sources,
     useTokens: game.useTokens,
     startingTokens: game.startingTokens,
     maxTokens: game.maxTokens,
     winCondition: game.winCondition,
+    turnTimers: game.turnTimers,
+    lateJoin: game.lateJoin,
+    endOfDeck: game.endOfDeck,
+    limit: game.limit,
+    startingLives: game.startingLives,
+    livesRemaining: game.livesRemaining,
+    rules: getGameRules(game),
+    // The seed predicts the deck, so players only see it once the game is over
+    seed: isHost || game.phase === 'finished' ? game.seed : undefined,
+    deckFilters: game.deckFilters,
+    deckStrategy: game.deckStrategy,
     phase: game.phase,
+    phaseDeadline:
+      game.pausedAt === undefined ? game.phaseTimer?.deadline : undefined,
+    pausedAt: game.pausedAt,
+    timeLimitDeadline:
+      game.pausedAt === undefined ? game.timeLimitTimer?.deadline : undefined,
+    roundsCompleted: game.roundsCompleted ?? 0,
+    isFinalRound:
+      (game.finalRound ?? false) ||
+      (game.limit?.kind === 'rounds' &&
+        (game.roundsCompleted ?? 0) + 1 >= game.limit.rounds),
     currentTurnSeatIndex: game.currentTurnSeatIndex,
     winnerId: game.winnerId,
+    winningTeamId: game.winningTeamId,
+    finishReason: game.finishReason,
+    suddenDeathContenderIds: game.suddenDeath?.contenderIds,
+    standings: game.standings,
+    rematchJoinCode:
+      rematchGame?.phase === 'lobby' && !isWatching && !hasLeft
+        ? rematchGame.joinCode
+        : undefined,
     createdAt: game.createdAt,
     startedAt: game.startedAt,
     finishedAt: game.finishedAt,
@@ -778,9 +1819,25 @@ async function buildGameResponse(
       displayName: p.displayName,
       kind: p.kind,
       userId: p.userId,
-      tokenBalance: p.tokenBalance,
+      tokenBalance:
+        teams.find((t) => t._id === p.teamId)?.tokenBalance ?? p.tokenBalance,
       isHostSeat: p.isHostSeat,
       isCurrentUser: p.kind === 'user' && p.userId === identity.subject,
+      teamId: p.teamId,
+      claimCode: isHost ? p.claimCode : undefined,
+      claimedFromLocal: p.claimedFromLocal ?? false,
+      status: p.status,
+    })),
+    teams: teams.map((t) => ({
+      _id: t._id,
+      teamIndex: t.teamIndex,
+      name: t.name,
+      tokenBalance: t.tokenBalance,
+    })),
+    spectators: spectators.map((s) => ({
+      _id: s._id,
+      displayName: s.displayName,
+      isCurrentUser: s.userId === identity.subject,
     })),
     currentRound,
     deckRemaining: deckCards.length,
@@ -788,7 +1845,7 @@ async function buildGameResponse(
 }
 
 /**
- * Get game by join code (for players in the game)
+ * Get game by join code or spectate code (for players and spectators)
  */
 export const getByJoinCode = query({
   args: { joinCode: v.string() },
@@ -799,13 +1856,8 @@ export const getByJoinCode = query({
       return null
     }
 
-    // Find game by join code
-    const game = await ctx.db
-      .query('games')
-      .withIndex('by_joinCode', (q) =>
-        q.eq('joinCode', args.joinCode.toUpperCase()),
-      )
-      .first()
+    // Find game by join code (or spectate code)
+    const game = await getGameByCode(ctx, args.joinCode)
 
     if (!game) {
       return null
@@ -827,7 +1879,7 @@ export const get = query({
       return null
     }
 
-    const game = await ctx.db.get('games', args.gameId)
+    const game = await findLiveGame(ctx, args.gameId)
     if (!game) {
       return null
     }
@@ -837,10 +1889,13 @@ export const get = query({
 })
 
 /**
- * List games the current user is host of or participating in
+ * List games the current user is host of or participating in. Games they
+ * archived are listed on their own with `archived`.
  */
 export const listMine = query({
-  args: {},
+  args: {
+    archived: v.optional(v.boolean()),
+  },
   returns: v.array(
     v.object({
       _id: v.id('games'),
@@ -851,9 +1906,11 @@ export const listMine = query({
       playerCount: v.number(),
       createdAt: v.number(),
       isHost: v.boolean(),
+      isArchived: v.boolean(),
+      place: v.optional(v.number()), // The user's best placing once finished
     }),
   ),
-  handler: async (ctx) => {
+  handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity()
     if (!identity) {
       return []
@@ -874,6 +1931,12 @@ export const listMine = query({
 
     const joinedGameIds = new Set(playerSeats.map((p) => p.gameId))
 
+    // Games being deleted are gone, and archived ones only show on request
+    const isListed = (game: Doc<'games'>) =>
+      game.deletingAt === undefined &&
+      (game.archivedByUserIds?.includes(identity.subject) ?? false) ===
+        (args.archived ?? false)
+
     const result: Array<{
       _id: Id<'games'>
       joinCode: string
@@ -883,11 +1946,17 @@ export const listMine = query({
       playerCount: number
       createdAt: number
       isHost: boolean
+      isArchived: boolean
+      place?: number
     }> = []
 
     // Add hosted games
     for (const game of hostedGames) {
-      const playlist = await ctx.db.get("playlists", game.playlistId)
+      joinedGameIds.delete(game._id) // Remove from joined set to avoid duplicates
+      if (!isListed(game)) continue
+
+      const playlistName =
+        formatSourceNames(await getDeckSourceNames(ctx, game)) || undefined
       const players = await ctx.db
         .query('gamePlayers')
         .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
@@ -898,21 +1967,22 @@ export const listMine = query({
         joinCode: game.joinCode,
         mode: game.mode,
         phase: game.phase,
-        playlistName: playlist?.name,
+        playlistName,
         playerCount: players.length,
         createdAt: game.createdAt,
         isHost: true,
+        isArchived: args.archived ?? false,
+        place: getUserPlace(game, players, identity.subject),
       })
-
-      joinedGameIds.delete(game._id) // Remove from joined set to avoid duplicates
     }
 
     // Add joined games (where not host)
     for (const gameId of joinedGameIds) {
       const game = await ctx.db.get("games", gameId)
-      if (!game) continue
+      if (!game || !isListed(game)) continue
 
-      const playlist = await ctx.db.get("playlists", game.playlistId)
+      const playlistName =
+        formatSourceNames(await getDeckSourceNames(ctx, game)) || undefined
       const players = await ctx.db
         .query('gamePlayers')
         .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
@@ -923,10 +1993,12 @@ export const listMine = query({
         joinCode: game.joinCode,
         mode: game.mode,
         phase: game.phase,
-        playlistName: playlist?.name,
+        playlistName,
         playerCount: players.length,
         createdAt: game.createdAt,
         isHost: false,
+        isArchived: args.archived ?? false,
+        place: getUserPlace(game, players, identity.subject),
       })
     }
 
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import {
+  computeValidInsertionIndices,
+  findCorrectInsertionIndex,
+  yearBucketLabel,
+  yearBucketStart,
+} from './placement'
+
+const timeline = (...years: Array<number>) =>
+  years.map((releaseYear) => ({ releaseYear }))
+
+describe('yearBucketStart', () => {
+  it('keeps the year when buckets are single years', () => {
+    expect(yearBucketStart(1994, 1)).toBe(1994)
+  })
+
+  it('rounds down to the start of the bucket', () => {
+    expect(yearBucketStart(1994, 10)).toBe(1990)
+    expect(yearBucketStart(1990, 10)).toBe(1990)
+    expect(yearBucketStart(1999, 5)).toBe(1995)
+  })
+})
+
+describe('yearBucketLabel', () => {
+  it('labels decades, other spans and single years', () => {
+    expect(yearBucketLabel(1994, 10)).toBe('1990s')
+    expect(yearBucketLabel(1994, 5)).toBe('1990–1994')
+    expect(yearBucketLabel(1994, 1)).toBe('1994')
+  })
+})
+
+describe('computeValidInsertionIndices', () => {
+  it('allows any slot on an empty timeline', () => {
+    expect(computeValidInsertionIndices([], 1990)).toEqual([0])
+  })
+
+  it('allows either side of a same-year card by default', () => {
+    expect(
+      computeValidInsertionIndices(timeline(1980, 1990, 2000), 1990),
+    ).toEqual([1, 2])
+  })
+
+  it('requires same-year cards to come first when either side is off', () => {
+    expect(
+      computeValidInsertionIndices(timeline(1980, 1990, 2000), 1990, {
+        sameYearEitherSide: false,
+        yearBucketSpan: 1,
+      }),
+    ).toEqual([2])
+  })
+
+  it('accepts every slot inside the card bucket in easy mode', () => {
+    const rules = { sameYearEitherSide: false, yearBucketSpan: 10 }
+    expect(
+      computeValidInsertionIndices(
+        timeline(1975, 1981, 1988, 2001),
+        1984,
+        rules,
+      ),
+    ).toEqual([1, 2, 3])
+  })
+
+  it('rejects slots outside the card bucket in easy mode', () => {
+    const rules = { sameYearEitherSide: true, yearBucketSpan: 10 }
+    expect(
+      computeValidInsertionIndices(timeline(1979, 2000), 1991, rules),
+    ).toEqual([1])
+  })
+})
+
+describe('findCorrectInsertionIndex', () => {
+  it('places a card after every card from the same year', () => {
+    expect(
+      findCorrectInsertionIndex(timeline(1980, 1990, 1990, 2000), 1990),
+    ).toBe(3)
+  })
+
+  it('places a card after every card from the same bucket', () => {
+    const rules = { sameYearEitherSide: true, yearBucketSpan: 10 }
+    expect(
+      findCorrectInsertionIndex(timeline(1975, 1981, 1988, 2001), 1984, rules),
+    ).toBe(3)
+  })
+
+  it('is always one of the valid indices', () => {
+    const rules = { sameYearEitherSide: false, yearBucketSpan: 5 }
+    const cards = timeline(1961, 1966, 1973, 1974, 1990)
+    for (const year of [1950, 1963, 1972, 1995]) {
+      expect(computeValidInsertionIndices(cards, year, rules)).toContain(
+        findCorrectInsertionIndex(cards, year, rules),
+      )
+    }
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Placement validation shared by the server (`turns.ts`) and the client
+ * (`src/components/play/placement-utils.ts`), so both judge a placement the
+ * same way. Keep this module free of Convex server imports.
+ */
+
+/** The rules that decide where a card may go */
+export interface PlacementRules {
+  /** Whether a card may go on either side of a same-year card */
+  sameYearEitherSide: boolean
+  /** Years per bucket in easy mode (1 = exact years) */
+  yearBucketSpan: number
+}
+
+export const DEFAULT_PLACEMENT_RULES: PlacementRules = {
+  sameYearEitherSide: true,
+  yearBucketSpan: 1,
+}
+
+/**
+ * Get the first year of the bucket a year falls in (the year itself when
+ * buckets are a single year)
+ */
+export function yearBucketStart(year: number, span: number): number {
+  return span > 1 ? Math.floor(year / span) * span : year
+}
+
+/**
+ * Label for a year bucket, e.g. "1990s" for decades or "1990–1994"
+ */
+export function yearBucketLabel(year: number, span: number): string {
+  const start = yearBucketStart(year, span)
+  if (span === 10) {
+    return `${start}s`
+  }
+  return span > 1 ? `${start}–${start + span - 1}` : `${start}`
+}
+
+/**
+ * Compute valid insertion indices for a card with the given year.
+ * Returns all valid indices where the card can be placed.
+ *
+ * Rules:
+ * - Timeline is sorted by release year (ascending)
+ * - A card can go before any card with year >= its year
+ * - A card can go after any card with year <= its year
+ * - If years are equal, adjacent placement is valid on either side, unless
+ *   `sameYearEitherSide` is off, in which case it must go after them
+ * - In easy mode years are compared by bucket, so any slot inside (or at the
+ *   edges of) the card's bucket is valid
+ */
+export function computeValidInsertionIndices(
+  timeline: Array<{ releaseYear: number }>,
+  newCardYear: number,
+  rules: PlacementRules = DEFAULT_PLACEMENT_RULES,
+): Array<number> {
+  const span = rules.yearBucketSpan
+  const bucketed = span > 1
+  const cardBucket = yearBucketStart(newCardYear, span)
+  const validIndices: Array<number> = []
+
+  // Check each possible insertion point (0 to timeline.length inclusive)
+  for (let i = 0; i <= timeline.length; i++) {
+    const bucketBefore =
+      i > 0 ? yearBucketStart(timeline[i - 1].releaseYear, span) : -Infinity
+    const bucketAfter =
+      i < timeline.length
+        ? yearBucketStart(timeline[i].releaseYear, span)
+        : Infinity
+
+    // Valid if: bucketBefore <= cardBucket <= bucketAfter
+    // (or cardBucket < bucketAfter when same-year cards must come first)
+    const fitsBefore =
+      bucketed || rules.sameYearEitherSide
+        ? cardBucket <= bucketAfter
+        : cardBucket < bucketAfter
+    if (bucketBefore <= cardBucket && fitsBefore) {
+      validIndices.push(i)
+    }
+  }
+
+  return validIndices
+}
+
+/**
+ * Find the correct insertion index for a card (for auto-placement)
+ * Uses binary search to find the right position: after every card from the
+ * same year (or bucket)
+ */
+export function findCorrectInsertionIndex(
+  timeline: Array<{ releaseYear: number }>,
+  newCardYear: number,
+  rules: PlacementRules = DEFAULT_PLACEMENT_RULES,
+): number {
+  const span = rules.yearBucketSpan
+  const cardBucket = yearBucketStart(newCardYear, span)
+
+  // Find the first position where the card fits
+  let low = 0
+  let high = timeline.length
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    if (yearBucketStart(timeline[mid].releaseYear, span) <= cardBucket) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+
+  return low
+}
@@ -0,0 +1,23 @@
+import type { Doc } from './_generated/dataModel'
+import type { QueryCtx } from './_generated/server'
+
+/**
+ * Whether a user may build games from a playlist: they own it, or it has
+ * been shared with them
+ */
+export async function canUsePlaylist(
+  ctx: QueryCtx,
+  playlist: Doc<'playlists'>,
+  userId: string,
+): Promise<boolean> {
+  if (playlist.ownerUserId === userId) {
+    return true
+  }
+  const share = await ctx.db
+    .query('playlistShares')
+    .withIndex('by_playlistId_and_userId', (q) =>
+      q.eq('playlistId', playlist._id).eq('userId', userId),
+    )
+    .unique()
+  return share !== null
+}
@@ -3,6 +3,7 @@
 import { v } from 'convex/values'
 import { internalAction } from './_generated/server'
 import { internal } from './_generated/api'
+import { normalizeString, stringsSimilar } from './textMatching'
 
 // ===========================================
 // Constants
@@ -271,37 +272,3 @@ export const processPlaylistBatch = internalAction({
     return null
   },
 })
-
-// ===========================================
-// Helper Functions
-// ===========================================
-
-/**
- * Normalize a string for comparison
- */
-function normalizeString(str: string): string {
-  return str
-    .toLowerCase()
-    .replace(/[^\w\s]/g, '') // Remove punctuation
-    .replace(/\s+/g, ' ') // Normalize whitespace
-    .trim()
-}
-
-/**
- * Check if two strings are similar enough (simple comparison)
- */
-function stringsSimilar(a: string, b: string): boolean {
-  // Exact match
-  if (a === b) return true
-
-  // One contains the other
-  if (a.includes(b) || b.includes(a)) return true
-
-  // Check if at least 80% of words match
-  const wordsA = new Set(a.split(' '))
-  const wordsB = new Set(b.split(' '))
-  const intersection = [...wordsA].filter((w) => wordsB.has(w))
-  const matchRatio = intersection.length / Math.max(wordsA.size, wordsB.size)
-
-  return matchRatio >= 0.8
-}
@@ -1,8 +1,11 @@
 import { v } from 'convex/values'
 import { mutation, query } from './_generated/server'
+import { canUsePlaylist } from './playlistAccess'
+import { getTrackDifficulty } from './trackDifficulty'
+import type { Doc } from './_generated/dataModel'
 
 /**
- * List all playlists owned by the current user
+ * List all playlists owned by or shared with the current user
  * Includes processing status and track counts
  */
 export const listMine = query({
@@ -26,6 +29,7 @@ export const listMine = query({
       totalTracks: v.number(),
       readyTracks: v.number(),
       unmatchedTracks: v.number(),
+      isOwner: v.boolean(),
     }),
   ),
   handler: async (ctx) => {
@@ -34,12 +38,24 @@ export const listMine = query({
       return []
     }
 
-    const playlists = await ctx.db
+    const owned = await ctx.db
       .query('playlists')
       .withIndex('by_ownerUserId', (q) => q.eq('ownerUserId', identity.subject))
       .collect()
 
-    return playlists.map((p) => ({
+    const shares = await ctx.db
+      .query('playlistShares')
+      .withIndex('by_userId', (q) => q.eq('userId', identity.subject))
+      .collect()
+    const shared: Array<Doc<'playlists'>> = []
+    for (const share of shares) {
+      const playlist = await ctx.db.get('playlists', share.playlistId)
+      if (playlist) {
+        shared.push(playlist)
+      }
+    }
+
+    return [...owned, ...shared].map((p) => ({
       _id: p._id,
       source: p.source,
       sourcePlaylistId: p.sourcePlaylistId,
@@ -51,6 +67,7 @@ export const listMine = query({
       totalTracks: p.totalTracks,
       readyTracks: p.readyTracks,
       unmatchedTracks: p.unmatchedTracks,
+      isOwner: p.ownerUserId === identity.subject,
     }))
   },
 })
@@ -58,6 +75,10 @@ export const listMine = query({
 /**
  * Get a specific playlist by ID with its tracks
  * Returns only 'ready' tracks by default for the playable view
+ * Each track carries how often it has been placed and, once placed enough,
+ * how often players got it wrong
+ * Visible to the owner, users it's shared with, and anyone with the link
+ * while it's shareable (so they can add it)
  */
 export const get = query({
   args: {
@@ -80,6 +101,9 @@ export const get = query({
       totalTracks: v.number(),
       readyTracks: v.number(),
       unmatchedTracks: v.number(),
+      isOwner: v.boolean(),
+      isShared: v.boolean(), // Shared with the current user
+      shareable: v.boolean(),
       tracks: v.array(
         v.object({
           _id: v.id('playlistTracks'),
@@ -96,6 +120,8 @@ export const get = query({
           imageUrl: v.optional(v.string()),
           spotifyTrackId: v.optional(v.string()),
           unmatchedReason: v.optional(v.string()),
+          timesPlaced: v.number(),
+          difficulty: v.optional(v.number()), // % of placements that were wrong
         }),
       ),
     }),
@@ -108,7 +134,12 @@ export const get = query({
     }
 
     const playlist = await ctx.db.get("playlists", args.playlistId)
-    if (!playlist || playlist.ownerUserId !== identity.subject) {
+    if (!playlist) {
+      return null
+    }
+    const isOwner = playlist.ownerUserId === identity.subject
+    const canUse = await canUsePlaylist(ctx, playlist, identity.subject)
+    if (!canUse && !playlist.shareable) {
       return null
     }
 
@@ -138,6 +169,9 @@ export const get = query({
       totalTracks: playlist.totalTracks,
       readyTracks: playlist.readyTracks,
       unmatchedTracks: playlist.unmatchedTracks,
+      isOwner,
+      isShared: canUse && !isOwner,
+      shareable: playlist.shareable ?? false,
       tracks: tracks.map((t) => ({
         _id: t._id,
         position: t.position,
@@ -149,6 +183,8 @@ export const get = query({
         imageUrl: t.imageUrl,
         spotifyTrackId: t.spotifyTrackId,
         unmatchedReason: t.unmatchedReason,
+        timesPlaced: t.placementsMade ?? 0,
+        difficulty: getTrackDifficulty(t),
       })),
     }
   },
@@ -222,3 +258,109 @@ export const removeTrack = mutation({
     return { success: true }
   },
 })
+
+// ===========================================
+// Sharing
+// ===========================================
+
+/**
+ * Turn link sharing on or off for a playlist (owner only).
+ * Turning it off stops new people adding the playlist and removes it from
+ * everyone it was shared with.
+ */
+export const setShareable = mutation({
+  args: {
+    playlistId: v.id('playlists'),
+    shareable: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const playlist = await ctx.db.get('playlists', args.playlistId)
+    if (!playlist || playlist.ownerUserId !== identity.subject) {
+      throw new Error('Not authorized')
+    }
+
+    await ctx.db.patch('playlists', playlist._id, {
+      shareable: args.shareable,
+    })
+
+    if (!args.shareable) {
+      const shares = await ctx.db
+        .query('playlistShares')
+        .withIndex('by_playlistId', (q) => q.eq('playlistId', playlist._id))
+        .collect()
+      for (const share of shares) {
+        await ctx.db.delete('playlistShares', share._id)
+      }
+    }
+
+    return null
+  },
+})
+
+/**
+ * Add a shareable playlist to the current user's playlists, so they can
+ * build games from it
+ */
+export const addShared = mutation({
+  args: {
+    playlistId: v.id('playlists'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const playlist = await ctx.db.get('playlists', args.playlistId)
+    if (!playlist || !playlist.shareable) {
+      throw new Error('This playlist is not shared')
+    }
+
+    if (await canUsePlaylist(ctx, playlist, identity.subject)) {
+      return null
+    }
+
+    await ctx.db.insert('playlistShares', {
+      playlistId: playlist._id,
+      userId: identity.subject,
+      sharedAt: Date.now(),
+    })
+
+    return null
+  },
+})
+
+/**
+ * Remove a playlist someone shared from the current user's playlists
+ */
+export const removeShared = mutation({
+  args: {
+    playlistId: v.id('playlists'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const share = await ctx.db
+      .query('playlistShares')
+      .withIndex('by_playlistId_and_userId', (q) =>
+        q.eq('playlistId', args.playlistId).eq('userId', identity.subject),
+      )
+      .unique()
+    if (share) {
+      await ctx.db.delete('playlistShares', share._id)
+    }
+
+    return null
+  },
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CODE_ALPHABET,
+  MAX_SEED_LENGTH,
+  createRandom,
+  randomCode,
+  resolveSeed,
+  shuffleArray,
+} from './random'
+
+const draw = (random: () => number, count: number) =>
+  Array.from({ length: count }, () => random())
+
+describe('createRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    expect(draw(createRandom('party'), 20)).toEqual(
+      draw(createRandom('party'), 20),
+    )
+  })
+
+  it('produces different sequences for different seeds', () => {
+    expect(draw(createRandom('party'), 20)).not.toEqual(
+      draw(createRandom('Party'), 20),
+    )
+  })
+
+  it('returns numbers in [0, 1)', () => {
+    for (const value of draw(createRandom('range'), 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+})
+
+describe('randomCode', () => {
+  it('is reproducible from a seed and uses the code alphabet', () => {
+    const code = randomCode(createRandom('code'), 6)
+    expect(code).toHaveLength(6)
+    expect(randomCode(createRandom('code'), 6)).toBe(code)
+    for (const char of code) {
+      expect(CODE_ALPHABET).toContain(char)
+    }
+  })
+})
+
+describe('resolveSeed', () => {
+  it('trims a supplied seed', () => {
+    expect(resolveSeed('  friday night ')).toBe('friday night')
+  })
+
+  it('generates a seed when blank', () => {
+    expect(resolveSeed(undefined)).toHaveLength(8)
+    expect(resolveSeed('   ')).toHaveLength(8)
+  })
+
+  it('rejects seeds that are too long', () => {
+    expect(() => resolveSeed('x'.repeat(MAX_SEED_LENGTH + 1))).toThrow(
+      `Seed must be at most ${MAX_SEED_LENGTH} characters`,
+    )
+  })
+})
+
+describe('shuffleArray', () => {
+  const items = Array.from({ length: 30 }, (_, i) => i)
+
+  it('gives the same order for the same seed', () => {
+    expect(shuffleArray(items, createRandom('deck'))).toEqual(
+      shuffleArray(items, createRandom('deck')),
+    )
+  })
+
+  it('gives a different order for a different seed', () => {
+    expect(shuffleArray(items, createRandom('deck'))).not.toEqual(
+      shuffleArray(items, createRandom('other deck')),
+    )
+  })
+
+  it('keeps every item and leaves the input untouched', () => {
+    const shuffled = shuffleArray(items, createRandom('deck'))
+    expect(shuffled).not.toBe(items)
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items)
+    expect(items).toEqual(Array.from({ length: 30 }, (_, i) => i))
+  })
+})
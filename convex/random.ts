@@ -0,0 +1,94 @@
+/**
+ * Seeded randomness, so a game's deck order (and join code) can be
+ * reproduced from the seed stored on the game. Codes that grant access, like
+ * claim and spectate codes, are deliberately unseeded: seeds are shown to
+ * players and can be typed in by the host, so anything drawn from them can
+ * be predicted.
+ */
+
+/** Unambiguous characters for codes people read aloud (no 0, O, 1, I) */
+export const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+/** Longest seed a host may type in */
+export const MAX_SEED_LENGTH = 64
+
+/** A function returning uniformly distributed numbers in [0, 1) */
+export type Random = () => number
+
+/**
+ * Hash a string into a 32-bit integer (FNV-1a) for seeding
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Create a deterministic PRNG (mulberry32) from a string seed.
+ * The same seed always produces the same sequence.
+ */
+export function createRandom(seed: string): Random {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Generate a random code of the given length from `CODE_ALPHABET`
+ */
+export function randomCode(random: Random, length: number): string {
+  let code = ''
+  for (let i = 0; i < length; i++) {
+    code += CODE_ALPHABET.charAt(Math.floor(random() * CODE_ALPHABET.length))
+  }
+  return code
+}
+
+/**
+ * Generate a code that must not be predictable from any game's seed
+ */
+export function unseededCode(length: number): string {
+  return randomCode(Math.random, length)
+}
+
+/**
+ * Generate a fresh seed for a game that wasn't given one
+ */
+export function generateSeed(): string {
+  return unseededCode(8)
+}
+
+/**
+ * Normalize a host-supplied seed, or generate one when it's blank
+ */
+export function resolveSeed(seed: string | undefined): string {
+  const trimmed = seed?.trim() ?? ''
+  if (!trimmed) {
+    return generateSeed()
+  }
+  if (trimmed.length > MAX_SEED_LENGTH) {
+    throw new Error(`Seed must be at most ${MAX_SEED_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+/**
+ * Shuffle an array using Fisher-Yates algorithm
+ */
+export function shuffleArray<T>(array: Array<T>, random: Random): Array<T> {
+  const shuffled = [...array]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
@@ -0,0 +1,267 @@
+import { v } from 'convex/values'
+import { internalMutation, query } from './_generated/server'
+import { authComponent } from './auth'
+import type { Doc } from './_generated/dataModel'
+import type { MutationCtx } from './_generated/server'
+
+// ===========================================
+// Types
+// ===========================================
+
+// A rated user's finishing position in one game
+type RatedPlacing = {
+  userId: string
+  displayName: string
+  place: number
+  timelineIndex: number // Position in the game's standings; teammates share one
+  ratingBefore: number
+}
+
+const STARTING_RATING = 1200
+
+// Most a rating can move in one game
+const K_FACTOR = 32
+
+// How many recent games the rating history shows
+const HISTORY_LENGTH = 50
+
+// ===========================================
+// Rating helpers
+// ===========================================
+
+/**
+ * Chance that a player rated `rating` finishes above one rated
+ * `opponentRating`
+ */
+function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400))
+}
+
+/**
+ * Work out the rated users' placings in a finished game. Guests, local seats
+ * and co-op games are never rated.
+ */
+async function collectRatedPlacings(
+  ctx: MutationCtx,
+  game: Doc<'games'>,
+): Promise<Array<RatedPlacing>> {
+  if (!game.standings) {
+    return []
+  }
+
+  const players = await ctx.db
+    .query('gamePlayers')
+    .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+    .collect()
+
+  const placings: Array<RatedPlacing> = []
+  for (const player of players) {
+    const { userId } = player
+    if (!userId || placings.some((p) => p.userId === userId)) {
+      continue
+    }
+    const timelineIndex = game.standings.findIndex((s) =>
+      s.seatIds.includes(player._id),
+    )
+    if (timelineIndex === -1) continue
+
+    const user = await authComponent.getAnyUserById(ctx, userId)
+    if (!user || user.isAnonymous) continue
+
+    const rating = await ctx.db
+      .query('userRatings')
+      .withIndex('by_userId', (q) => q.eq('userId', userId))
+      .unique()
+    placings.push({
+      userId,
+      displayName: player.displayName,
+      place: game.standings[timelineIndex].place,
+      timelineIndex,
+      ratingBefore: rating?.rating ?? STARTING_RATING,
+    })
+  }
+  return placings
+}
+
+// ===========================================
+// Internal Mutations
+// ===========================================
+
+/**
+ * Update the ratings of every signed-in user in a finished game. Each user
+ * is scored against every rated user on another timeline by final standing,
+ * Elo style, so beating stronger players gains more. Games with fewer than
+ * two rated timelines are skipped; each game is only counted once.
+ */
+export const recordGameRatings = internalMutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get('games', args.gameId)
+    if (!game || game.phase !== 'finished' || game.ratingsRecordedAt) {
+      return null
+    }
+    const now = Date.now()
+    await ctx.db.patch('games', game._id, { ratingsRecordedAt: now })
+
+    const placings = await collectRatedPlacings(ctx, game)
+    for (const placing of placings) {
+      const opponents = placings.filter(
+        (p) => p.timelineIndex !== placing.timelineIndex,
+      )
+      if (opponents.length === 0) continue
+
+      let scoreDifference = 0
+      for (const opponent of opponents) {
+        const score =
+          placing.place < opponent.place
+            ? 1
+            : placing.place === opponent.place
+              ? 0.5
+              : 0
+        scoreDifference +=
+          score - expectedScore(placing.ratingBefore, opponent.ratingBefore)
+      }
+      const ratingAfter = Math.round(
+        placing.ratingBefore + (K_FACTOR / opponents.length) * scoreDifference,
+      )
+
+      const existing = await ctx.db
+        .query('userRatings')
+        .withIndex('by_userId', (q) => q.eq('userId', placing.userId))
+        .unique()
+      if (existing) {
+        await ctx.db.patch('userRatings', existing._id, {
+          displayName: placing.displayName,
+          rating: ratingAfter,
+          gamesRated: existing.gamesRated + 1,
+          updatedAt: now,
+        })
+      } else {
+        await ctx.db.insert('userRatings', {
+          userId: placing.userId,
+          displayName: placing.displayName,
+          rating: ratingAfter,
+          gamesRated: 1,
+          updatedAt: now,
+        })
+      }
+
+      await ctx.db.insert('userRatingHistory', {
+        userId: placing.userId,
+        gameId: game._id,
+        place: placing.place,
+        ratingBefore: placing.ratingBefore,
+        ratingAfter,
+        opponentUserIds: opponents.map((p) => p.userId),
+        recordedAt: now,
+      })
+    }
+
+    return null
+  },
+})
+
+// ===========================================
+// Queries
+// ===========================================
+
+/**
+ * Get the ratings of the signed-in user and everyone they have played a
+ * rated game with, highest first
+ */
+export const getLeaderboard = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      userId: v.string(),
+      displayName: v.string(),
+      rating: v.number(),
+      gamesRated: v.number(),
+      rank: v.number(),
+      isCurrentUser: v.boolean(),
+    }),
+  ),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      return []
+    }
+
+    const history = await ctx.db
+      .query('userRatingHistory')
+      .withIndex('by_userId', (q) => q.eq('userId', identity.subject))
+      .collect()
+    const userIds = new Set([
+      identity.subject,
+      ...history.flatMap((entry) => entry.opponentUserIds),
+    ])
+
+    const ratings: Array<Doc<'userRatings'>> = []
+    for (const userId of userIds) {
+      const rating = await ctx.db
+        .query('userRatings')
+        .withIndex('by_userId', (q) => q.eq('userId', userId))
+        .unique()
+      if (rating) {
+        ratings.push(rating)
+      }
+    }
+    ratings.sort((a, b) => b.rating - a.rating)
+
+    // Equal ratings share a rank
+    let rank = 0
+    return ratings.map((rating, index) => {
+      if (index === 0 || ratings[index - 1].rating !== rating.rating) {
+        rank = index + 1
+      }
+      return {
+        userId: rating.userId,
+        displayName: rating.displayName,
+        rating: rating.rating,
+        gamesRated: rating.gamesRated,
+        rank,
+        isCurrentUser: rating.userId === identity.subject,
+      }
+    })
+  },
+})
+
+/**
+ * Get how the signed-in user's rating changed over their recent rated
+ * games, oldest first
+ */
+export const getMyHistory = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      gameId: v.id('games'),
+      place: v.number(),
+      ratingBefore: v.number(),
+      ratingAfter: v.number(),
+      recordedAt: v.number(),
+    }),
+  ),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      return []
+    }
+
+    const history = await ctx.db
+      .query('userRatingHistory')
+      .withIndex('by_userId', (q) => q.eq('userId', identity.subject))
+      .order('desc')
+      .take(HISTORY_LENGTH)
+
+    return history.reverse().map((entry) => ({
+      gameId: entry.gameId,
+      place: entry.place,
+      ratingBefore: entry.ratingBefore,
+      ratingAfter: entry.ratingAfter,
+      recordedAt: entry.recordedAt,
+    }))
+  },
+})
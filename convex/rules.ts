@@ -0,0 +1,111 @@
+import type { Infer } from 'convex/values'
+import type { Doc } from './_generated/dataModel'
+import type { gameRulesValidator, rulesPresetValidator } from './schema'
+
+// Fields added in later versions are optional in storage but always resolved
+export type GameRules = Required<Infer<typeof gameRulesValidator>>
+export type RulesPreset = Infer<typeof rulesPresetValidator>
+
+// Bump when adding rule fields; older games are upgraded with original defaults
+export const CURRENT_RULES_VERSION = 4
+
+/**
+ * The built-in rulesets offered when creating a game
+ */
+export const RULES_PRESETS: Record<RulesPreset, GameRules> = {
+  // The standard HITSTER token economy
+  original: {
+    version: CURRENT_RULES_VERSION,
+    preset: 'original',
+    startingCards: 1,
+    skipCost: 1,
+    betCost: 1,
+    tradeCost: 3,
+    winningBetRefund: 1,
+    guessReward: 1,
+    betTieBreak: 'earliestBet',
+    betsAfterPlacement: true,
+    sameYearEitherSide: true,
+    requireExactYear: false,
+    requireTitleArtist: false,
+    partialCredit: { placement: 0, year: 0, song: 0 },
+    yearBucketSpan: 1,
+    keepCardsOnLeave: false,
+  },
+  // Exact years, pricier tokens, bets close on placement and same-year cards
+  // go in draw order
+  pro: {
+    version: CURRENT_RULES_VERSION,
+    preset: 'pro',
+    startingCards: 1,
+    skipCost: 2,
+    betCost: 1,
+    tradeCost: 4,
+    winningBetRefund: 0,
+    guessReward: 1,
+    betTieBreak: 'noWinner',
+    betsAfterPlacement: false,
+    sameYearEitherSide: false,
+    requireExactYear: true,
+    requireTitleArtist: false,
+    partialCredit: { placement: 1, year: 1, song: 0 },
+    yearBucketSpan: 1,
+    keepCardsOnLeave: false,
+  },
+  // A head start and cheap trades for relaxed games
+  casual: {
+    version: CURRENT_RULES_VERSION,
+    preset: 'casual',
+    startingCards: 3,
+    skipCost: 1,
+    betCost: 1,
+    tradeCost: 2,
+    winningBetRefund: 1,
+    guessReward: 1,
+    betTieBreak: 'earliestBet',
+    betsAfterPlacement: true,
+    sameYearEitherSide: true,
+    requireExactYear: false,
+    requireTitleArtist: false,
+    partialCredit: { placement: 0, year: 0, song: 0 },
+    yearBucketSpan: 1,
+    keepCardsOnLeave: true,
+  },
+  // Placements only need the right decade, for kids and casual players
+  easy: {
+    version: CURRENT_RULES_VERSION,
+    preset: 'easy',
+    startingCards: 1,
+    skipCost: 1,
+    betCost: 1,
+    tradeCost: 3,
+    winningBetRefund: 1,
+    guessReward: 1,
+    betTieBreak: 'earliestBet',
+    betsAfterPlacement: true,
+    sameYearEitherSide: true,
+    requireExactYear: false,
+    requireTitleArtist: false,
+    partialCredit: { placement: 0, year: 0, song: 0 },
+    yearBucketSpan: 10,
+    keepCardsOnLeave: true,
+  },
+}
+
+/**
+ * Get the rules a game is played with.
+ * Games created before rules existed play the original rules, and rules from
+ * an older version get any newer fields filled in from the original preset.
+ */
+export function getGameRules(game: Doc<'games'>): GameRules {
+  if (!game.rules) {
+    return RULES_PRESETS.original
+  }
+
+  // Fields newer than the game's rules version are unset, so they fall back
+  return {
+    ...RULES_PRESETS.original,
+    ...game.rules,
+    version: CURRENT_RULES_VERSION,
+  }
+}
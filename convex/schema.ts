@@ -13,12 +13,20 @@ const gamePhaseValidator = v.union(
 // Game modes
 const gameModeValidator = v.union(v.literal('hostOnly'), v.literal('sidecars'))
 
+// How seats compete: each for themselves, or grouped into teams
+export const playStyleValidator = v.union(
+  v.literal('individual'),
+  v.literal('teams'), // Seats grouped into teams sharing a timeline and tokens
+  v.literal('coop'), // Everyone builds one timeline together with shared lives
+)
+
 // Card states in the deck
 const cardStateValidator = v.union(
   v.literal('deck'), // In the draw pile
   v.literal('inRound'), // Currently being played this round
   v.literal('timeline'), // Placed in a player's timeline
   v.literal('discarded'), // Removed from play
+  v.literal('reserved'), // Held back for sudden death once the deck runs out
 )
 
 // Player seat types
@@ -27,6 +35,12 @@ const playerKindValidator = v.union(
   v.literal('user'), // Authenticated user (Google or guest)
 )
 
+// Why a seat sits out of the turn rotation (unset = playing)
+export const seatStatusValidator = v.union(
+  v.literal('away'), // Marked away by the host, can come back
+  v.literal('left'), // Left mid-game, keeping their cards in the standings
+)
+
 // Bet record for current round
 const betValidator = v.object({
   bettorPlayerId: v.id('gamePlayers'),
@@ -34,15 +48,342 @@ const betValidator = v.object({
   timestamp: v.number(), // For resolving ties (earliest wins)
 })
 
+// A typed title/artist guess, judged when the card is revealed
+const guessValidator = v.object({
+  playerId: v.id('gamePlayers'),
+  title: v.string(),
+  artist: v.string(),
+  submittedAt: v.number(),
+  result: v.optional(
+    v.object({
+      titleCorrect: v.boolean(),
+      artistCorrect: v.boolean(),
+      accepted: v.boolean(), // Both correct, or accepted by the host
+      overridden: v.boolean(), // Accepted by the host after being rejected
+      tokensAwarded: v.number(),
+    }),
+  ),
+})
+
 // Current round state stored on the game
 const currentRoundValidator = v.object({
   cardId: v.id('gameCards'),
   activePlayerId: v.id('gamePlayers'),
   placementIndex: v.optional(v.number()), // Where the active player placed the card
+  yearGuess: v.optional(v.number()), // The active player's exact-year answer
   bets: v.array(betValidator),
-  tokenClaimers: v.array(v.id('gamePlayers')), // Players who claimed a guess token this round
+  tokenClaimers: v.array(v.id('gamePlayers')), // Players awarded a guess token this round
+  guesses: v.optional(v.array(guessValidator)),
+})
+
+// Named rule presets selectable when creating a game
+export const rulesPresetValidator = v.union(
+  v.literal('original'),
+  v.literal('pro'),
+  v.literal('casual'),
+  v.literal('easy'),
+)
+
+// Who wins the card when several bettors picked a correct slot
+export const betTieBreakValidator = v.union(
+  v.literal('earliestBet'), // The first bet placed
+  v.literal('nextSeat'), // The bettor seated soonest after the active player
+  v.literal('noWinner'), // Nobody: the card is discarded
+)
+
+// The game's ruleset, versioned so older games keep the rules they started with
+export const gameRulesValidator = v.object({
+  version: v.number(),
+  preset: rulesPresetValidator,
+  startingCards: v.number(), // Cards dealt to each timeline at the start
+  skipCost: v.number(),
+  betCost: v.number(),
+  tradeCost: v.number(), // Tokens to auto-place the current card
+  winningBetRefund: v.number(), // Tokens returned to the bettor who wins the card
+  guessReward: v.number(), // Tokens for a correct title/artist guess
+  betTieBreak: betTieBreakValidator,
+  betsAfterPlacement: v.boolean(), // Whether bets stay open once the card is placed
+  sameYearEitherSide: v.boolean(), // Whether a card may go on either side of a same-year card
+  // Added in version 2 (unset on older games)
+  requireExactYear: v.optional(v.boolean()), // The active player must also name the exact year
+  requireTitleArtist: v.optional(v.boolean()), // ...and the title and artist
+  // Tokens for each right answer when the card is lost on another answer
+  partialCredit: v.optional(
+    v.object({
+      placement: v.number(),
+      year: v.number(),
+      song: v.number(),
+    }),
+  ),
+  // Added in version 3: years per bucket in easy mode (1 = exact years)
+  yearBucketSpan: v.optional(v.number()),
+  // Added in version 4: whether a player who leaves mid-game keeps their
+  // timeline in the standings (otherwise it is discarded)
+  keepCardsOnLeave: v.optional(v.boolean()),
+})
+
+// Per-phase time limits in seconds (unset = no limit)
+export const turnTimersValidator = v.object({
+  placementSeconds: v.optional(v.number()), // Active player placing the card
+  bettingSeconds: v.optional(v.number()), // Betting window before auto-reveal
+  revealSeconds: v.optional(v.number()), // Reveal-to-resolve
+})
+
+// Lets players join after the game has started (unset = lobby only)
+export const lateJoinValidator = v.object({
+  catchUpCards: v.number(), // Extra cards dealt on top of the starting cards
+})
+
+// A format that ends the game before anyone reaches the win condition
+export const gameLimitValidator = v.union(
+  v.object({
+    kind: v.literal('rounds'),
+    rounds: v.number(), // Full turns around the table
+  }),
+  v.object({
+    kind: v.literal('time'),
+    minutes: v.number(), // Playing time, not counting pauses
+  }),
+)
+
+// Which of the playlist's ready tracks go into the deck (unset = all of them)
+export const deckFiltersValidator = v.object({
+  minYear: v.optional(v.number()), // Earliest release year, inclusive
+  maxYear: v.optional(v.number()), // Latest release year, inclusive
+  requirePreview: v.optional(v.boolean()), // Skip tracks without a previewUrl
+  excludeArtists: v.optional(v.array(v.string())), // Matched loosely by name
+  maxDeckSize: v.optional(v.number()), // Random subset after shuffling
+})
+
+// How the deck is ordered at start. Era-balanced spreads decades evenly
+// through the deck and keeps cards by the same artist apart.
+export const deckStrategyValidator = v.union(
+  v.object({ strategy: v.literal('random') }),
+  v.object({
+    strategy: v.literal('eraBalanced'),
+    minArtistGap: v.number(), // Cards between two by the same artist
+  }),
+)
+
+// One of the playlists a game's deck is built from
+export const deckSourceValidator = v.object({
+  playlistId: v.id('playlists'),
+  weight: v.optional(v.number()), // Relative share of the deck (unset = all tracks)
+})
+
+// What separates timelines level on cards and tokens when the deck runs out
+export const standingsTieBreakerValidator = v.union(
+  v.literal('correctPlacements'), // Most cards placed correctly on their own turns
+  v.literal('fewestTurns'), // Fewest turns taken (seats later in the order)
+  v.literal('widestSpan'), // Widest range of release years on the timeline
+)
+
+// How the game is decided when the deck runs out
+export const endOfDeckValidator = v.object({
+  tieBreakers: v.array(standingsTieBreakerValidator), // Applied in order
+  suddenDeathCards: v.number(), // Held back for a play-off between tied leaders (0 = none)
+})
+
+// Tied leaders playing off with the reserved cards
+const suddenDeathValidator = v.object({
+  contenderIds: v.array(v.id('gamePlayers')),
+  turnsLeft: v.array(v.id('gamePlayers')), // Contenders still to play this cycle
+})
+
+// A timeline's final placing, shared by every seat that played for it
+export const standingValidator = v.object({
+  playerId: v.optional(v.id('gamePlayers')), // Individual games
+  teamId: v.optional(v.id('gameTeams')), // Team games
+  seatIds: v.array(v.id('gamePlayers')),
+  place: v.number(), // 1-indexed; timelines still level share a place
+  cardCount: v.number(),
+  tokenBalance: v.number(),
 })
 
+// Scheduled job that enforces the current phase's time limit
+const phaseTimerValidator = v.object({
+  deadline: v.number(), // Epoch ms when the phase expires
+  jobId: v.id('_scheduled_functions'),
+})
+
+// Where a resolved round's card ended up
+const cardDestinationValidator = v.union(
+  v.literal('activePlayer'),
+  v.literal('bettor'),
+  v.literal('discard'),
+)
+
+// Why a game ended
+export const gameFinishReasonValidator = v.union(
+  v.literal('winCondition'), // A player reached the target timeline size
+  v.literal('deckExhausted'), // No cards left to draw
+  v.literal('outOfLives'), // Co-op: the shared lives ran out
+  v.literal('suddenDeath'), // A tied leader won the play-off after the deck ran out
+  v.literal('roundLimit'), // The last round of a round-limited game was played
+  v.literal('timeLimit'), // Time ran out and the round in play was finished
+)
+
+// Payload of an entry in a game's append-only event log
+export const gameEventDataValidator = v.union(
+  v.object({
+    type: v.literal('gameStarted'),
+    players: v.array(
+      v.object({
+        playerId: v.id('gamePlayers'),
+        displayName: v.string(),
+        tokenBalance: v.number(),
+        teamId: v.optional(v.id('gameTeams')),
+      }),
+    ),
+    // Team games: timelines and tokens belong to these instead of players
+    teams: v.optional(
+      v.array(
+        v.object({
+          teamId: v.id('gameTeams'),
+          name: v.string(),
+          tokenBalance: v.number(),
+        }),
+      ),
+    ),
+    startingCards: v.array(
+      v.object({
+        playerId: v.id('gamePlayers'),
+        cardId: v.id('gameCards'),
+      }),
+    ),
+  }),
+  v.object({
+    type: v.literal('roundStarted'),
+    activePlayerId: v.id('gamePlayers'),
+    cardId: v.id('gameCards'),
+  }),
+  v.object({
+    type: v.literal('cardPlaced'),
+    playerId: v.id('gamePlayers'),
+    cardId: v.id('gameCards'),
+    insertIndex: v.number(),
+  }),
+  v.object({
+    type: v.literal('betPlaced'),
+    playerId: v.id('gamePlayers'),
+    cardId: v.id('gameCards'),
+    slotIndex: v.number(),
+    tokenCost: v.number(),
+  }),
+  v.object({
+    type: v.literal('cardRevealed'),
+    activePlayerId: v.id('gamePlayers'),
+    cardId: v.id('gameCards'),
+  }),
+  v.object({
+    type: v.literal('guessTokenClaimed'), // A correct (or host-accepted) guess
+    playerId: v.id('gamePlayers'),
+    cardId: v.id('gameCards'),
+    tokensAwarded: v.number(),
+  }),
+  v.object({
+    type: v.literal('roundResolved'),
+    activePlayerId: v.id('gamePlayers'),
+    cardId: v.id('gameCards'),
+    placementIndex: v.number(),
+    placementCorrect: v.boolean(),
+    cardWentTo: cardDestinationValidator,
+    recipientPlayerId: v.optional(v.id('gamePlayers')), // Who received the card
+    insertedAt: v.optional(v.number()), // Index in the recipient's timeline
+    refunds: v.array(
+      v.object({
+        playerId: v.id('gamePlayers'),
+        amount: v.number(),
+      }),
+    ),
+    livesRemaining: v.optional(v.number()), // Co-op: after a wrong placement
+    // Exact-year rules: the active player's answers and any consolation tokens
+    yearGuess: v.optional(v.number()),
+    yearCorrect: v.optional(v.boolean()),
+    songCorrect: v.optional(v.boolean()),
+    partialCredit: v.optional(v.number()),
+  }),
+  v.object({
+    type: v.literal('roundTimedOut'),
+    activePlayerId: v.id('gamePlayers'),
+    cardId: v.id('gameCards'), // The discarded card
+    refunds: v.array(
+      v.object({
+        playerId: v.id('gamePlayers'),
+        amount: v.number(),
+      }),
+    ),
+  }),
+  v.object({
+    type: v.literal('roundSkipped'),
+    playerId: v.id('gamePlayers'),
+    cardId: v.id('gameCards'), // The discarded card
+    replacementCardId: v.optional(v.id('gameCards')),
+    tokenCost: v.number(),
+    // Bets on the skipped card, handed back (unset on older events)
+    refunds: v.optional(
+      v.array(
+        v.object({
+          playerId: v.id('gamePlayers'),
+          amount: v.number(),
+        }),
+      ),
+    ),
+  }),
+  v.object({
+    type: v.literal('tokensTraded'),
+    playerId: v.id('gamePlayers'),
+    cardId: v.id('gameCards'),
+    insertedAt: v.number(),
+    tokenCost: v.number(),
+  }),
+  v.object({
+    type: v.literal('playerJoined'), // Took a seat after the game started
+    playerId: v.id('gamePlayers'),
+    displayName: v.string(),
+    tokenBalance: v.number(),
+    teamId: v.optional(v.id('gameTeams')), // Joined a team's shared timeline
+    startingCardIds: v.array(v.id('gameCards')), // In timeline order
+  }),
+  v.object({
+    type: v.literal('playerStatusChanged'), // Went away, came back or left
+    playerId: v.id('gamePlayers'),
+    status: v.optional(seatStatusValidator), // Unset = back in the rotation
+    abandonedCardId: v.optional(v.id('gameCards')), // The card in play on their turn
+    refunds: v.array(
+      v.object({
+        playerId: v.id('gamePlayers'),
+        amount: v.number(),
+      }),
+    ),
+  }),
+  v.object({
+    type: v.literal('playerRemoved'), // Kicked by the host or left mid-game
+    playerId: v.id('gamePlayers'),
+    displayName: v.string(), // The seat itself is deleted
+    left: v.optional(v.boolean()), // Left on their own rather than kicked
+    discardedCardIds: v.array(v.id('gameCards')), // Their timeline cards
+    abandonedCardId: v.optional(v.id('gameCards')), // The card in play on their turn
+    refunds: v.array(
+      v.object({
+        playerId: v.id('gamePlayers'),
+        amount: v.number(),
+      }),
+    ),
+  }),
+  v.object({
+    type: v.literal('suddenDeathStarted'), // The deck ran out with leaders tied
+    contenderIds: v.array(v.id('gamePlayers')),
+    cardCount: v.number(), // Cards each contender had
+  }),
+  v.object({
+    type: v.literal('gameFinished'),
+    reason: gameFinishReasonValidator,
+    winnerId: v.optional(v.id('gamePlayers')),
+    winningTeamId: v.optional(v.id('gameTeams')),
+  }),
+)
+
 // Playlist source provider
 const playlistSourceValidator = v.union(
   v.literal('spotify'),
@@ -84,6 +425,9 @@ export default defineSchema({
     totalTracks: v.number(), // Total tracks imported
     readyTracks: v.number(), // Tracks ready to play
     unmatchedTracks: v.number(), // Tracks that couldn't be matched
+
+    // Sharing: anyone with the link can add a shareable playlist
+    shareable: v.optional(v.boolean()),
   })
     .index('by_ownerUserId', ['ownerUserId'])
     .index('by_ownerUserId_and_sourcePlaylistId', [
@@ -91,6 +435,16 @@ export default defineSchema({
       'sourcePlaylistId',
     ]),
 
+  // Playlists shared with users other than the owner, for use in their games
+  playlistShares: defineTable({
+    playlistId: v.id('playlists'),
+    userId: v.string(), // Better Auth user ID of the recipient
+    sharedAt: v.number(),
+  })
+    .index('by_userId', ['userId'])
+    .index('by_playlistId', ['playlistId'])
+    .index('by_playlistId_and_userId', ['playlistId', 'userId']),
+
   // Tracks belonging to a playlist (one playlist owns each track)
   playlistTracks: defineTable({
     playlistId: v.id('playlists'),
@@ -115,6 +469,10 @@ export default defineSchema({
 
     // Set when status is 'unmatched'
     unmatchedReason: v.optional(v.string()),
+
+    // How often players placed this song correctly, across every game
+    placementsMade: v.optional(v.number()),
+    placementsCorrect: v.optional(v.number()),
   })
     .index('by_playlistId', ['playlistId'])
     .index('by_playlistId_and_position', ['playlistId', 'position'])
@@ -131,27 +489,59 @@ export default defineSchema({
 
     // Game configuration
     joinCode: v.string(), // 6-char code for joining
+    spectateCode: v.optional(v.string()), // 6-char code for watching only
     mode: gameModeValidator,
-    playlistId: v.id('playlists'),
+    playStyle: v.optional(playStyleValidator), // Defaults to 'individual'
+    playlistId: v.id('playlists'), // The first deck source
+    deckSources: v.optional(v.array(deckSourceValidator)), // Unset = playlistId only
 
     // Game options
     useTokens: v.boolean(), // Whether HITSTER tokens are enabled
     startingTokens: v.number(), // Tokens each player starts with (default 2)
     maxTokens: v.number(), // Max tokens a player can hold (default 5)
     winCondition: v.number(), // Timeline cards needed to win (default 10)
+    turnTimers: v.optional(turnTimersValidator),
+    lateJoin: v.optional(lateJoinValidator),
+    endOfDeck: v.optional(endOfDeckValidator), // Unset = default tie-breakers, no sudden death
+    limit: v.optional(gameLimitValidator), // Unset = play to the win condition
+    startingLives: v.optional(v.number()), // Co-op only (default 3)
+    rules: v.optional(gameRulesValidator), // Unset on older games: original rules
+    seed: v.optional(v.string()), // Seeds the deck shuffle (set at start on older games)
+    deckFilters: v.optional(deckFiltersValidator),
+    deckStrategy: v.optional(deckStrategyValidator), // Unset on older games: random
 
     // Game state
     phase: gamePhaseValidator,
     currentTurnSeatIndex: v.number(), // Which seat is active (0-indexed)
+    roundNumber: v.optional(v.number()), // 1-indexed, incremented each new turn
     currentRound: v.optional(currentRoundValidator),
+    phaseTimer: v.optional(phaseTimerValidator),
+    pausedAt: v.optional(v.number()), // Set while the host has paused the game
+    pausedMs: v.optional(v.number()), // Total time spent paused so far
+    timeLimitTimer: v.optional(phaseTimerValidator), // Time-limited games, while the clock runs
+    roundsCompleted: v.optional(v.number()), // Full turns around the table so far
+    finalRound: v.optional(v.boolean()), // Time ran out: this round around the table is the last
+    suddenDeath: v.optional(suddenDeathValidator), // Set once the deck runs out with leaders tied
     winnerId: v.optional(v.id('gamePlayers')), // Set when game is finished
+    winningTeamId: v.optional(v.id('gameTeams')), // Team games only
+    livesRemaining: v.optional(v.number()), // Co-op only
+    finishReason: v.optional(gameFinishReasonValidator),
+    standings: v.optional(v.array(standingValidator)), // Set when finished (not co-op)
+    rematchOfGameId: v.optional(v.id('games')), // The game this is a rematch of
+    rematchGameId: v.optional(v.id('games')), // Set once a rematch is created
+    kickedUserIds: v.optional(v.array(v.string())), // Can't rejoin by code
 
     // Metadata
     createdAt: v.number(),
     startedAt: v.optional(v.number()),
     finishedAt: v.optional(v.number()),
+    archivedByUserIds: v.optional(v.array(v.string())), // Hidden from their game lists
+    deletingAt: v.optional(v.number()), // Set while its rows are deleted in batches
+    statsRecordedAt: v.optional(v.number()), // Set once players' stats include this game
+    ratingsRecordedAt: v.optional(v.number()), // Set once players' ratings include this game
   })
     .index('by_joinCode', ['joinCode'])
+    .index('by_spectateCode', ['spectateCode'])
     .index('by_hostUserId', ['hostUserId'])
     .index('by_hostUserId_and_phase', ['hostUserId', 'phase']),
 
@@ -163,12 +553,40 @@ export default defineSchema({
     kind: playerKindValidator,
     userId: v.optional(v.string()), // Better Auth user ID (for kind: "user")
     tokenBalance: v.number(),
-    isHostSeat: v.boolean(), // First seat is always the host's
+    isHostSeat: v.boolean(), // The host's seat (first unless reordered)
+    teamId: v.optional(v.id('gameTeams')), // Team games only
+    status: v.optional(seatStatusValidator), // Skipped by the turn rotation
+
+    // Seat claims: a local seat taken over by a user from their own device
+    claimCode: v.optional(v.string()), // Open claim for a local seat
+    claimedFromLocal: v.optional(v.boolean()), // Host can revert it to local
   })
     .index('by_gameId', ['gameId'])
     .index('by_gameId_and_seatIndex', ['gameId', 'seatIndex'])
+    .index('by_gameId_and_userId', ['gameId', 'userId'])
+    .index('by_claimCode', ['claimCode']),
+
+  // Users watching a game without a seat (they can never act)
+  gameSpectators: defineTable({
+    gameId: v.id('games'),
+    userId: v.string(), // Better Auth user ID
+    displayName: v.string(),
+    joinedAt: v.number(),
+  })
+    .index('by_gameId', ['gameId'])
     .index('by_gameId_and_userId', ['gameId', 'userId']),
 
+  // Teams in a team game: each owns one timeline and a pooled token balance
+  gameTeams: defineTable({
+    gameId: v.id('games'),
+    teamIndex: v.number(), // 0-indexed team position (turn order)
+    name: v.string(),
+    tokenBalance: v.number(), // Shared by all members
+    turnsTaken: v.number(), // Rotates which member holds the phone
+  })
+    .index('by_gameId', ['gameId'])
+    .index('by_gameId_and_teamIndex', ['gameId', 'teamIndex']),
+
   // Card instances for a game (materialized from playlist tracks)
   gameCards: defineTable({
     gameId: v.id('games'),
@@ -176,20 +594,96 @@ export default defineSchema({
     releaseYear: v.number(), // Denormalized for fast validation
     state: cardStateValidator,
     ownerPlayerId: v.optional(v.id('gamePlayers')), // Set when in timeline
+    ownerTeamId: v.optional(v.id('gameTeams')), // Set when in a team timeline
     deckOrder: v.optional(v.number()), // Order in draw pile (for deterministic shuffling)
   })
     .index('by_gameId', ['gameId'])
     .index('by_gameId_and_state', ['gameId', 'state'])
     .index('by_gameId_and_ownerPlayerId', ['gameId', 'ownerPlayerId']),
 
-  // Timeline entries: ordered cards in a player's timeline
+  // Timeline entries: ordered cards in a player's (or team's) timeline
   timelineEntries: defineTable({
     gameId: v.id('games'),
-    playerId: v.id('gamePlayers'),
+    playerId: v.optional(v.id('gamePlayers')), // Individual games
+    teamId: v.optional(v.id('gameTeams')), // Team games
     cardId: v.id('gameCards'),
     position: v.number(), // 0-indexed position in the timeline
   })
+    .index('by_gameId', ['gameId'])
     .index('by_playerId', ['playerId'])
     .index('by_playerId_and_position', ['playerId', 'position'])
+    .index('by_teamId', ['teamId'])
     .index('by_cardId', ['cardId']),
+
+  // Append-only log of everything that happened in a game (for replays)
+  gameEvents: defineTable({
+    gameId: v.id('games'),
+    sequence: v.number(), // Monotonic per game, starting at 0
+    round: v.number(), // Round the event belongs to (0 = setup)
+    createdAt: v.number(),
+    data: gameEventDataValidator,
+  }).index('by_gameId_and_sequence', ['gameId', 'sequence']),
+
+  // ============================================
+  // Player Statistics Tables
+  // ============================================
+
+  // Lifetime totals for a user, added to as each of their games finishes
+  userStats: defineTable({
+    userId: v.string(), // Better Auth user ID
+    gamesPlayed: v.number(),
+    gamesWon: v.number(),
+    placementsMade: v.number(), // Cards placed on their own turns
+    placementsCorrect: v.number(),
+    betsWon: v.number(),
+    betsLost: v.number(), // Refunded bets count as neither
+    tokensEarned: v.number(), // Guess rewards, consolation tokens and bet refunds
+    tokensSpent: v.number(), // Bets, skips and trades, less refunds
+    lastPlayedAt: v.number(),
+  }).index('by_userId', ['userId']),
+
+  // A user's placement accuracy for cards from one decade
+  userDecadeStats: defineTable({
+    userId: v.string(),
+    decade: v.number(), // First year of the decade, e.g. 1980
+    placementsMade: v.number(),
+    placementsCorrect: v.number(),
+  })
+    .index('by_userId', ['userId'])
+    .index('by_userId_and_decade', ['userId', 'decade']),
+
+  // How often a user has played with each playlist
+  userPlaylistStats: defineTable({
+    userId: v.string(),
+    playlistId: v.id('playlists'),
+    displayName: v.optional(v.string()), // Name from their most recent game
+    gamesPlayed: v.number(),
+    gamesWon: v.number(),
+    placementsMade: v.optional(v.number()), // Cards from this playlist placed on their own turns
+    placementsCorrect: v.optional(v.number()),
+    lastPlayedAt: v.number(),
+  })
+    .index('by_userId', ['userId'])
+    .index('by_playlistId', ['playlistId'])
+    .index('by_userId_and_playlistId', ['userId', 'playlistId']),
+
+  // A signed-in (non-guest) user's skill rating
+  userRatings: defineTable({
+    userId: v.string(),
+    displayName: v.string(), // Name from their most recent rated game
+    rating: v.number(), // Elo rating, starting at 1200
+    gamesRated: v.number(),
+    updatedAt: v.number(),
+  }).index('by_userId', ['userId']),
+
+  // How one rated game changed a user's rating
+  userRatingHistory: defineTable({
+    userId: v.string(),
+    gameId: v.id('games'), // The game may since have been deleted
+    place: v.number(),
+    ratingBefore: v.number(),
+    ratingAfter: v.number(),
+    opponentUserIds: v.array(v.string()), // Rated users on other timelines
+    recordedAt: v.number(),
+  }).index('by_userId', ['userId']),
 })
@@ -0,0 +1,199 @@
+import { v } from 'convex/values'
+import { mutation } from './_generated/server'
+import { getLiveGame } from './gameDeletion'
+import { setSeatStatus } from './turns'
+import { unseededCode } from './random'
+import type { Doc } from './_generated/dataModel'
+import type { MutationCtx } from './_generated/server'
+
+// Longer than join codes, so the join form can tell them apart
+const CLAIM_CODE_LENGTH = 8
+
+// ===========================================
+// Helpers
+// ===========================================
+
+/**
+ * Load a seat and its game, checking the caller is the game's host
+ */
+async function getSeatForHost(
+  ctx: MutationCtx,
+  playerId: Doc<'gamePlayers'>['_id'],
+): Promise<{ game: Doc<'games'>; player: Doc<'gamePlayers'> }> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new Error('Not authenticated')
+  }
+
+  const player = await ctx.db.get('gamePlayers', playerId)
+  if (!player) {
+    throw new Error('Player not found')
+  }
+
+  const game = await getLiveGame(ctx, player.gameId)
+
+  if (game.hostUserId !== identity.subject) {
+    throw new Error('Only the host can manage seat claims')
+  }
+
+  return { game, player }
+}
+
+/**
+ * Generate a claim code no other seat is using
+ */
+async function generateUniqueClaimCode(ctx: MutationCtx): Promise<string> {
+  for (let attempts = 0; attempts < 10; attempts++) {
+    const claimCode = unseededCode(CLAIM_CODE_LENGTH)
+    const existing = await ctx.db
+      .query('gamePlayers')
+      .withIndex('by_claimCode', (q) => q.eq('claimCode', claimCode))
+      .first()
+    if (!existing) {
+      return claimCode
+    }
+  }
+  throw new Error('Could not generate unique claim code')
+}
+
+// ===========================================
+// Mutations
+// ===========================================
+
+/**
+ * Open a claim for a local seat, so a friend can take it over from their
+ * own device (host only). Returns the seat's claim code, reusing an open one.
+ */
+export const createClaim = mutation({
+  args: {
+    playerId: v.id('gamePlayers'),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const { game, player } = await getSeatForHost(ctx, args.playerId)
+
+    if (player.kind !== 'local') {
+      throw new Error('Only local seats can be claimed')
+    }
+
+    if (player.isHostSeat) {
+      throw new Error("The host's seat cannot be claimed")
+    }
+
+    if (player.status === 'left') {
+      throw new Error('This seat has left the game')
+    }
+
+    if (game.phase === 'finished') {
+      throw new Error('Game is already over')
+    }
+
+    if (player.claimCode) {
+      return player.claimCode
+    }
+
+    const claimCode = await generateUniqueClaimCode(ctx)
+    await ctx.db.patch('gamePlayers', player._id, { claimCode })
+
+    return claimCode
+  },
+})
+
+/**
+ * Take over a local seat with its claim code. The seat becomes the caller's
+ * user seat, keeping its name, cards and tokens. An away seat comes back
+ * into the turn rotation; seats that left the game can't be claimed.
+ */
+export const claim = mutation({
+  args: {
+    claimCode: v.string(),
+  },
+  returns: v.object({
+    joinCode: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated. Please sign in or continue as guest.')
+    }
+
+    const player = await ctx.db
+      .query('gamePlayers')
+      .withIndex('by_claimCode', (q) =>
+        q.eq('claimCode', args.claimCode.trim().toUpperCase()),
+      )
+      .first()
+    if (!player || player.kind !== 'local') {
+      throw new Error('Seat not found. Ask the host for a new claim link.')
+    }
+
+    const game = await getLiveGame(ctx, player.gameId)
+
+    if (game.phase === 'finished') {
+      throw new Error('Game is already over')
+    }
+
+    if (game.kickedUserIds?.includes(identity.subject)) {
+      throw new Error('The host removed you from this game')
+    }
+
+    if (game.hostUserId === identity.subject) {
+      throw new Error('You already control the local seats as the host')
+    }
+
+    if (player.status === 'left') {
+      throw new Error('This seat has left the game')
+    }
+
+    const existingSeat = await ctx.db
+      .query('gamePlayers')
+      .withIndex('by_gameId_and_userId', (q) =>
+        q.eq('gameId', game._id).eq('userId', identity.subject),
+      )
+      .first()
+    if (existingSeat) {
+      throw new Error('You already have a seat in this game')
+    }
+
+    if (player.status !== undefined) {
+      await setSeatStatus(ctx, game, player, undefined)
+    }
+    await ctx.db.patch('gamePlayers', player._id, {
+      kind: 'user',
+      userId: identity.subject,
+      claimCode: undefined,
+      claimedFromLocal: true,
+    })
+
+    return { joinCode: game.joinCode }
+  },
+})
+
+/**
+ * Cancel an open claim, or hand a claimed seat back to the host as a local
+ * seat (host only)
+ */
+export const revokeClaim = mutation({
+  args: {
+    playerId: v.id('gamePlayers'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { player } = await getSeatForHost(ctx, args.playerId)
+
+    if (player.kind === 'user') {
+      if (!player.claimedFromLocal) {
+        throw new Error('This seat was not claimed from a local seat')
+      }
+      await ctx.db.patch('gamePlayers', player._id, {
+        kind: 'local',
+        userId: undefined,
+        claimedFromLocal: undefined,
+      })
+      return null
+    }
+
+    await ctx.db.patch('gamePlayers', player._id, { claimCode: undefined })
+    return null
+  },
+})
@@ -0,0 +1,170 @@
+import { v } from 'convex/values'
+import { mutation } from './_generated/server'
+import { getLiveGame } from './gameDeletion'
+import { unseededCode } from './random'
+import type { Doc, Id } from './_generated/dataModel'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+
+// ===========================================
+// Code helpers
+// ===========================================
+
+/**
+ * Find the game a join code or spectate code belongs to. Games being deleted
+ * are skipped, so their codes can be reused straight away.
+ */
+export async function getGameByCode(
+  ctx: QueryCtx,
+  code: string,
+): Promise<Doc<'games'> | null> {
+  const normalized = code.trim().toUpperCase()
+  const byJoinCode = await ctx.db
+    .query('games')
+    .withIndex('by_joinCode', (q) => q.eq('joinCode', normalized))
+    .collect()
+  const bySpectateCode = await ctx.db
+    .query('games')
+    .withIndex('by_spectateCode', (q) => q.eq('spectateCode', normalized))
+    .collect()
+  return (
+    [...byJoinCode, ...bySpectateCode].find(
+      (game) => game.deletingAt === undefined,
+    ) ?? null
+  )
+}
+
+/**
+ * Generate a 6-character spectate code that is not in use as either kind of
+ * game code
+ */
+export async function generateSpectateCode(ctx: MutationCtx): Promise<string> {
+  for (let attempts = 0; attempts < 10; attempts++) {
+    const spectateCode = unseededCode(6)
+    if (!(await getGameByCode(ctx, spectateCode))) {
+      return spectateCode
+    }
+  }
+  throw new Error('Could not generate unique spectate code')
+}
+
+// ===========================================
+// Access helpers
+// ===========================================
+
+/**
+ * Whether a user is watching a game
+ */
+export async function isSpectator(
+  ctx: QueryCtx,
+  gameId: Id<'games'>,
+  userId: string,
+): Promise<boolean> {
+  const spectator = await ctx.db
+    .query('gameSpectators')
+    .withIndex('by_gameId_and_userId', (q) =>
+      q.eq('gameId', gameId).eq('userId', userId),
+    )
+    .first()
+  return spectator !== null
+}
+
+/**
+ * Get a game's spectators in the order they arrived
+ */
+export async function getGameSpectators(
+  ctx: QueryCtx,
+  gameId: Id<'games'>,
+): Promise<Array<Doc<'gameSpectators'>>> {
+  const spectators = await ctx.db
+    .query('gameSpectators')
+    .withIndex('by_gameId', (q) => q.eq('gameId', gameId))
+    .collect()
+
+  spectators.sort((a, b) => a.joinedAt - b.joinedAt)
+  return spectators
+}
+
+// ===========================================
+// Mutations
+// ===========================================
+
+/**
+ * Watch a game with its join code or spectate code, at any phase.
+ * Spectators see the live game but never get a seat. Does nothing for the
+ * host, seated players and existing spectators.
+ */
+export const watch = mutation({
+  args: {
+    code: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated. Please sign in or continue as guest.')
+    }
+
+    const game = await getGameByCode(ctx, args.code)
+    if (!game) {
+      throw new Error('Game not found. Check the code.')
+    }
+
+    if (game.kickedUserIds?.includes(identity.subject)) {
+      throw new Error('The host removed you from this game')
+    }
+
+    if (game.hostUserId === identity.subject) {
+      return null
+    }
+
+    const seat = await ctx.db
+      .query('gamePlayers')
+      .withIndex('by_gameId_and_userId', (q) =>
+        q.eq('gameId', game._id).eq('userId', identity.subject),
+      )
+      .first()
+    if (seat || (await isSpectator(ctx, game._id, identity.subject))) {
+      return null
+    }
+
+    await ctx.db.insert('gameSpectators', {
+      gameId: game._id,
+      userId: identity.subject,
+      displayName: identity.name ?? 'Spectator',
+      joinedAt: Date.now(),
+    })
+
+    return null
+  },
+})
+
+/**
+ * Stop watching a game
+ */
+export const stopWatching = mutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const game = await getLiveGame(ctx, args.gameId)
+    const spectator = await ctx.db
+      .query('gameSpectators')
+      .withIndex('by_gameId_and_userId', (q) =>
+        q.eq('gameId', game._id).eq('userId', identity.subject),
+      )
+      .first()
+    if (!spectator) {
+      throw new Error('You are not watching this game')
+    }
+
+    await ctx.db.delete('gameSpectators', spectator._id)
+
+    return null
+  },
+})
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import { getSoleLeader, placeTimelines } from './standings'
+import type { Id } from './_generated/dataModel'
+import type { RankedTimeline } from './standings'
+
+const timeline = (
+  name: string,
+  stats: Partial<Omit<RankedTimeline, 'owner' | 'seatIds'>> = {},
+): RankedTimeline => {
+  const playerId = name as Id<'gamePlayers'>
+  return {
+    owner: { playerId },
+    seatIds: [playerId],
+    cardCount: 5,
+    tokenBalance: 2,
+    correctPlacements: 3,
+    turnsTaken: 6,
+    yearSpan: 20,
+    ...stats,
+  }
+}
+
+const places = (standings: Array<{ playerId?: string; place: number }>) =>
+  standings.map((s) => [s.playerId, s.place])
+
+describe('placeTimelines', () => {
+  it('ranks by cards, then tokens', () => {
+    const standings = placeTimelines(
+      [
+        timeline('ann', { cardCount: 4, tokenBalance: 9 }),
+        timeline('bob', { cardCount: 6, tokenBalance: 0 }),
+        timeline('cat', { cardCount: 4, tokenBalance: 3 }),
+      ],
+      [],
+    )
+    expect(places(standings)).toEqual([
+      ['bob', 1],
+      ['ann', 2],
+      ['cat', 3],
+    ])
+  })
+
+  it('applies tie-breakers in the given order', () => {
+    const timelines = [
+      timeline('ann', { correctPlacements: 4, turnsTaken: 8 }),
+      timeline('bob', { correctPlacements: 3, turnsTaken: 5 }),
+    ]
+    expect(
+      places(placeTimelines(timelines, ['correctPlacements', 'fewestTurns'])),
+    ).toEqual([
+      ['ann', 1],
+      ['bob', 2],
+    ])
+    expect(
+      places(placeTimelines(timelines, ['fewestTurns', 'correctPlacements'])),
+    ).toEqual([
+      ['bob', 1],
+      ['ann', 2],
+    ])
+  })
+
+  it('ranks a wider year span first', () => {
+    const standings = placeTimelines(
+      [timeline('ann', { yearSpan: 10 }), timeline('bob', { yearSpan: 40 })],
+      ['widestSpan'],
+    )
+    expect(places(standings)).toEqual([
+      ['bob', 1],
+      ['ann', 2],
+    ])
+  })
+
+  it('shares a place between timelines level on everything', () => {
+    const standings = placeTimelines(
+      [
+        timeline('ann', { cardCount: 7 }),
+        timeline('bob'),
+        timeline('cat'),
+        timeline('dan', { cardCount: 2 }),
+      ],
+      ['correctPlacements'],
+    )
+    expect(places(standings)).toEqual([
+      ['ann', 1],
+      ['bob', 2],
+      ['cat', 2],
+      ['dan', 4],
+    ])
+  })
+
+  it('ignores stats not chosen as tie-breakers', () => {
+    const standings = placeTimelines(
+      [timeline('ann', { turnsTaken: 9 }), timeline('bob', { turnsTaken: 2 })],
+      ['correctPlacements'],
+    )
+    expect(places(standings)).toEqual([
+      ['ann', 1],
+      ['bob', 1],
+    ])
+  })
+
+  it('always places the winner first on its own', () => {
+    const bob = timeline('bob')
+    const standings = placeTimelines(
+      [timeline('ann', { cardCount: 9 }), bob, timeline('cat')],
+      [],
+      bob.owner,
+    )
+    expect(places(standings)).toEqual([
+      ['bob', 1],
+      ['ann', 2],
+      ['cat', 3],
+    ])
+  })
+
+  it('keeps the seats and totals of each timeline', () => {
+    const [standing] = placeTimelines(
+      [timeline('ann', { cardCount: 8, tokenBalance: 4 })],
+      [],
+    )
+    expect(standing).toEqual({
+      playerId: 'ann',
+      teamId: undefined,
+      seatIds: ['ann'],
+      place: 1,
+      cardCount: 8,
+      tokenBalance: 4,
+    })
+  })
+})
+
+describe('getSoleLeader', () => {
+  it('returns the only timeline in first place', () => {
+    const standings = placeTimelines(
+      [timeline('ann', { cardCount: 9 }), timeline('bob')],
+      [],
+    )
+    expect(getSoleLeader(standings)).toEqual({ playerId: 'ann' })
+  })
+
+  it('returns nothing when first place is shared', () => {
+    const standings = placeTimelines([timeline('ann'), timeline('bob')], [])
+    expect(getSoleLeader(standings)).toBeUndefined()
+  })
+})
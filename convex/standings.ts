@@ -0,0 +1,243 @@
+import { getGameTeams, getTimelineEntries } from './teams'
+import type { Infer } from 'convex/values'
+import type { Doc, Id } from './_generated/dataModel'
+import type { QueryCtx } from './_generated/server'
+import type {
+  endOfDeckValidator,
+  playStyleValidator,
+  standingValidator,
+  standingsTieBreakerValidator,
+} from './schema'
+import type { TimelineOwner } from './teams'
+
+type Game = Doc<'games'>
+
+export type EndOfDeck = Infer<typeof endOfDeckValidator>
+export type Standing = Infer<typeof standingValidator>
+type TieBreaker = Infer<typeof standingsTieBreakerValidator>
+
+// Applied to games created without end-of-deck settings
+export const DEFAULT_END_OF_DECK: EndOfDeck = {
+  tieBreakers: ['correctPlacements', 'fewestTurns'],
+  suddenDeathCards: 0,
+}
+
+const MAX_SUDDEN_DEATH_CARDS = 20
+
+// Everything a timeline is ranked on
+export type RankedTimeline = {
+  owner: TimelineOwner
+  seatIds: Array<Id<'gamePlayers'>>
+  cardCount: number
+  tokenBalance: number
+  correctPlacements: number
+  turnsTaken: number
+  yearSpan: number
+}
+
+// ===========================================
+// Settings helpers
+// ===========================================
+
+/**
+ * Get how a game is decided when its deck runs out
+ */
+export function getEndOfDeck(game: Game): EndOfDeck {
+  return game.endOfDeck ?? DEFAULT_END_OF_DECK
+}
+
+/**
+ * Check end-of-deck settings: each tie-breaker at most once, and sudden
+ * death only where single players can play off against each other
+ */
+export function validateEndOfDeck(
+  endOfDeck: EndOfDeck,
+  playStyle: Infer<typeof playStyleValidator>,
+): void {
+  if (new Set(endOfDeck.tieBreakers).size !== endOfDeck.tieBreakers.length) {
+    throw new Error('Each tie-breaker can only be used once')
+  }
+  const { suddenDeathCards } = endOfDeck
+  if (
+    !Number.isInteger(suddenDeathCards) ||
+    suddenDeathCards < 0 ||
+    suddenDeathCards > MAX_SUDDEN_DEATH_CARDS
+  ) {
+    throw new Error(
+      `Sudden death cards must be a whole number from 0 to ${MAX_SUDDEN_DEATH_CARDS}`,
+    )
+  }
+  if (suddenDeathCards > 0 && playStyle !== 'individual') {
+    throw new Error('Sudden death is only available when playing individually')
+  }
+}
+
+// ===========================================
+// Ranking
+// ===========================================
+
+/**
+ * Compare two timelines: negative when `a` places above `b`, 0 when they
+ * are level on everything
+ */
+function compareTimelines(
+  a: RankedTimeline,
+  b: RankedTimeline,
+  tieBreakers: Array<TieBreaker>,
+): number {
+  if (a.cardCount !== b.cardCount) {
+    return b.cardCount - a.cardCount
+  }
+  if (a.tokenBalance !== b.tokenBalance) {
+    return b.tokenBalance - a.tokenBalance
+  }
+
+  for (const tieBreaker of tieBreakers) {
+    const difference =
+      tieBreaker === 'correctPlacements'
+        ? b.correctPlacements - a.correctPlacements
+        : tieBreaker === 'fewestTurns'
+          ? a.turnsTaken - b.turnsTaken
+          : b.yearSpan - a.yearSpan
+    if (difference !== 0) {
+      return difference
+    }
+  }
+  return 0
+}
+
+/**
+ * Rank every timeline in a game: most cards, then most tokens, then the
+ * game's tie-breakers. Timelines still level share a place. A winner decided
+ * some other way (reaching the win condition, or sudden death) always
+ * places first.
+ */
+export async function rankTimelines(
+  ctx: QueryCtx,
+  game: Game,
+  winner?: TimelineOwner,
+): Promise<Array<Standing>> {
+  const players = await ctx.db
+    .query('gamePlayers')
+    .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+    .collect()
+  players.sort((a, b) => a.seatIndex - b.seatIndex)
+
+  const timelines: Array<Omit<RankedTimeline, 'cardCount' | 'yearSpan'>> =
+    game.playStyle === 'teams'
+      ? (await getGameTeams(ctx, game._id)).map((team) => ({
+          owner: { teamId: team._id },
+          seatIds: players
+            .filter((p) => p.teamId === team._id)
+            .map((p) => p._id),
+          tokenBalance: team.tokenBalance,
+          correctPlacements: 0,
+          turnsTaken: 0,
+        }))
+      : players.map((player) => ({
+          owner: { playerId: player._id },
+          seatIds: [player._id],
+          tokenBalance: player.tokenBalance,
+          correctPlacements: 0,
+          turnsTaken: 0,
+        }))
+
+  // Turns and correct placements come from the event log
+  const events = await ctx.db
+    .query('gameEvents')
+    .withIndex('by_gameId_and_sequence', (q) => q.eq('gameId', game._id))
+    .collect()
+  for (const { data } of events) {
+    if (data.type !== 'roundStarted' && data.type !== 'roundResolved') {
+      continue
+    }
+    const timeline = timelines.find((t) =>
+      t.seatIds.includes(data.activePlayerId),
+    )
+    if (!timeline) continue
+
+    if (data.type === 'roundStarted') {
+      timeline.turnsTaken++
+    } else if (data.placementCorrect) {
+      timeline.correctPlacements++
+    }
+  }
+
+  const ranked: Array<RankedTimeline> = []
+  for (const timeline of timelines) {
+    const entries = await getTimelineEntries(ctx, timeline.owner)
+    const years: Array<number> = []
+    for (const entry of entries) {
+      const card = await ctx.db.get('gameCards', entry.cardId)
+      if (card) {
+        years.push(card.releaseYear)
+      }
+    }
+    ranked.push({
+      ...timeline,
+      cardCount: entries.length,
+      yearSpan: years.length > 0 ? Math.max(...years) - Math.min(...years) : 0,
+    })
+  }
+
+  return placeTimelines(ranked, getEndOfDeck(game).tieBreakers, winner)
+}
+
+/**
+ * Sort ranked timelines into standings. The winner, if any, places first;
+ * the rest are ordered by `compareTimelines`, and timelines level on
+ * everything share a place.
+ */
+export function placeTimelines(
+  timelines: Array<RankedTimeline>,
+  tieBreakers: Array<TieBreaker>,
+  winner?: TimelineOwner,
+): Array<Standing> {
+  const ranked = [...timelines]
+  const isWinner = (timeline: RankedTimeline) =>
+    winner !== undefined &&
+    (timeline.owner.playerId ?? timeline.owner.teamId) ===
+      (winner.playerId ?? winner.teamId)
+  ranked.sort((a, b) => {
+    if (isWinner(a) !== isWinner(b)) {
+      return isWinner(a) ? -1 : 1
+    }
+    return compareTimelines(a, b, tieBreakers)
+  })
+
+  const standings: Array<Standing> = []
+  ranked.forEach((timeline, index) => {
+    const previous = index > 0 ? ranked[index - 1] : undefined
+    const isLevel =
+      previous !== undefined &&
+      !isWinner(previous) &&
+      compareTimelines(previous, timeline, tieBreakers) === 0
+
+    standings.push({
+      playerId: timeline.owner.playerId,
+      teamId: timeline.owner.teamId,
+      seatIds: timeline.seatIds,
+      place: isLevel ? standings[index - 1].place : index + 1,
+      cardCount: timeline.cardCount,
+      tokenBalance: timeline.tokenBalance,
+    })
+  })
+  return standings
+}
+
+/**
+ * Get the timeline placed first on its own, if any
+ */
+export function getSoleLeader(
+  standings: Array<Standing>,
+): TimelineOwner | undefined {
+  const leaders = standings.filter((s) => s.place === 1)
+  if (leaders.length !== 1) {
+    return undefined
+  }
+  const [leader] = leaders
+  if (leader.teamId) {
+    return { teamId: leader.teamId }
+  }
+  return leader.playerId ? { playerId: leader.playerId } : undefined
+}
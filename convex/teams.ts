@@ -0,0 +1,306 @@
+import { v } from 'convex/values'
+import { mutation } from './_generated/server'
+import { getLiveGame } from './gameDeletion'
+import type { Doc, Id } from './_generated/dataModel'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+
+type Game = Doc<'games'>
+type GamePlayer = Doc<'gamePlayers'>
+type GameTeam = Doc<'gameTeams'>
+type TimelineEntry = Doc<'timelineEntries'>
+
+/**
+ * Who owns a timeline: a player in individual games, a team in team games
+ * (co-op games are played as a single team of everyone)
+ */
+export type TimelineOwner =
+  | { playerId: Id<'gamePlayers'>; teamId?: undefined }
+  | { teamId: Id<'gameTeams'>; playerId?: undefined }
+
+// ===========================================
+// Ownership helpers
+// ===========================================
+
+/**
+ * Whether seats play in teams: team games, and co-op as one big team
+ */
+export function hasTeams(game: Game): boolean {
+  return game.playStyle === 'teams' || game.playStyle === 'coop'
+}
+
+/**
+ * Get the timeline owner a player plays for
+ */
+export function timelineOwnerOf(player: GamePlayer): TimelineOwner {
+  return player.teamId ? { teamId: player.teamId } : { playerId: player._id }
+}
+
+/**
+ * Get a timeline's entries in position order
+ */
+export async function getTimelineEntries(
+  ctx: QueryCtx,
+  owner: TimelineOwner,
+): Promise<Array<TimelineEntry>> {
+  const entries = owner.teamId
+    ? await ctx.db
+        .query('timelineEntries')
+        .withIndex('by_teamId', (q) => q.eq('teamId', owner.teamId))
+        .collect()
+    : await ctx.db
+        .query('timelineEntries')
+        .withIndex('by_playerId', (q) => q.eq('playerId', owner.playerId))
+        .collect()
+
+  entries.sort((a, b) => a.position - b.position)
+  return entries
+}
+
+/**
+ * Get a game's teams in turn order (empty for individual games)
+ */
+export async function getGameTeams(
+  ctx: QueryCtx,
+  gameId: Id<'games'>,
+): Promise<Array<GameTeam>> {
+  const teams = await ctx.db
+    .query('gameTeams')
+    .withIndex('by_gameId', (q) => q.eq('gameId', gameId))
+    .collect()
+
+  teams.sort((a, b) => a.teamIndex - b.teamIndex)
+  return teams
+}
+
+// ===========================================
+// Token helpers
+// ===========================================
+
+/**
+ * Get the token balance a player can spend (their team's pool in team games)
+ */
+export async function getTokenBalance(
+  ctx: QueryCtx,
+  player: GamePlayer,
+): Promise<number> {
+  if (!player.teamId) {
+    return player.tokenBalance
+  }
+
+  const team = await ctx.db.get('gameTeams', player.teamId)
+  if (!team) {
+    throw new Error('Team not found')
+  }
+  return team.tokenBalance
+}
+
+/**
+ * Add (or with a negative delta, remove) tokens from a player's balance,
+ * or from their team's pool in team games
+ */
+export async function adjustTokenBalance(
+  ctx: MutationCtx,
+  player: GamePlayer,
+  delta: number,
+): Promise<void> {
+  if (player.teamId) {
+    const team = await ctx.db.get('gameTeams', player.teamId)
+    if (!team) {
+      throw new Error('Team not found')
+    }
+    await ctx.db.patch('gameTeams', team._id, {
+      tokenBalance: team.tokenBalance + delta,
+    })
+    return
+  }
+
+  // Re-read so repeated adjustments within a mutation don't clobber each other
+  const current = await ctx.db.get('gamePlayers', player._id)
+  if (!current) {
+    throw new Error('Player not found')
+  }
+  await ctx.db.patch('gamePlayers', current._id, {
+    tokenBalance: current.tokenBalance + delta,
+  })
+}
+
+// ===========================================
+// Team setup helpers
+// ===========================================
+
+/**
+ * Create the teams for a new team game
+ */
+export async function createTeams(
+  ctx: MutationCtx,
+  gameId: Id<'games'>,
+  names: Array<string>,
+  startingTokens: number,
+): Promise<Array<Id<'gameTeams'>>> {
+  const teamIds: Array<Id<'gameTeams'>> = []
+  for (let i = 0; i < names.length; i++) {
+    const teamId = await ctx.db.insert('gameTeams', {
+      gameId,
+      teamIndex: i,
+      name: names[i],
+      tokenBalance: startingTokens,
+      turnsTaken: 0,
+    })
+    teamIds.push(teamId)
+  }
+  return teamIds
+}
+
+/**
+ * Pick the team a new seat should join: the one with the fewest members
+ * (ties go to the earlier team). Returns undefined for individual games.
+ */
+export async function pickTeamForNewSeat(
+  ctx: QueryCtx,
+  game: Game,
+): Promise<Id<'gameTeams'> | undefined> {
+  if (!hasTeams(game)) {
+    return undefined
+  }
+
+  const teams = await getGameTeams(ctx, game._id)
+  const players = await ctx.db
+    .query('gamePlayers')
+    .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+    .collect()
+
+  let bestTeam: GameTeam | undefined
+  let bestCount = Infinity
+  for (const team of teams) {
+    const count = players.filter((p) => p.teamId === team._id).length
+    if (count < bestCount) {
+      bestTeam = team
+      bestCount = count
+    }
+  }
+
+  return bestTeam?._id
+}
+
+// ===========================================
+// Turn rotation
+// ===========================================
+
+/**
+ * Take the next turn for a team: returns the member whose turn it is to hold
+ * the phone and advances the team's rotation. Members who are away or have
+ * left are passed over. Returns null if the team has nobody present.
+ */
+export async function takeTeamTurn(
+  ctx: MutationCtx,
+  team: GameTeam,
+  players: Array<GamePlayer>,
+): Promise<GamePlayer | null> {
+  const members = players
+    .filter((p) => p.teamId === team._id && !p.status)
+    .sort((a, b) => a.seatIndex - b.seatIndex)
+
+  if (members.length === 0) {
+    return null
+  }
+
+  const member = members[team.turnsTaken % members.length]
+  await ctx.db.patch('gameTeams', team._id, {
+    turnsTaken: team.turnsTaken + 1,
+  })
+  return member
+}
+
+/**
+ * Get the seat index of the next player in a team game:
+ * turns rotate across teams, and within each team across its members
+ */
+export async function advanceTeamTurn(
+  ctx: MutationCtx,
+  game: Game,
+  players: Array<GamePlayer>,
+): Promise<number> {
+  const teams = await getGameTeams(ctx, game._id)
+  if (teams.length === 0) {
+    throw new Error('Team game has no teams')
+  }
+
+  const currentPlayer = players.find(
+    (p) => p.seatIndex === game.currentTurnSeatIndex,
+  )
+  const currentTeamPosition = teams.findIndex(
+    (t) => t._id === currentPlayer?.teamId,
+  )
+
+  // Walk the teams in order, skipping any with nobody present
+  for (let offset = 1; offset <= teams.length; offset++) {
+    const team = teams[(currentTeamPosition + offset) % teams.length]
+    const member = await takeTeamTurn(ctx, team, players)
+    if (member) {
+      return member.seatIndex
+    }
+  }
+
+  throw new Error('No team has any players')
+}
+
+// ===========================================
+// Lobby Mutations
+// ===========================================
+
+/**
+ * Verify the caller is the host of a team game that is still in the lobby
+ */
+async function verifyHostCanEditTeams(
+  ctx: MutationCtx,
+  gameId: Id<'games'>,
+): Promise<Game> {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new Error('Not authenticated')
+  }
+
+  const game = await getLiveGame(ctx, gameId)
+
+  if (game.hostUserId !== identity.subject) {
+    throw new Error('Only the host can change teams')
+  }
+
+  if (game.playStyle !== 'teams') {
+    throw new Error('This game is not played in teams')
+  }
+
+  if (game.phase !== 'lobby') {
+    throw new Error('Can only change teams in lobby phase')
+  }
+
+  return game
+}
+
+/**
+ * Move a player to a different team (host only, in lobby phase)
+ */
+export const setPlayerTeam = mutation({
+  args: {
+    playerId: v.id('gamePlayers'),
+    teamId: v.id('gameTeams'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const player = await ctx.db.get('gamePlayers', args.playerId)
+    if (!player) {
+      throw new Error('Player not found')
+    }
+
+    await verifyHostCanEditTeams(ctx, player.gameId)
+
+    const team = await ctx.db.get('gameTeams', args.teamId)
+    if (!team || team.gameId !== player.gameId) {
+      throw new Error('Team not found')
+    }
+
+    await ctx.db.patch('gamePlayers', player._id, { teamId: team._id })
+
+    return null
+  },
+})
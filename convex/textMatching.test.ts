@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { guessMatches, normalizeString, stringsSimilar } from './textMatching'
+
+describe('normalizeString', () => {
+  it('strips accents, punctuation and a leading "the"', () => {
+    expect(normalizeString('The Beatles')).toBe('beatles')
+    expect(normalizeString('Beyoncé')).toBe('beyonce')
+    expect(normalizeString('AC/DC')).toBe('acdc')
+  })
+
+  it('drops version, bracketed and featuring suffixes', () => {
+    expect(normalizeString('Hey Jude - Remastered 2015')).toBe('hey jude')
+    expect(normalizeString('Crazy In Love (feat. Jay-Z)')).toBe('crazy in love')
+    expect(normalizeString('Stay ft. Justin Bieber')).toBe('stay')
+  })
+
+  it('treats "&" and "and" the same', () => {
+    expect(normalizeString('Simon & Garfunkel')).toBe(
+      normalizeString('Simon and Garfunkel'),
+    )
+  })
+})
+
+describe('stringsSimilar', () => {
+  it('never matches empty strings', () => {
+    expect(stringsSimilar('', '')).toBe(false)
+    expect(stringsSimilar('', 'hey jude')).toBe(false)
+  })
+
+  it('matches identical strings', () => {
+    expect(stringsSimilar('hey jude', 'hey jude')).toBe(true)
+  })
+
+  it('matches a contained string covering at least half the other', () => {
+    expect(stringsSimilar('hey jude', 'hey jude reprise')).toBe(true)
+    expect(stringsSimilar('hey jude reprise', 'hey jude')).toBe(true)
+  })
+
+  it('rejects a contained string covering less than half the other', () => {
+    expect(stringsSimilar('love', 'love me do')).toBe(false)
+    expect(stringsSimilar('yesterday', 'yesterday once more')).toBe(false)
+  })
+
+  it('tolerates about one typo per five characters', () => {
+    expect(stringsSimilar('bohemian rapsody', 'bohemian rhapsody')).toBe(true)
+    expect(stringsSimilar('wondrwal', 'wonderwall')).toBe(true)
+    expect(stringsSimilar('wndrwl', 'wonderwall')).toBe(false)
+  })
+
+  it('rejects short strings that differ in every letter', () => {
+    expect(stringsSimilar('abcde', 'vwxyz')).toBe(false)
+  })
+
+  it('matches when enough words are shared in any order', () => {
+    expect(
+      stringsSimilar('one two three four five', 'five four three two one'),
+    ).toBe(true)
+  })
+})
+
+describe('guessMatches', () => {
+  it('normalizes both the guess and the candidates', () => {
+    expect(guessMatches('beatles', ['The Beatles'])).toBe(true)
+    expect(guessMatches('Hey Jude!', ['Hey Jude - Remastered 2015'])).toBe(true)
+    expect(guessMatches('simon and garfunkel', ['Simon & Garfunkel'])).toBe(
+      true,
+    )
+  })
+
+  it('matches any of the candidates', () => {
+    expect(guessMatches('jay z', ['Beyoncé', 'Jay-Z'])).toBe(true)
+  })
+
+  it('rejects unrelated and empty guesses', () => {
+    expect(guessMatches('help', ['Let It Be'])).toBe(false)
+    expect(guessMatches('', ['Let It Be'])).toBe(false)
+    expect(guessMatches('let it be', [])).toBe(false)
+  })
+})
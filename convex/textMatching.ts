@@ -0,0 +1,91 @@
+// ===========================================
+// Fuzzy text matching
+// ===========================================
+// Shared by playlist import (matching catalog search results) and
+// song guessing (matching typed title/artist guesses).
+
+// Version suffixes that don't change which song it is
+const VERSION_SUFFIX_PATTERN =
+  /\s+-\s+.*\b(remaster(ed)?|live|version|edit|mix|mono|stereo|demo|acoustic)\b.*$/i
+
+/**
+ * Normalize a string for comparison
+ * - Strips accents, punctuation and bracketed/featuring suffixes
+ * - Drops version suffixes like " - Remastered 2011"
+ * - Treats "&" and "and" the same, and ignores a leading "the"
+ */
+export function normalizeString(str: string): string {
+  return str
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .toLowerCase()
+    .replace(VERSION_SUFFIX_PATTERN, '')
+    .replace(/\s*[([].*?[)\]]/g, '') // Remove (feat. ...), [Remastered], etc.
+    .replace(/\s+(feat|ft|featuring)\.?\s.*$/, '') // Remove trailing featuring
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, '') // Remove punctuation
+    .replace(/\s+/g, ' ') // Normalize whitespace
+    .trim()
+    .replace(/^the /, '')
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Check if two normalized strings are similar enough
+ * - Empty strings never match
+ * - One containing the other only counts if it covers most of it,
+ *   so a single word can't match a long title
+ * - Small typos are tolerated (about one edit per five characters)
+ * - Otherwise at least 80% of words must match
+ */
+export function stringsSimilar(a: string, b: string): boolean {
+  if (!a || !b) return false
+
+  // Exact match
+  if (a === b) return true
+
+  // One contains the other
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+  if (longer.includes(shorter) && shorter.length / longer.length >= 0.5) {
+    return true
+  }
+
+  // Close spelling
+  if (editDistance(a, b) <= Math.floor(longer.length / 5)) return true
+
+  // Check if at least 80% of words match
+  const wordsA = new Set(a.split(' '))
+  const wordsB = new Set(b.split(' '))
+  const intersection = [...wordsA].filter((w) => wordsB.has(w))
+  const matchRatio = intersection.length / Math.max(wordsA.size, wordsB.size)
+
+  return matchRatio >= 0.8
+}
+
+/**
+ * Check a raw guess against any of the raw candidate strings
+ */
+export function guessMatches(
+  guess: string,
+  candidates: Array<string>,
+): boolean {
+  const normalizedGuess = normalizeString(guess)
+  return candidates.some((candidate) =>
+    stringsSimilar(normalizedGuess, normalizeString(candidate)),
+  )
+}
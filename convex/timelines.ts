@@ -1,6 +1,55 @@
 import { v } from 'convex/values'
 import { query } from './_generated/server'
+import { findLiveGame } from './gameDeletion'
+import { isSpectator } from './spectators'
+import {
+  getGameTeams,
+  getTimelineEntries,
+  hasTeams,
+  timelineOwnerOf,
+} from './teams'
 import type { Id } from './_generated/dataModel'
+import type { QueryCtx } from './_generated/server'
+import type { TimelineOwner } from './teams'
+
+type TimelineCard = {
+  _id: Id<'gameCards'>
+  position: number
+  title: string
+  artistNames: Array<string>
+  releaseYear: number
+  imageUrl?: string
+}
+
+/**
+ * Fetch a timeline's cards with their track details, in order
+ */
+async function getTimelineCards(
+  ctx: QueryCtx,
+  owner: TimelineOwner,
+): Promise<Array<TimelineCard>> {
+  const entries = await getTimelineEntries(ctx, owner)
+
+  const cards: Array<TimelineCard> = []
+  for (const entry of entries) {
+    const card = await ctx.db.get("gameCards", entry.cardId)
+    if (!card) continue
+
+    const track = await ctx.db.get("playlistTracks", card.trackId)
+    if (!track) continue
+
+    cards.push({
+      _id: card._id,
+      position: entry.position,
+      title: track.title,
+      artistNames: track.artistNames,
+      releaseYear: track.releaseYear!,
+      imageUrl: track.imageUrl,
+    })
+  }
+
+  return cards
+}
 
 // ===========================================
 // Timeline Queries
@@ -8,6 +57,7 @@ import type { Id } from './_generated/dataModel'
 
 /**
  * Get a single player's timeline with card details
+ * (their team's shared timeline in team games)
  */
 export const getPlayerTimeline = query({
   args: {
@@ -42,7 +92,7 @@ export const getPlayerTimeline = query({
     }
 
     // Verify access to this game
-    const game = await ctx.db.get("games", player.gameId)
+    const game = await findLiveGame(ctx, player.gameId)
     if (!game) {
       return null
     }
@@ -60,45 +110,15 @@ export const getPlayerTimeline = query({
         )
         .first()
 
-      if (!callerSeat) {
+      if (
+        !callerSeat &&
+        !(await isSpectator(ctx, player.gameId, identity.subject))
+      ) {
         return null
       }
     }
 
-    // Get timeline entries
-    const entries = await ctx.db
-      .query('timelineEntries')
-      .withIndex('by_playerId', (q) => q.eq('playerId', args.playerId))
-      .collect()
-
-    entries.sort((a, b) => a.position - b.position)
-
-    // Fetch card and track details
-    const cards: Array<{
-      _id: Id<'gameCards'>
-      position: number
-      title: string
-      artistNames: Array<string>
-      releaseYear: number
-      imageUrl?: string
-    }> = []
-
-    for (const entry of entries) {
-      const card = await ctx.db.get("gameCards", entry.cardId)
-      if (!card) continue
-
-      const track = await ctx.db.get("playlistTracks", card.trackId)
-      if (!track) continue
-
-      cards.push({
-        _id: card._id,
-        position: entry.position,
-        title: track.title,
-        artistNames: track.artistNames,
-        releaseYear: track.releaseYear!,
-        imageUrl: track.imageUrl,
-      })
-    }
+    const cards = await getTimelineCards(ctx, timelineOwnerOf(player))
 
     return {
       playerId: player._id,
@@ -109,7 +129,7 @@ export const getPlayerTimeline = query({
 })
 
 /**
- * Get all player timelines for a game
+ * Get all timelines for a game: one per player, or one per team in team games
  */
 export const getAllTimelines = query({
   args: {
@@ -118,9 +138,11 @@ export const getAllTimelines = query({
   returns: v.union(
     v.array(
       v.object({
-        playerId: v.id('gamePlayers'),
+        playerId: v.optional(v.id('gamePlayers')), // Individual games
+        teamId: v.optional(v.id('gameTeams')), // Team games
+        memberIds: v.array(v.id('gamePlayers')), // Players sharing this timeline
         displayName: v.string(),
-        seatIndex: v.number(),
+        seatIndex: v.number(), // Team index in team games
         tokenBalance: v.number(),
         isCurrentUser: v.boolean(),
         cards: v.array(
@@ -143,7 +165,7 @@ export const getAllTimelines = query({
       return null
     }
 
-    const game = await ctx.db.get("games", args.gameId)
+    const game = await findLiveGame(ctx, args.gameId)
     if (!game) {
       return null
     }
@@ -164,7 +186,11 @@ export const getAllTimelines = query({
       }
     }
 
-    if (!isHost && !isPlayer) {
+    if (
+      !isHost &&
+      !isPlayer &&
+      !(await isSpectator(ctx, args.gameId, identity.subject))
+    ) {
       return null
     }
 
@@ -172,65 +198,45 @@ export const getAllTimelines = query({
     allPlayers.sort((a, b) => a.seatIndex - b.seatIndex)
 
     const result: Array<{
-      playerId: Id<'gamePlayers'>
+      playerId?: Id<'gamePlayers'>
+      teamId?: Id<'gameTeams'>
+      memberIds: Array<Id<'gamePlayers'>>
       displayName: string
       seatIndex: number
       tokenBalance: number
       isCurrentUser: boolean
-      cards: Array<{
-        _id: Id<'gameCards'>
-        position: number
-        title: string
-        artistNames: Array<string>
-        releaseYear: number
-        imageUrl?: string
-      }>
+      cards: Array<TimelineCard>
     }> = []
 
-    for (const player of allPlayers) {
-      // Get timeline entries
-      const entries = await ctx.db
-        .query('timelineEntries')
-        .withIndex('by_playerId', (q) => q.eq('playerId', player._id))
-        .collect()
-
-      entries.sort((a, b) => a.position - b.position)
-
-      // Fetch card and track details
-      const cards: Array<{
-        _id: Id<'gameCards'>
-        position: number
-        title: string
-        artistNames: Array<string>
-        releaseYear: number
-        imageUrl?: string
-      }> = []
-
-      for (const entry of entries) {
-        const card = await ctx.db.get("gameCards", entry.cardId)
-        if (!card) continue
-
-        const track = await ctx.db.get("playlistTracks", card.trackId)
-        if (!track) continue
-
-        cards.push({
-          _id: card._id,
-          position: entry.position,
-          title: track.title,
-          artistNames: track.artistNames,
-          releaseYear: track.releaseYear!,
-          imageUrl: track.imageUrl,
+    if (hasTeams(game)) {
+      const teams = await getGameTeams(ctx, args.gameId)
+      for (const team of teams) {
+        const members = allPlayers.filter((p) => p.teamId === team._id)
+        result.push({
+          teamId: team._id,
+          memberIds: members.map((p) => p._id),
+          displayName: team.name,
+          seatIndex: team.teamIndex,
+          tokenBalance: team.tokenBalance,
+          isCurrentUser: members.some(
+            (p) => p.kind === 'user' && p.userId === identity.subject,
+          ),
+          cards: await getTimelineCards(ctx, { teamId: team._id }),
         })
       }
+      return result
+    }
 
+    for (const player of allPlayers) {
       result.push({
         playerId: player._id,
+        memberIds: [player._id],
         displayName: player.displayName,
         seatIndex: player.seatIndex,
         tokenBalance: player.tokenBalance,
         isCurrentUser:
           player.kind === 'user' && player.userId === identity.subject,
-        cards,
+        cards: await getTimelineCards(ctx, { playerId: player._id }),
       })
     }
 
@@ -241,7 +247,7 @@ export const getAllTimelines = query({
 /**
  * Get the current round's song preview for playback
  * Available during awaitingPlacement, awaitingReveal phases (for active player to listen)
- * Does NOT reveal title/artist/year until revealed phase
+ * Does NOT reveal title/artist/year (or the Apple Music ID) until revealed phase
  */
 export const getCurrentRoundSongPreview = query({
   args: {
@@ -260,7 +266,7 @@ export const getCurrentRoundSongPreview = query({
       return null
     }
 
-    const game = await ctx.db.get("games", args.gameId)
+    const game = await findLiveGame(ctx, args.gameId)
     if (!game) {
       return null
     }
@@ -288,7 +294,10 @@ export const getCurrentRoundSongPreview = query({
         )
         .first()
 
-      if (!playerSeat) {
+      if (
+        !playerSeat &&
+        !(await isSpectator(ctx, args.gameId, identity.subject))
+      ) {
         return null
       }
     }
@@ -305,7 +314,9 @@ export const getCurrentRoundSongPreview = query({
 
     return {
       previewUrl: track.previewUrl,
-      appleMusicId: track.appleMusicId,
+      // Links to the song give away its title and artist, so they wait for
+      // guesses to close
+      appleMusicId: game.phase === 'revealed' ? track.appleMusicId : undefined,
     }
   },
 })
@@ -336,7 +347,7 @@ export const getCurrentRoundCard = query({
       return null
     }
 
-    const game = await ctx.db.get("games", args.gameId)
+    const game = await findLiveGame(ctx, args.gameId)
     if (!game) {
       return null
     }
@@ -360,7 +371,10 @@ export const getCurrentRoundCard = query({
         )
         .first()
 
-      if (!playerSeat) {
+      if (
+        !playerSeat &&
+        !(await isSpectator(ctx, args.gameId, identity.subject))
+      ) {
         return null
       }
     }
@@ -0,0 +1,44 @@
+import type { Doc, Id } from './_generated/dataModel'
+import type { MutationCtx } from './_generated/server'
+
+// Placements needed before a song's difficulty is shown, so one unlucky
+// guess doesn't make it look impossible
+const MIN_PLACEMENTS_FOR_DIFFICULTY = 3
+
+/**
+ * Count one placement of a song towards its difficulty
+ */
+export async function recordTrackPlacement(
+  ctx: MutationCtx,
+  trackId: Id<'playlistTracks'>,
+  placementCorrect: boolean,
+): Promise<void> {
+  // The track may have been removed from its playlist mid-game
+  const track = await ctx.db.get('playlistTracks', trackId)
+  if (!track) {
+    return
+  }
+
+  await ctx.db.patch('playlistTracks', track._id, {
+    placementsMade: (track.placementsMade ?? 0) + 1,
+    placementsCorrect:
+      (track.placementsCorrect ?? 0) + (placementCorrect ? 1 : 0),
+  })
+}
+
+/**
+ * Get a song's difficulty: the percentage of placements players got wrong.
+ * Undefined until it has been placed often enough to judge.
+ */
+export function getTrackDifficulty(
+  track: Doc<'playlistTracks'>,
+): number | undefined {
+  const placementsMade = track.placementsMade ?? 0
+  if (placementsMade < MIN_PLACEMENTS_FOR_DIFFICULTY) {
+    return undefined
+  }
+  const placementsCorrect = track.placementsCorrect ?? 0
+  return Math.round(
+    ((placementsMade - placementsCorrect) / placementsMade) * 100,
+  )
+}
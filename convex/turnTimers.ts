@@ -0,0 +1,170 @@
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import type { MutationCtx } from './_generated/server'
+
+type Game = Doc<'games'>
+
+// Phases that can have a time limit
+export type TimedPhase = 'awaitingPlacement' | 'awaitingReveal' | 'revealed'
+
+/**
+ * Get the configured time limit for a phase, in seconds
+ */
+function getPhaseLimitSeconds(
+  game: Game,
+  phase: TimedPhase,
+): number | undefined {
+  const timers = game.turnTimers
+  if (!timers) return undefined
+
+  switch (phase) {
+    case 'awaitingPlacement':
+      return timers.placementSeconds
+    case 'awaitingReveal':
+      return timers.bettingSeconds
+    case 'revealed':
+      return timers.revealSeconds
+  }
+}
+
+/**
+ * Cancel the game's pending phase timer, if any
+ */
+export async function cancelPhaseTimer(
+  ctx: MutationCtx,
+  game: Game,
+): Promise<void> {
+  if (!game.phaseTimer) return
+
+  const job = await ctx.db.system.get(
+    '_scheduled_functions',
+    game.phaseTimer.jobId,
+  )
+  if (job && job.state.kind === 'pending') {
+    await ctx.scheduler.cancel(game.phaseTimer.jobId)
+  }
+}
+
+/**
+ * Cancel any pending timer and schedule a new one for the phase being entered.
+ * Returns the value to store in `games.phaseTimer` (undefined when the phase
+ * has no limit, which clears the field on patch).
+ */
+export async function restartPhaseTimer(
+  ctx: MutationCtx,
+  game: Game,
+  phase: TimedPhase,
+  cardId: Id<'gameCards'>,
+): Promise<Game['phaseTimer']> {
+  await cancelPhaseTimer(ctx, game)
+
+  const limitSeconds = getPhaseLimitSeconds(game, phase)
+  if (!limitSeconds || limitSeconds <= 0) {
+    return undefined
+  }
+
+  const delayMs = limitSeconds * 1000
+  const jobId = await ctx.scheduler.runAfter(
+    delayMs,
+    internal.turns.expirePhaseTimer,
+    { gameId: game._id, phase, cardId },
+  )
+
+  return { deadline: Date.now() + delayMs, jobId }
+}
+
+/**
+ * Reschedule a paused game's phase timer with the time that was left when it
+ * was paused. Returns the value to store in `games.phaseTimer`.
+ */
+export async function resumePhaseTimer(
+  ctx: MutationCtx,
+  game: Game,
+  pausedAt: number,
+): Promise<Game['phaseTimer']> {
+  const { phaseTimer, currentRound, phase } = game
+  if (
+    !phaseTimer ||
+    !currentRound ||
+    phase === 'lobby' ||
+    phase === 'finished'
+  ) {
+    return undefined
+  }
+
+  const remainingMs = Math.max(0, phaseTimer.deadline - pausedAt)
+  const jobId = await ctx.scheduler.runAfter(
+    remainingMs,
+    internal.turns.expirePhaseTimer,
+    { gameId: game._id, phase, cardId: currentRound.cardId },
+  )
+
+  return { deadline: Date.now() + remainingMs, jobId }
+}
+
+// ===========================================
+// Time limit helpers
+// ===========================================
+
+/**
+ * Start the clock on a time-limited game. Returns the value to store in
+ * `games.timeLimitTimer` (undefined for games without a time limit).
+ */
+export async function startTimeLimit(
+  ctx: MutationCtx,
+  game: Game,
+): Promise<Game['timeLimitTimer']> {
+  if (game.limit?.kind !== 'time') {
+    return undefined
+  }
+
+  const delayMs = game.limit.minutes * 60 * 1000
+  const jobId = await ctx.scheduler.runAfter(
+    delayMs,
+    internal.turns.expireTimeLimit,
+    { gameId: game._id },
+  )
+
+  return { deadline: Date.now() + delayMs, jobId }
+}
+
+/**
+ * Stop a time-limited game's clock, if it is running
+ */
+export async function cancelTimeLimit(
+  ctx: MutationCtx,
+  game: Game,
+): Promise<void> {
+  if (!game.timeLimitTimer) return
+
+  const job = await ctx.db.system.get(
+    '_scheduled_functions',
+    game.timeLimitTimer.jobId,
+  )
+  if (job && job.state.kind === 'pending') {
+    await ctx.scheduler.cancel(game.timeLimitTimer.jobId)
+  }
+}
+
+/**
+ * Restart a paused game's clock with the time that was left when it was
+ * paused. Returns the value to store in `games.timeLimitTimer`.
+ */
+export async function resumeTimeLimit(
+  ctx: MutationCtx,
+  game: Game,
+  pausedAt: number,
+): Promise<Game['timeLimitTimer']> {
+  if (!game.timeLimitTimer) {
+    return undefined
+  }
+
+  const remainingMs = Math.max(0, game.timeLimitTimer.deadline - pausedAt)
+  const jobId = await ctx.scheduler.runAfter(
+    remainingMs,
+    internal.turns.expireTimeLimit,
+    { gameId: game._id },
+  )
+
+  return { deadline: Date.now() + remainingMs, jobId }
+}
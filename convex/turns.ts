@@ -1,7 +1,33 @@
 import { v } from 'convex/values'
-import { mutation } from './_generated/server'
+import { internal } from './_generated/api'
+import { internalMutation, mutation } from './_generated/server'
+import { getLiveGame } from './gameDeletion'
+import { recordGameEvent } from './gameEvents'
+import {
+  computeValidInsertionIndices,
+  findCorrectInsertionIndex,
+} from './placement'
+import { getGameRules } from './rules'
+import { getSoleLeader, rankTimelines } from './standings'
+import {
+  adjustTokenBalance,
+  advanceTeamTurn,
+  getGameTeams,
+  getTimelineEntries,
+  getTokenBalance,
+  hasTeams,
+  timelineOwnerOf,
+} from './teams'
+import { guessMatches } from './textMatching'
+import { recordTrackPlacement } from './trackDifficulty'
+import {
+  cancelPhaseTimer,
+  cancelTimeLimit,
+  restartPhaseTimer,
+} from './turnTimers'
 import type { Doc, Id } from './_generated/dataModel'
 import type { MutationCtx } from './_generated/server'
+import type { TimelineOwner } from './teams'
 
 // ===========================================
 // Types
@@ -11,6 +37,18 @@ type GamePlayer = Doc<'gamePlayers'>
 type Game = Doc<'games'>
 type GameCard = Doc<'gameCards'>
 type TimelineEntry = Doc<'timelineEntries'>
+type CurrentRound = NonNullable<Game['currentRound']>
+type Guess = NonNullable<CurrentRound['guesses']>[0]
+
+type RoundResolution = {
+  placementCorrect: boolean
+  yearCorrect?: boolean // Only when the rules require an exact year
+  songCorrect?: boolean // Only when the rules require the title and artist
+  cardWentTo: 'activePlayer' | 'bettor' | 'discard'
+  winningBettorId?: Id<'gamePlayers'>
+  winnerId?: Id<'gamePlayers'>
+  winningTeamId?: Id<'gameTeams'>
+}
 
 // ===========================================
 // Authorization helpers
@@ -20,6 +58,9 @@ type TimelineEntry = Doc<'timelineEntries'>
  * Verify the caller can act for the given player seat
  * - For kind:"user" -> caller's userId must match the seat's userId
  * - For kind:"local" -> caller must be the game host
+ *
+ * A claimed local seat becomes kind:"user", so only its claimer can act for it.
+ * Nobody can act for a seat whose player has left.
  */
 async function verifyCanActForPlayer(
   ctx: MutationCtx,
@@ -31,6 +72,10 @@ async function verifyCanActForPlayer(
     throw new Error('Not authenticated')
   }
 
+  if (player.status === 'left') {
+    throw new Error(`${player.displayName} has left the game`)
+  }
+
   if (player.kind === 'user') {
     if (player.userId !== identity.subject) {
       throw new Error('You cannot act for this player')
@@ -43,23 +88,27 @@ async function verifyCanActForPlayer(
   }
 }
 
+/**
+ * Reject turn actions while the host has the game paused
+ */
+function verifyCanTakeTurns(game: Game): void {
+  if (game.pausedAt !== undefined) {
+    throw new Error('The game is paused')
+  }
+}
+
 // ===========================================
 // Timeline helpers
 // ===========================================
 
 /**
- * Get a player's timeline cards in order, with their release years
+ * Get a player's (or team's) timeline cards in order, with their release years
  */
-async function getPlayerTimeline(
+async function getOwnerTimeline(
   ctx: MutationCtx,
-  playerId: Id<'gamePlayers'>,
+  owner: TimelineOwner,
 ): Promise<Array<{ entry: TimelineEntry; card: GameCard }>> {
-  const entries = await ctx.db
-    .query('timelineEntries')
-    .withIndex('by_playerId', (q) => q.eq('playerId', playerId))
-    .collect()
-
-  entries.sort((a, b) => a.position - b.position)
+  const entries = await getTimelineEntries(ctx, owner)
 
   const result: Array<{ entry: TimelineEntry; card: GameCard }> = []
   for (const entry of entries) {
@@ -73,76 +122,17 @@ async function getPlayerTimeline(
 }
 
 /**
- * Compute valid insertion indices for a card with the given year.
- * Returns all valid indices where the card can be placed.
- *
- * Rules:
- * - Timeline is sorted by release year (ascending)
- * - A card can go before any card with year >= its year
- * - A card can go after any card with year <= its year
- * - If years are equal, adjacent placement is valid
- */
-function computeValidInsertionIndices(
-  timeline: Array<{ releaseYear: number }>,
-  newCardYear: number,
-): Array<number> {
-  const validIndices: Array<number> = []
-
-  // Check each possible insertion point (0 to timeline.length inclusive)
-  for (let i = 0; i <= timeline.length; i++) {
-    const yearBefore = i > 0 ? timeline[i - 1].releaseYear : -Infinity
-    const yearAfter = i < timeline.length ? timeline[i].releaseYear : Infinity
-
-    // Valid if: yearBefore <= newCardYear <= yearAfter
-    if (yearBefore <= newCardYear && newCardYear <= yearAfter) {
-      validIndices.push(i)
-    }
-  }
-
-  return validIndices
-}
-
-/**
- * Find the correct insertion index for a card (for auto-placement)
- * Uses binary search to find the right position
- */
-function findCorrectInsertionIndex(
-  timeline: Array<{ releaseYear: number }>,
-  newCardYear: number,
-): number {
-  // Find the first position where the card fits
-  let low = 0
-  let high = timeline.length
-
-  while (low < high) {
-    const mid = Math.floor((low + high) / 2)
-    if (timeline[mid].releaseYear <= newCardYear) {
-      low = mid + 1
-    } else {
-      high = mid
-    }
-  }
-
-  return low
-}
-
-/**
- * Insert a card into a player's timeline at the given position
+ * Insert a card into a player's (or team's) timeline at the given position
  */
 async function insertCardIntoTimeline(
   ctx: MutationCtx,
   gameId: Id<'games'>,
-  playerId: Id<'gamePlayers'>,
+  owner: TimelineOwner,
   cardId: Id<'gameCards'>,
   insertIndex: number,
 ): Promise<void> {
   // Get current timeline
-  const entries = await ctx.db
-    .query('timelineEntries')
-    .withIndex('by_playerId', (q) => q.eq('playerId', playerId))
-    .collect()
-
-  entries.sort((a, b) => a.position - b.position)
+  const entries = await getTimelineEntries(ctx, owner)
 
   // Shift entries at and after insertIndex
   for (const entry of entries) {
@@ -156,7 +146,8 @@ async function insertCardIntoTimeline(
   // Insert the new entry
   await ctx.db.insert('timelineEntries', {
     gameId,
-    playerId,
+    playerId: owner.playerId,
+    teamId: owner.teamId,
     cardId,
     position: insertIndex,
   })
@@ -164,7 +155,8 @@ async function insertCardIntoTimeline(
   // Update card state
   await ctx.db.patch('gameCards', cardId, {
     state: 'timeline',
-    ownerPlayerId: playerId,
+    ownerPlayerId: owner.playerId,
+    ownerTeamId: owner.teamId,
     deckOrder: undefined,
   })
 }
@@ -173,7 +165,7 @@ async function insertCardIntoTimeline(
  * Draw the next card from the deck
  * Cards are drawn in ascending deckOrder to maintain deterministic shuffling
  */
-async function drawNextCard(
+export async function drawNextCard(
   ctx: MutationCtx,
   gameId: Id<'games'>,
 ): Promise<GameCard | null> {
@@ -202,7 +194,8 @@ async function drawNextCard(
 }
 
 /**
- * Advance to the next player's turn
+ * Advance to the next player's turn, skipping seats that are away or have
+ * left (in team games, to the next present member of the next team)
  */
 async function advanceTurn(ctx: MutationCtx, game: Game): Promise<number> {
   const players = await ctx.db
@@ -210,201 +203,1027 @@ async function advanceTurn(ctx: MutationCtx, game: Game): Promise<number> {
     .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
     .collect()
 
-  const nextSeatIndex = (game.currentTurnSeatIndex + 1) % players.length
-  return nextSeatIndex
+  if (hasTeams(game)) {
+    return advanceTeamTurn(ctx, game, players)
+  }
+
+  for (let offset = 1; offset <= players.length; offset++) {
+    const seatIndex = (game.currentTurnSeatIndex + offset) % players.length
+    if (players.some((p) => p.seatIndex === seatIndex && !p.status)) {
+      return seatIndex
+    }
+  }
+
+  // Nobody is present: keep the rotation moving rather than stalling
+  return (game.currentTurnSeatIndex + 1) % players.length
+}
+
+/**
+ * Whether passing the turn to the given seat starts a new round around the
+ * table (in team games, passes it back to the first team)
+ */
+async function isNewRound(
+  ctx: MutationCtx,
+  game: Game,
+  nextSeatIndex: number,
+): Promise<boolean> {
+  if (!hasTeams(game)) {
+    return nextSeatIndex <= game.currentTurnSeatIndex
+  }
+
+  const teamIndexAt = async (seatIndex: number) => {
+    const player = await ctx.db
+      .query('gamePlayers')
+      .withIndex('by_gameId_and_seatIndex', (q) =>
+        q.eq('gameId', game._id).eq('seatIndex', seatIndex),
+      )
+      .unique()
+    const team = player?.teamId
+      ? await ctx.db.get('gameTeams', player.teamId)
+      : null
+    return team?.teamIndex ?? 0
+  }
+  return (
+    (await teamIndexAt(nextSeatIndex)) <=
+    (await teamIndexAt(game.currentTurnSeatIndex))
+  )
 }
 
 // ===========================================
-// Turn Mutations
+// Round lifecycle helpers
 // ===========================================
 
 /**
- * Skip the current round (costs 1 token)
- * Discards current card and draws a new one
+ * Find the first player (or team) whose timeline reached the win condition
  */
-export const skipRound = mutation({
-  args: {
-    gameId: v.id('games'),
-    actingPlayerId: v.id('gamePlayers'),
-  },
-  returns: v.null(),
-  handler: async (ctx, args) => {
-    const game = await ctx.db.get('games', args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
-    }
+async function findWinner(
+  ctx: MutationCtx,
+  game: Game,
+): Promise<TimelineOwner | undefined> {
+  let owners: Array<TimelineOwner>
+  if (hasTeams(game)) {
+    const teams = await getGameTeams(ctx, game._id)
+    owners = teams.map((t) => ({ teamId: t._id }))
+  } else {
+    const players = await ctx.db
+      .query('gamePlayers')
+      .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+      .collect()
+    owners = players.map((p) => ({ playerId: p._id }))
+  }
 
-    if (!game.useTokens) {
-      throw new Error('Tokens are not enabled for this game')
+  for (const owner of owners) {
+    const entries = await getTimelineEntries(ctx, owner)
+    if (entries.length >= game.winCondition) {
+      return owner
     }
+  }
 
-    if (game.phase !== 'awaitingPlacement') {
-      throw new Error('Cannot skip in current phase')
-    }
+  return undefined
+}
 
-    if (!game.currentRound) {
-      throw new Error('No active round')
-    }
+/**
+ * End the game, clearing the round and any pending timers, and record every
+ * timeline's placing (co-op games have none). When the deck or a round or
+ * time limit ran out, a timeline placed first on its own wins. Players'
+ * stats and ratings are updated in the background.
+ */
+async function finishGame(
+  ctx: MutationCtx,
+  game: Game,
+  round: number,
+  reason: NonNullable<Game['finishReason']>,
+  winner?: TimelineOwner,
+): Promise<void> {
+  await cancelPhaseTimer(ctx, game)
+  await cancelTimeLimit(ctx, game)
+
+  const standings =
+    game.playStyle === 'coop'
+      ? undefined
+      : await rankTimelines(ctx, game, winner)
+  const champion = winner ?? (standings && getSoleLeader(standings))
+
+  await ctx.db.patch('games', game._id, {
+    phase: 'finished',
+    currentRound: undefined,
+    phaseTimer: undefined,
+    timeLimitTimer: undefined,
+    winnerId: champion?.playerId,
+    winningTeamId: champion?.teamId,
+    finishReason: reason,
+    standings,
+    finishedAt: Date.now(),
+  })
 
-    const activePlayer = await ctx.db.get('gamePlayers', args.actingPlayerId)
-    if (
-      !activePlayer ||
-      activePlayer._id !== game.currentRound.activePlayerId
-    ) {
-      throw new Error('Not your turn')
-    }
+  await recordGameEvent(ctx, game._id, round, {
+    type: 'gameFinished',
+    reason,
+    winnerId: champion?.playerId,
+    winningTeamId: champion?.teamId,
+  })
 
-    await verifyCanActForPlayer(ctx, game, activePlayer)
+  await ctx.scheduler.runAfter(0, internal.userStats.recordGameStats, {
+    gameId: game._id,
+  })
+  await ctx.scheduler.runAfter(0, internal.ratings.recordGameRatings, {
+    gameId: game._id,
+  })
+}
 
-    if (activePlayer.tokenBalance < 1) {
-      throw new Error('Not enough tokens to skip')
+/**
+ * Get the seats with the most timeline cards, in seat order
+ */
+async function findCardLeaders(
+  ctx: MutationCtx,
+  players: Array<GamePlayer>,
+): Promise<{ leaders: Array<GamePlayer>; cardCount: number }> {
+  let leaders: Array<GamePlayer> = []
+  let cardCount = 0
+  for (const player of [...players].sort((a, b) => a.seatIndex - b.seatIndex)) {
+    const count = (await getTimelineEntries(ctx, { playerId: player._id }))
+      .length
+    if (count > cardCount || leaders.length === 0) {
+      leaders = [player]
+      cardCount = count
+    } else if (count === cardCount) {
+      leaders.push(player)
     }
+  }
+  return { leaders, cardCount }
+}
 
-    // Deduct token
-    await ctx.db.patch('gamePlayers', activePlayer._id, {
-      tokenBalance: activePlayer.tokenBalance - 1,
-    })
+/**
+ * Give a seat the turn with a freshly drawn card
+ */
+async function beginRound(
+  ctx: MutationCtx,
+  game: Game,
+  round: number,
+  player: GamePlayer,
+  card: GameCard,
+): Promise<void> {
+  // Update card state to inRound
+  await ctx.db.patch('gameCards', card._id, { state: 'inRound' })
+
+  // Continue to next turn with card already drawn
+  await ctx.db.patch('games', game._id, {
+    phase: 'awaitingPlacement',
+    currentTurnSeatIndex: player.seatIndex,
+    roundNumber: round + 1,
+    currentRound: {
+      cardId: card._id,
+      activePlayerId: player._id,
+      placementIndex: undefined,
+      bets: [],
+      tokenClaimers: [],
+    },
+    phaseTimer: await restartPhaseTimer(
+      ctx,
+      game,
+      'awaitingPlacement',
+      card._id,
+    ),
+  })
 
-    // Discard current card
-    await ctx.db.patch('gameCards', game.currentRound.cardId, {
-      state: 'discarded',
-    })
+  await recordGameEvent(ctx, game._id, round + 1, {
+    type: 'roundStarted',
+    activePlayerId: player._id,
+    cardId: card._id,
+  })
+}
 
-    // Draw new card
-    const newCard = await drawNextCard(ctx, game._id)
-    if (!newCard) {
-      // No more cards - end game
-      await ctx.db.patch('games', args.gameId, {
-        phase: 'finished',
-        finishedAt: Date.now(),
-      })
-      return null
+/**
+ * Play the next sudden-death turn. Once every contender has had a turn,
+ * the one now ahead on cards wins and leaders still level go round again.
+ * If the reserved cards run out first, the standings decide.
+ */
+async function continueSuddenDeath(
+  ctx: MutationCtx,
+  game: Game,
+  suddenDeath: NonNullable<Game['suddenDeath']>,
+  round: number,
+): Promise<void> {
+  // Contenders who left or went away sit the play-off out
+  const getPresent = async (playerIds: Array<Id<'gamePlayers'>>) => {
+    const present: Array<GamePlayer> = []
+    for (const playerId of playerIds) {
+      const player = await ctx.db.get('gamePlayers', playerId)
+      if (player && !player.status) {
+        present.push(player)
+      }
     }
+    return present
+  }
 
-    // Update new card state
-    await ctx.db.patch('gameCards', newCard._id, { state: 'inRound' })
+  let { contenderIds } = suddenDeath
+  let turnsLeft = await getPresent(suddenDeath.turnsLeft)
+  if (turnsLeft.length === 0) {
+    const { leaders } = await findCardLeaders(
+      ctx,
+      await getPresent(contenderIds),
+    )
+    if (leaders.length === 0) {
+      await finishGame(ctx, game, round, 'deckExhausted')
+      return
+    }
+    if (leaders.length === 1) {
+      await finishGame(ctx, game, round, 'suddenDeath', {
+        playerId: leaders[0]._id,
+      })
+      return
+    }
+    contenderIds = leaders.map((p) => p._id)
+    turnsLeft = leaders
+  }
 
-    // Update round with new card (keep same active player, clear bets)
-    await ctx.db.patch('games', args.gameId, {
-      currentRound: {
-        cardId: newCard._id,
-        activePlayerId: activePlayer._id,
-        placementIndex: undefined,
-        bets: [],
-        tokenClaimers: [],
-      },
-    })
+  const card = await drawNextCard(ctx, game._id)
+  if (!card) {
+    await finishGame(ctx, game, round, 'deckExhausted')
+    return
+  }
 
-    return null
-  },
-})
+  const [nextPlayer, ...rest] = turnsLeft
+  await ctx.db.patch('games', game._id, {
+    suddenDeath: { contenderIds, turnsLeft: rest.map((p) => p._id) },
+  })
+  await beginRound(ctx, game, round, nextPlayer, card)
+}
 
 /**
- * Place the current card on the active player's timeline
- * Can also be used during awaitingReveal to reposition before reveal
+ * Handle the deck running out. Individual leaders level on cards play off
+ * with the game's reserved cards, if it has any; otherwise the standings
+ * decide the game.
  */
-export const placeCard = mutation({
-  args: {
-    gameId: v.id('games'),
-    actingPlayerId: v.id('gamePlayers'),
-    insertIndex: v.number(),
-  },
-  returns: v.null(),
-  handler: async (ctx, args) => {
-    const game = await ctx.db.get('games', args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
-    }
+async function handleDeckExhausted(
+  ctx: MutationCtx,
+  game: Game,
+  round: number,
+): Promise<void> {
+  const reservedCards = await ctx.db
+    .query('gameCards')
+    .withIndex('by_gameId_and_state', (q) =>
+      q.eq('gameId', game._id).eq('state', 'reserved'),
+    )
+    .collect()
+  if (game.suddenDeath || hasTeams(game) || reservedCards.length === 0) {
+    await finishGame(ctx, game, round, 'deckExhausted')
+    return
+  }
 
-    // Allow placement during both awaitingPlacement and awaitingReveal (for repositioning)
-    if (game.phase !== 'awaitingPlacement' && game.phase !== 'awaitingReveal') {
-      throw new Error('Cannot place card in current phase')
-    }
+  const players = await ctx.db
+    .query('gamePlayers')
+    .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+    .collect()
+  const { leaders, cardCount } = await findCardLeaders(ctx, players)
+  const contenderIds = leaders.filter((p) => !p.status).map((p) => p._id)
+  if (leaders.length < 2 || contenderIds.length < 2) {
+    await finishGame(ctx, game, round, 'deckExhausted')
+    return
+  }
 
-    if (!game.currentRound) {
-      throw new Error('No active round')
-    }
+  // The reserved cards become the draw pile, keeping their shuffled order
+  for (const card of reservedCards) {
+    await ctx.db.patch('gameCards', card._id, { state: 'deck' })
+  }
 
-    const activePlayer = await ctx.db.get('gamePlayers', args.actingPlayerId)
+  await recordGameEvent(ctx, game._id, round, {
+    type: 'suddenDeathStarted',
+    contenderIds,
+    cardCount,
+  })
+
+  await continueSuddenDeath(
+    ctx,
+    game,
+    { contenderIds, turnsLeft: contenderIds },
+    round,
+  )
+}
+
+/**
+ * Pass the turn to the next seat and draw their card (the next contender's
+ * during sudden death). Handles the deck running out. With `continuesLap`
+ * the turn stays in the current lap even if it wraps back to the first seat.
+ */
+async function startNextRound(
+  ctx: MutationCtx,
+  game: Game,
+  round: number,
+  continuesLap = false,
+): Promise<void> {
+  if (game.suddenDeath) {
+    await continueSuddenDeath(ctx, game, game.suddenDeath, round)
+    return
+  }
+
+  const nextSeatIndex = await advanceTurn(ctx, game)
+
+  // Round and time limits end the game once the table has gone round, so
+  // every seat gets the same number of turns
+  if (
+    game.limit &&
+    !continuesLap &&
+    (await isNewRound(ctx, game, nextSeatIndex))
+  ) {
+    const roundsCompleted = (game.roundsCompleted ?? 0) + 1
     if (
-      !activePlayer ||
-      activePlayer._id !== game.currentRound.activePlayerId
+      game.finalRound ||
+      (game.limit.kind === 'rounds' && roundsCompleted >= game.limit.rounds)
     ) {
-      throw new Error('Not your turn')
+      await finishGame(
+        ctx,
+        game,
+        round,
+        game.limit.kind === 'rounds' ? 'roundLimit' : 'timeLimit',
+      )
+      return
     }
+    await ctx.db.patch('games', game._id, { roundsCompleted })
+  }
 
-    await verifyCanActForPlayer(ctx, game, activePlayer)
+  // Auto-draw next card for the new active player
+  const nextCard = await drawNextCard(ctx, game._id)
 
-    // Validate insert index is within bounds
-    const timeline = await getPlayerTimeline(ctx, activePlayer._id)
-    if (args.insertIndex < 0 || args.insertIndex > timeline.length) {
-      throw new Error('Invalid insertion index')
-    }
+  if (!nextCard) {
+    await handleDeckExhausted(ctx, game, round)
+    return
+  }
 
-    // Store placement and move to reveal phase
-    await ctx.db.patch('games', args.gameId, {
-      phase: 'awaitingReveal',
-      currentRound: {
-        ...game.currentRound,
-        placementIndex: args.insertIndex,
-      },
-    })
+  // Get the next active player
+  const nextPlayer = await ctx.db
+    .query('gamePlayers')
+    .withIndex('by_gameId_and_seatIndex', (q) =>
+      q.eq('gameId', game._id).eq('seatIndex', nextSeatIndex),
+    )
+    .unique()
 
-    return null
-  },
-})
+  if (!nextPlayer) {
+    throw new Error('Next player not found')
+  }
+
+  await beginRound(ctx, game, round, nextPlayer, nextCard)
+}
 
 /**
- * Place a bet that the active player placed the card incorrectly
- * (costs 1 token)
+ * Give a player the guess reward, capped at maxTokens, unless (in team games)
+ * a teammate was already rewarded this round.
+ * Adds the player to `tokenClaimers` and returns the tokens awarded.
  */
-export const placeBet = mutation({
-  args: {
-    gameId: v.id('games'),
-    actingPlayerId: v.id('gamePlayers'),
-    slotIndex: v.number(),
-  },
-  returns: v.null(),
-  handler: async (ctx, args) => {
-    const game = await ctx.db.get('games', args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
-    }
+async function grantGuessToken(
+  ctx: MutationCtx,
+  game: Game,
+  player: GamePlayer,
+  tokenClaimers: Array<Id<'gamePlayers'>>,
+): Promise<number> {
+  if (
+    !game.useTokens ||
+    !game.currentRound ||
+    tokenClaimers.includes(player._id)
+  ) {
+    return 0
+  }
 
-    if (!game.useTokens) {
-      throw new Error('Tokens are not enabled for this game')
+  // Teams share one pool, so only one member earns a token per round
+  if (player.teamId) {
+    for (const claimerId of tokenClaimers) {
+      const claimer = await ctx.db.get('gamePlayers', claimerId)
+      if (claimer?.teamId === player.teamId) {
+        return 0
+      }
     }
+  }
 
-    // Can bet during placement or before reveal
-    if (game.phase !== 'awaitingPlacement' && game.phase !== 'awaitingReveal') {
-      throw new Error('Cannot bet in current phase')
-    }
+  const tokensAwarded = Math.min(
+    getGameRules(game).guessReward,
+    game.maxTokens - (await getTokenBalance(ctx, player)),
+  )
+  if (tokensAwarded <= 0) {
+    return 0
+  }
 
-    if (!game.currentRound) {
-      throw new Error('No active round')
-    }
+  await adjustTokenBalance(ctx, player, tokensAwarded)
+  tokenClaimers.push(player._id)
 
-    const bettorPlayer = await ctx.db.get('gamePlayers', args.actingPlayerId)
-    if (!bettorPlayer) {
-      throw new Error('Player not found')
-    }
+  await recordGameEvent(ctx, game._id, game.roundNumber ?? 1, {
+    type: 'guessTokenClaimed',
+    playerId: player._id,
+    cardId: game.currentRound.cardId,
+    tokensAwarded,
+  })
 
-    await verifyCanActForPlayer(ctx, game, bettorPlayer)
+  return tokensAwarded
+}
 
-    // Cannot bet on your own turn
-    if (bettorPlayer._id === game.currentRound.activePlayerId) {
-      throw new Error('Cannot bet on your own turn')
+/**
+ * Judge every submitted guess against the round's track, in submission
+ * order, and award tokens for the ones that got both title and artist
+ */
+async function judgeGuesses(
+  ctx: MutationCtx,
+  game: Game,
+): Promise<Pick<CurrentRound, 'guesses' | 'tokenClaimers'>> {
+  if (!game.currentRound) {
+    throw new Error('No active round')
+  }
+
+  const tokenClaimers = [...game.currentRound.tokenClaimers]
+  const guesses = [...(game.currentRound.guesses ?? [])].sort(
+    (a, b) => a.submittedAt - b.submittedAt,
+  )
+  if (guesses.length === 0) {
+    return { guesses: game.currentRound.guesses, tokenClaimers }
+  }
+
+  const card = await ctx.db.get('gameCards', game.currentRound.cardId)
+  const track = card ? await ctx.db.get('playlistTracks', card.trackId) : null
+  if (!track) {
+    throw new Error('Track not found')
+  }
+
+  const judged: Array<Guess> = []
+  for (const guess of guesses) {
+    const titleCorrect = guessMatches(guess.title, [track.title])
+    const artistCorrect = guessMatches(guess.artist, track.artistNames)
+    const accepted = titleCorrect && artistCorrect
+
+    const player = await ctx.db.get('gamePlayers', guess.playerId)
+    const tokensAwarded =
+      accepted && player
+        ? await grantGuessToken(ctx, game, player, tokenClaimers)
+        : 0
+
+    judged.push({
+      ...guess,
+      result: {
+        titleCorrect,
+        artistCorrect,
+        accepted,
+        overridden: false,
+        tokensAwarded,
+      },
+    })
+  }
+
+  return { guesses: judged, tokenClaimers }
+}
+
+/**
+ * Move the round to the revealed phase, judging any guesses
+ */
+async function revealRound(ctx: MutationCtx, game: Game): Promise<void> {
+  if (!game.currentRound) {
+    throw new Error('No active round')
+  }
+
+  // Guesses are judged even without tokens, since the rules may require them
+  const judged = await judgeGuesses(ctx, game)
+
+  await ctx.db.patch('games', game._id, {
+    phase: 'revealed',
+    currentRound: { ...game.currentRound, ...judged },
+    phaseTimer: await restartPhaseTimer(
+      ctx,
+      game,
+      'revealed',
+      game.currentRound.cardId,
+    ),
+  })
+
+  await recordGameEvent(ctx, game._id, game.roundNumber ?? 1, {
+    type: 'cardRevealed',
+    activePlayerId: game.currentRound.activePlayerId,
+    cardId: game.currentRound.cardId,
+  })
+}
+
+/**
+ * Pick which of the correct bets wins the card, per the game's tie-break rule
+ */
+async function pickWinningBet(
+  ctx: MutationCtx,
+  game: Game,
+  activePlayer: GamePlayer,
+  correctBets: CurrentRound['bets'],
+): Promise<CurrentRound['bets'][0] | undefined> {
+  if (correctBets.length <= 1) {
+    return correctBets.at(0)
+  }
+
+  switch (getGameRules(game).betTieBreak) {
+    case 'earliestBet':
+      return [...correctBets].sort((a, b) => a.timestamp - b.timestamp)[0]
+    case 'nextSeat': {
+      const players = await ctx.db
+        .query('gamePlayers')
+        .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+        .collect()
+      // Seats after the active player's, wrapping around the table
+      const seatsAfterActive = (bet: CurrentRound['bets'][0]) => {
+        const seat =
+          players.find((p) => p._id === bet.bettorPlayerId)?.seatIndex ?? 0
+        return (seat - activePlayer.seatIndex + players.length) % players.length
+      }
+      return [...correctBets].sort(
+        (a, b) => seatsAfterActive(a) - seatsAfterActive(b),
+      )[0]
     }
+    case 'noWinner':
+      return undefined
+  }
+}
 
-    if (bettorPlayer.tokenBalance < 1) {
-      throw new Error('Not enough tokens to bet')
+/**
+ * Validate the placement and hand out the round's card, then either end the
+ * game or start the next round
+ */
+async function resolveCurrentRound(
+  ctx: MutationCtx,
+  game: Game,
+  activePlayer: GamePlayer,
+): Promise<RoundResolution> {
+  if (!game.currentRound || game.currentRound.placementIndex === undefined) {
+    throw new Error('No active round or placement')
+  }
+
+  const card = await ctx.db.get('gameCards', game.currentRound.cardId)
+  if (!card) {
+    throw new Error('Card not found')
+  }
+
+  const rules = getGameRules(game)
+
+  // Get active player's (or team's) timeline
+  const activeOwner = timelineOwnerOf(activePlayer)
+  const timeline = await getOwnerTimeline(ctx, activeOwner)
+
+  // Compute valid insertion indices for this card
+  const validIndices = computeValidInsertionIndices(
+    timeline.map((t) => ({ releaseYear: t.card.releaseYear })),
+    card.releaseYear,
+    rules,
+  )
+
+  const placementIndex = game.currentRound.placementIndex
+  const placementCorrect = validIndices.includes(placementIndex)
+
+  // Exact-year rules: the card is only kept if every required answer is right
+  const yearCorrect = rules.requireExactYear
+    ? game.currentRound.yearGuess === card.releaseYear
+    : undefined
+  const activeGuess = game.currentRound.guesses?.find(
+    (g) => g.playerId === activePlayer._id,
+  )
+  const songCorrect = rules.requireTitleArtist
+    ? !!activeGuess?.result?.accepted
+    : undefined
+  const keepsCard =
+    placementCorrect && yearCorrect !== false && songCorrect !== false
+
+  let cardWentTo: 'activePlayer' | 'bettor' | 'discard' = 'discard'
+  let winningBettorId: Id<'gamePlayers'> | undefined
+  let insertedAt: number | undefined
+  let livesRemaining: number | undefined
+  let partialCredit: number | undefined
+
+  if (keepsCard) {
+    // Correct placement - card goes to active player's timeline
+    await insertCardIntoTimeline(
+      ctx,
+      game._id,
+      activeOwner,
+      card._id,
+      placementIndex,
+    )
+    cardWentTo = 'activePlayer'
+    insertedAt = placementIndex
+  } else if (game.playStyle === 'coop') {
+    // Co-op: nobody can bet against the shared timeline, so a wrong
+    // answer discards the card and costs a shared life
+    livesRemaining = Math.max(0, (game.livesRemaining ?? 0) - 1)
+    await ctx.db.patch('games', game._id, { livesRemaining })
+    await ctx.db.patch('gameCards', card._id, { state: 'discarded' })
+  } else {
+    // Incorrect placement - check for a winning bettor (bets are only
+    // against the placement, so a right slot with a wrong year wins nothing)
+    const winningBet = placementCorrect
+      ? undefined
+      : await pickWinningBet(
+          ctx,
+          game,
+          activePlayer,
+          game.currentRound.bets.filter((b) =>
+            validIndices.includes(b.slotIndex),
+          ),
+        )
+
+    if (winningBet) {
+      // This bettor wins the card
+      winningBettorId = winningBet.bettorPlayerId
+      const winningBettor = await ctx.db.get(
+        'gamePlayers',
+        winningBet.bettorPlayerId,
+      )
+
+      if (winningBettor) {
+        // Refund the winner's bet
+        await adjustTokenBalance(ctx, winningBettor, rules.winningBetRefund)
+
+        // Insert card into the bettor's timeline at the correct position
+        const bettorOwner = timelineOwnerOf(winningBettor)
+        const bettorTimeline = await getOwnerTimeline(ctx, bettorOwner)
+        const correctIndex = findCorrectInsertionIndex(
+          bettorTimeline.map((t) => ({ releaseYear: t.card.releaseYear })),
+          card.releaseYear,
+          rules,
+        )
+
+        await insertCardIntoTimeline(
+          ctx,
+          game._id,
+          bettorOwner,
+          card._id,
+          correctIndex,
+        )
+        cardWentTo = 'bettor'
+        insertedAt = correctIndex
+      }
+    }
+
+    // If no winning bettor, card is discarded
+    if (cardWentTo === 'discard') {
+      await ctx.db.patch('gameCards', card._id, { state: 'discarded' })
+    }
+  }
+
+  // Consolation tokens for the answers that were right when the card was lost
+  const answeredExtra = yearCorrect !== undefined || songCorrect !== undefined
+  if (!keepsCard && answeredExtra && game.useTokens) {
+    const earned =
+      (placementCorrect ? rules.partialCredit.placement : 0) +
+      (yearCorrect ? rules.partialCredit.year : 0) +
+      (songCorrect ? rules.partialCredit.song : 0)
+    partialCredit = Math.max(
+      0,
+      Math.min(
+        earned,
+        game.maxTokens - (await getTokenBalance(ctx, activePlayer)),
+      ),
+    )
+    if (partialCredit > 0) {
+      await adjustTokenBalance(ctx, activePlayer, partialCredit)
+    }
+  }
+
+  const round = game.roundNumber ?? 1
+
+  await recordGameEvent(ctx, game._id, round, {
+    type: 'roundResolved',
+    activePlayerId: activePlayer._id,
+    cardId: card._id,
+    placementIndex,
+    placementCorrect,
+    cardWentTo,
+    recipientPlayerId:
+      cardWentTo === 'activePlayer'
+        ? activePlayer._id
+        : cardWentTo === 'bettor'
+          ? winningBettorId
+          : undefined,
+    insertedAt,
+    refunds:
+      cardWentTo === 'bettor' && winningBettorId && rules.winningBetRefund > 0
+        ? [{ playerId: winningBettorId, amount: rules.winningBetRefund }]
+        : [],
+    livesRemaining,
+    yearGuess: rules.requireExactYear ? game.currentRound.yearGuess : undefined,
+    yearCorrect,
+    songCorrect,
+    partialCredit,
+  })
+  await recordTrackPlacement(ctx, card.trackId, placementCorrect)
+
+  // Check win condition (per team in team games)
+  const winner = await findWinner(ctx, game)
+
+  if (livesRemaining === 0) {
+    // Co-op loss
+    await finishGame(ctx, game, round, 'outOfLives')
+  } else if (winner) {
+    // Game over
+    await finishGame(ctx, game, round, 'winCondition', winner)
+  } else {
+    await startNextRound(ctx, game, round)
+  }
+
+  return {
+    placementCorrect,
+    yearCorrect,
+    songCorrect,
+    cardWentTo,
+    winningBettorId,
+    winnerId: winner?.playerId,
+    winningTeamId: winner?.teamId,
+  }
+}
+
+/**
+ * Give bettors their tokens back for a round that will not be resolved
+ */
+async function refundBets(
+  ctx: MutationCtx,
+  game: Game,
+  bets: CurrentRound['bets'],
+): Promise<Array<{ playerId: Id<'gamePlayers'>; amount: number }>> {
+  const { betCost } = getGameRules(game)
+  const refunds: Array<{ playerId: Id<'gamePlayers'>; amount: number }> = []
+  for (const bet of bets) {
+    const bettor = await ctx.db.get('gamePlayers', bet.bettorPlayerId)
+    if (!bettor || betCost === 0) continue
+
+    await adjustTokenBalance(ctx, bettor, betCost)
+    refunds.push({ playerId: bettor._id, amount: betCost })
+  }
+  return refunds
+}
+
+/**
+ * Discard the round's card after the active player ran out of time.
+ * Bettors get their tokens back since nothing was placed to bet against.
+ */
+async function timeOutRound(ctx: MutationCtx, game: Game): Promise<void> {
+  if (!game.currentRound) {
+    throw new Error('No active round')
+  }
+
+  const refunds = await refundBets(ctx, game, game.currentRound.bets)
+
+  await ctx.db.patch('gameCards', game.currentRound.cardId, {
+    state: 'discarded',
+  })
+
+  const round = game.roundNumber ?? 1
+  await recordGameEvent(ctx, game._id, round, {
+    type: 'roundTimedOut',
+    activePlayerId: game.currentRound.activePlayerId,
+    cardId: game.currentRound.cardId,
+    refunds,
+  })
+
+  await startNextRound(ctx, game, round)
+}
+
+// ===========================================
+// Turn Mutations
+// ===========================================
+
+/**
+ * Skip the current round (costs the game's skip cost in tokens)
+ * Discards current card and draws a new one. Bets on the skipped card are
+ * refunded.
+ */
+export const skipRound = mutation({
+  args: {
+    gameId: v.id('games'),
+    actingPlayerId: v.id('gamePlayers'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await getLiveGame(ctx, args.gameId)
+
+    verifyCanTakeTurns(game)
+
+    if (!game.useTokens) {
+      throw new Error('Tokens are not enabled for this game')
+    }
+
+    if (game.phase !== 'awaitingPlacement') {
+      throw new Error('Cannot skip in current phase')
+    }
+
+    if (!game.currentRound) {
+      throw new Error('No active round')
     }
 
-    // Check if this player already bet
+    const activePlayer = await ctx.db.get('gamePlayers', args.actingPlayerId)
     if (
-      game.currentRound.bets.some((b) => b.bettorPlayerId === bettorPlayer._id)
+      !activePlayer ||
+      activePlayer._id !== game.currentRound.activePlayerId
     ) {
-      throw new Error('You already placed a bet this round')
+      throw new Error('Not your turn')
+    }
+
+    await verifyCanActForPlayer(ctx, game, activePlayer)
+
+    const { skipCost } = getGameRules(game)
+    if ((await getTokenBalance(ctx, activePlayer)) < skipCost) {
+      throw new Error('Not enough tokens to skip')
+    }
+
+    // Deduct tokens
+    await adjustTokenBalance(ctx, activePlayer, -skipCost)
+    const refunds = await refundBets(ctx, game, game.currentRound.bets)
+
+    // Discard current card
+    await ctx.db.patch('gameCards', game.currentRound.cardId, {
+      state: 'discarded',
+    })
+
+    // Draw new card
+    const newCard = await drawNextCard(ctx, game._id)
+    const round = game.roundNumber ?? 1
+
+    await recordGameEvent(ctx, game._id, round, {
+      type: 'roundSkipped',
+      playerId: activePlayer._id,
+      cardId: game.currentRound.cardId,
+      replacementCardId: newCard?._id,
+      tokenCost: skipCost,
+      refunds,
+    })
+
+    if (!newCard) {
+      await handleDeckExhausted(ctx, game, round)
+      return null
+    }
+
+    // Update new card state
+    await ctx.db.patch('gameCards', newCard._id, { state: 'inRound' })
+
+    // Update round with new card (keep same active player, clear bets and guesses)
+    await ctx.db.patch('games', args.gameId, {
+      currentRound: {
+        cardId: newCard._id,
+        activePlayerId: activePlayer._id,
+        placementIndex: undefined,
+        bets: [],
+        tokenClaimers: [],
+      },
+      phaseTimer: await restartPhaseTimer(
+        ctx,
+        game,
+        'awaitingPlacement',
+        newCard._id,
+      ),
+    })
+
+    return null
+  },
+})
+
+/**
+ * Place the current card on the active player's timeline
+ * Can also be used during awaitingReveal to reposition before reveal
+ */
+export const placeCard = mutation({
+  args: {
+    gameId: v.id('games'),
+    actingPlayerId: v.id('gamePlayers'),
+    insertIndex: v.number(),
+    // Exact-year rules: the active player's answers, sent with the placement
+    yearGuess: v.optional(v.number()),
+    title: v.optional(v.string()),
+    artist: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await getLiveGame(ctx, args.gameId)
+
+    verifyCanTakeTurns(game)
+
+    // Allow placement during both awaitingPlacement and awaitingReveal (for repositioning)
+    if (game.phase !== 'awaitingPlacement' && game.phase !== 'awaitingReveal') {
+      throw new Error('Cannot place card in current phase')
+    }
+
+    if (!game.currentRound) {
+      throw new Error('No active round')
+    }
+
+    const activePlayer = await ctx.db.get('gamePlayers', args.actingPlayerId)
+    if (
+      !activePlayer ||
+      activePlayer._id !== game.currentRound.activePlayerId
+    ) {
+      throw new Error('Not your turn')
+    }
+
+    await verifyCanActForPlayer(ctx, game, activePlayer)
+
+    // Validate insert index is within bounds
+    const timeline = await getOwnerTimeline(
+      ctx,
+      timelineOwnerOf(activePlayer),
+    )
+    if (args.insertIndex < 0 || args.insertIndex > timeline.length) {
+      throw new Error('Invalid insertion index')
+    }
+
+    // Answers can be left out when repositioning to keep the earlier ones
+    const rules = getGameRules(game)
+    const yearGuess = args.yearGuess ?? game.currentRound.yearGuess
+    if (rules.requireExactYear) {
+      if (yearGuess === undefined) {
+        throw new Error('Enter the exact release year')
+      }
+      if (!Number.isInteger(yearGuess)) {
+        throw new Error('Release year must be a whole number')
+      }
+    }
+
+    // A title/artist answer is stored as the active player's guess, so it is
+    // judged (and can be overridden by the host) like everyone else's
+    let guesses = game.currentRound.guesses
+    const title = args.title?.trim()
+    const artist = args.artist?.trim()
+    if (title && artist) {
+      guesses = [
+        ...(guesses ?? []).filter((g) => g.playerId !== activePlayer._id),
+        { playerId: activePlayer._id, title, artist, submittedAt: Date.now() },
+      ]
+    }
+    if (
+      rules.requireTitleArtist &&
+      !guesses?.some((g) => g.playerId === activePlayer._id)
+    ) {
+      throw new Error('Enter the title and artist')
+    }
+
+    // Store placement and move to reveal phase
+    // Repositioning keeps the betting window that is already running
+    await ctx.db.patch('games', args.gameId, {
+      phase: 'awaitingReveal',
+      currentRound: {
+        ...game.currentRound,
+        placementIndex: args.insertIndex,
+        yearGuess: rules.requireExactYear ? yearGuess : undefined,
+        guesses,
+      },
+      ...(game.phase === 'awaitingPlacement' && {
+        phaseTimer: await restartPhaseTimer(
+          ctx,
+          game,
+          'awaitingReveal',
+          game.currentRound.cardId,
+        ),
+      }),
+    })
+
+    await recordGameEvent(ctx, game._id, game.roundNumber ?? 1, {
+      type: 'cardPlaced',
+      playerId: activePlayer._id,
+      cardId: game.currentRound.cardId,
+      insertIndex: args.insertIndex,
+    })
+
+    return null
+  },
+})
+
+/**
+ * Place a bet that the active player placed the card incorrectly
+ * (costs the game's bet cost in tokens)
+ */
+export const placeBet = mutation({
+  args: {
+    gameId: v.id('games'),
+    actingPlayerId: v.id('gamePlayers'),
+    slotIndex: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await getLiveGame(ctx, args.gameId)
+
+    verifyCanTakeTurns(game)
+
+    if (!game.useTokens) {
+      throw new Error('Tokens are not enabled for this game')
+    }
+
+    // Can bet during placement or before reveal
+    if (game.phase !== 'awaitingPlacement' && game.phase !== 'awaitingReveal') {
+      throw new Error('Cannot bet in current phase')
+    }
+
+    const rules = getGameRules(game)
+    if (game.phase === 'awaitingReveal' && !rules.betsAfterPlacement) {
+      throw new Error('Bets close once the card is placed')
+    }
+
+    if (!game.currentRound) {
+      throw new Error('No active round')
+    }
+
+    const bettorPlayer = await ctx.db.get('gamePlayers', args.actingPlayerId)
+    if (!bettorPlayer) {
+      throw new Error('Player not found')
+    }
+
+    await verifyCanActForPlayer(ctx, game, bettorPlayer)
+
+    // Cannot bet on your own turn
+    if (bettorPlayer._id === game.currentRound.activePlayerId) {
+      throw new Error('Cannot bet on your own turn')
     }
 
     // Get active player's timeline to validate slot index
@@ -416,7 +1235,32 @@ export const placeBet = mutation({
       throw new Error('Active player not found')
     }
 
-    const timeline = await getPlayerTimeline(ctx, activePlayer._id)
+    // Teammates share the active player's timeline
+    if (bettorPlayer.teamId && bettorPlayer.teamId === activePlayer.teamId) {
+      throw new Error("Cannot bet on your own team's turn")
+    }
+
+    if ((await getTokenBalance(ctx, bettorPlayer)) < rules.betCost) {
+      throw new Error('Not enough tokens to bet')
+    }
+
+    // Check if this player (or their team, which shares tokens) already bet
+    for (const bet of game.currentRound.bets) {
+      if (bet.bettorPlayerId === bettorPlayer._id) {
+        throw new Error('You already placed a bet this round')
+      }
+      if (bettorPlayer.teamId) {
+        const otherBettor = await ctx.db.get('gamePlayers', bet.bettorPlayerId)
+        if (otherBettor?.teamId === bettorPlayer.teamId) {
+          throw new Error('Your team already placed a bet this round')
+        }
+      }
+    }
+
+    const timeline = await getOwnerTimeline(
+      ctx,
+      timelineOwnerOf(activePlayer),
+    )
 
     // Slot index represents where the bettor thinks the card should go
     if (args.slotIndex < 0 || args.slotIndex > timeline.length) {
@@ -428,10 +1272,8 @@ export const placeBet = mutation({
       throw new Error('Another player already bet on this slot')
     }
 
-    // Deduct token
-    await ctx.db.patch('gamePlayers', bettorPlayer._id, {
-      tokenBalance: bettorPlayer.tokenBalance - 1,
-    })
+    // Deduct tokens
+    await adjustTokenBalance(ctx, bettorPlayer, -rules.betCost)
 
     // Add bet
     const newBets = [
@@ -450,6 +1292,14 @@ export const placeBet = mutation({
       },
     })
 
+    await recordGameEvent(ctx, game._id, game.roundNumber ?? 1, {
+      type: 'betPlaced',
+      playerId: bettorPlayer._id,
+      cardId: game.currentRound.cardId,
+      slotIndex: args.slotIndex,
+      tokenCost: rules.betCost,
+    })
+
     return null
   },
 })
@@ -464,10 +1314,9 @@ export const revealCard = mutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const game = await ctx.db.get('games', args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
-    }
+    const game = await getLiveGame(ctx, args.gameId)
+
+    verifyCanTakeTurns(game)
 
     if (game.phase !== 'awaitingReveal') {
       throw new Error('Cannot reveal in current phase')
@@ -496,9 +1345,67 @@ export const revealCard = mutation({
       await verifyCanActForPlayer(ctx, game, activePlayer)
     }
 
-    // Move to revealed phase
+    await revealRound(ctx, game)
+
+    return null
+  },
+})
+
+/**
+ * Submit (or replace) a title/artist guess for the current song
+ * Guesses are judged when the card is revealed, and correct ones earn a token
+ * (capped at maxTokens, once per round per player or team)
+ */
+export const submitGuess = mutation({
+  args: {
+    gameId: v.id('games'),
+    actingPlayerId: v.id('gamePlayers'),
+    title: v.string(),
+    artist: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await getLiveGame(ctx, args.gameId)
+
+    verifyCanTakeTurns(game)
+
+    if (!game.useTokens) {
+      throw new Error('Tokens are not enabled for this game')
+    }
+
+    if (game.phase !== 'awaitingPlacement' && game.phase !== 'awaitingReveal') {
+      throw new Error('Can only guess before the card is revealed')
+    }
+
+    if (!game.currentRound) {
+      throw new Error('No active round')
+    }
+
+    const player = await ctx.db.get('gamePlayers', args.actingPlayerId)
+    if (!player || player.gameId !== game._id) {
+      throw new Error('Player not found')
+    }
+
+    await verifyCanActForPlayer(ctx, game, player)
+
+    const title = args.title.trim()
+    const artist = args.artist.trim()
+    if (!title || !artist) {
+      throw new Error('Enter both a title and an artist')
+    }
+
+    const guesses = (game.currentRound.guesses ?? []).filter(
+      (g) => g.playerId !== player._id,
+    )
+
     await ctx.db.patch('games', args.gameId, {
-      phase: 'revealed',
+      currentRound: {
+        ...game.currentRound,
+        guesses: [
+          ...guesses,
+          { playerId: player._id, title, artist, submittedAt: Date.now() },
+        ],
+      },
     })
 
     return null
@@ -506,60 +1413,78 @@ export const revealCard = mutation({
 })
 
 /**
- * Claim a token for correctly guessing the song (during revealed phase)
- * Capped at maxTokens per player, once per round
+ * Accept a guess that was rejected on reveal (host only, revealed phase)
+ * For typos or alternate spellings the fuzzy matcher missed
  */
-export const claimGuessToken = mutation({
+export const overrideGuess = mutation({
   args: {
     gameId: v.id('games'),
-    actingPlayerId: v.id('gamePlayers'),
+    playerId: v.id('gamePlayers'),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const game = await ctx.db.get('games', args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
     }
 
-    if (!game.useTokens) {
-      throw new Error('Tokens are not enabled for this game')
+    const game = await getLiveGame(ctx, args.gameId)
+
+    verifyCanTakeTurns(game)
+
+    if (game.hostUserId !== identity.subject) {
+      throw new Error('Only the host can accept a guess')
     }
 
     if (game.phase !== 'revealed') {
-      throw new Error('Can only claim tokens during revealed phase')
+      throw new Error('Can only accept guesses after the reveal')
     }
 
     if (!game.currentRound) {
       throw new Error('No active round')
     }
 
-    const player = await ctx.db.get('gamePlayers', args.actingPlayerId)
-    if (!player) {
-      throw new Error('Player not found')
+    const guesses = game.currentRound.guesses ?? []
+    const guess = guesses.find((g) => g.playerId === args.playerId)
+    const result = guess?.result
+    if (!result) {
+      throw new Error('Guess not found')
     }
 
-    await verifyCanActForPlayer(ctx, game, player)
-
-    // Check if already claimed this round
-    if (game.currentRound.tokenClaimers.includes(player._id)) {
-      throw new Error('You already claimed a token this round')
+    if (result.accepted) {
+      throw new Error('This guess was already accepted')
     }
 
-    // Check token cap
-    if (player.tokenBalance >= game.maxTokens) {
-      throw new Error('You are at the maximum token limit')
+    const player = await ctx.db.get('gamePlayers', args.playerId)
+    if (!player) {
+      throw new Error('Player not found')
     }
 
-    // Grant token
-    await ctx.db.patch('gamePlayers', player._id, {
-      tokenBalance: player.tokenBalance + 1,
-    })
+    const tokenClaimers = [...game.currentRound.tokenClaimers]
+    const tokensAwarded = await grantGuessToken(
+      ctx,
+      game,
+      player,
+      tokenClaimers,
+    )
 
-    // Record the claim
     await ctx.db.patch('games', args.gameId, {
       currentRound: {
         ...game.currentRound,
-        tokenClaimers: [...game.currentRound.tokenClaimers, player._id],
+        tokenClaimers,
+        guesses: guesses.map((g) =>
+          g.playerId === args.playerId
+            ? {
+                ...g,
+                result: {
+                  ...result,
+                  accepted: true,
+                  overridden: true,
+                  tokensAwarded,
+                },
+              }
+            : g,
+        ),
       },
     })
 
@@ -577,6 +1502,8 @@ export const resolveRound = mutation({
   },
   returns: v.object({
     placementCorrect: v.boolean(),
+    yearCorrect: v.optional(v.boolean()),
+    songCorrect: v.optional(v.boolean()),
     cardWentTo: v.union(
       v.literal('activePlayer'),
       v.literal('bettor'),
@@ -584,12 +1511,12 @@ export const resolveRound = mutation({
     ),
     winningBettorId: v.optional(v.id('gamePlayers')),
     winnerId: v.optional(v.id('gamePlayers')),
+    winningTeamId: v.optional(v.id('gameTeams')),
   }),
   handler: async (ctx, args) => {
-    const game = await ctx.db.get('games', args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
-    }
+    const game = await getLiveGame(ctx, args.gameId)
+
+    verifyCanTakeTurns(game)
 
     if (game.phase !== 'revealed') {
       throw new Error('Cannot resolve in current phase')
@@ -619,174 +1546,14 @@ export const resolveRound = mutation({
       throw new Error('Active player not found')
     }
 
-    const card = await ctx.db.get('gameCards', game.currentRound.cardId)
-    if (!card) {
-      throw new Error('Card not found')
-    }
-
-    // Get active player's timeline
-    const timeline = await getPlayerTimeline(ctx, activePlayer._id)
-
-    // Compute valid insertion indices for this card
-    const validIndices = computeValidInsertionIndices(
-      timeline.map((t) => ({ releaseYear: t.card.releaseYear })),
-      card.releaseYear,
-    )
-
-    const placementIndex = game.currentRound.placementIndex
-    const placementCorrect = validIndices.includes(placementIndex)
-
-    let cardWentTo: 'activePlayer' | 'bettor' | 'discard' = 'discard'
-    let winningBettorId: Id<'gamePlayers'> | undefined
-
-    if (placementCorrect) {
-      // Correct placement - card goes to active player's timeline
-      await insertCardIntoTimeline(
-        ctx,
-        game._id,
-        activePlayer._id,
-        card._id,
-        placementIndex,
-      )
-      cardWentTo = 'activePlayer'
-    } else {
-      // Incorrect placement - check for winning bettor
-      // Sort bets by timestamp (earliest wins)
-      const sortedBets = [...game.currentRound.bets].sort(
-        (a, b) => a.timestamp - b.timestamp,
-      )
-
-      // Find the first bettor who bet on a correct slot
-      for (const bet of sortedBets) {
-        if (validIndices.includes(bet.slotIndex)) {
-          // This bettor wins the card
-          winningBettorId = bet.bettorPlayerId
-          const winningBettor = await ctx.db.get(
-            'gamePlayers',
-            bet.bettorPlayerId,
-          )
-
-          if (winningBettor) {
-            // Refund the winner's token
-            await ctx.db.patch('gamePlayers', winningBettor._id, {
-              tokenBalance: winningBettor.tokenBalance + 1,
-            })
-
-            // Insert card into the bettor's timeline at the correct position
-            const bettorTimeline = await getPlayerTimeline(
-              ctx,
-              winningBettor._id,
-            )
-            const correctIndex = findCorrectInsertionIndex(
-              bettorTimeline.map((t) => ({ releaseYear: t.card.releaseYear })),
-              card.releaseYear,
-            )
-
-            await insertCardIntoTimeline(
-              ctx,
-              game._id,
-              winningBettor._id,
-              card._id,
-              correctIndex,
-            )
-            cardWentTo = 'bettor'
-          }
-          break
-        }
-      }
-
-      // If no winning bettor, card is discarded
-      if (cardWentTo === 'discard') {
-        await ctx.db.patch('gameCards', card._id, { state: 'discarded' })
-      }
-    }
-
-    // Check win condition
-    let winnerId: Id<'gamePlayers'> | undefined
-
-    // Get all players and check timeline sizes
-    const allPlayers = await ctx.db
-      .query('gamePlayers')
-      .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
-      .collect()
-
-    for (const player of allPlayers) {
-      const playerTimeline = await ctx.db
-        .query('timelineEntries')
-        .withIndex('by_playerId', (q) => q.eq('playerId', player._id))
-        .collect()
-
-      if (playerTimeline.length >= game.winCondition) {
-        winnerId = player._id
-        break
-      }
-    }
-
-    // Advance turn
-    const nextSeatIndex = await advanceTurn(ctx, game)
-
-    if (winnerId) {
-      // Game over
-      await ctx.db.patch('games', args.gameId, {
-        phase: 'finished',
-        currentRound: undefined,
-        winnerId,
-        finishedAt: Date.now(),
-      })
-    } else {
-      // Auto-draw next card for the new active player
-      const nextCard = await drawNextCard(ctx, game._id)
-
-      if (!nextCard) {
-        // No more cards - game ends (deck exhausted)
-        await ctx.db.patch('games', args.gameId, {
-          phase: 'finished',
-          currentRound: undefined,
-          finishedAt: Date.now(),
-        })
-      } else {
-        // Get the next active player
-        const nextPlayer = await ctx.db
-          .query('gamePlayers')
-          .withIndex('by_gameId_and_seatIndex', (q) =>
-            q.eq('gameId', game._id).eq('seatIndex', nextSeatIndex),
-          )
-          .unique()
-
-        if (!nextPlayer) {
-          throw new Error('Next player not found')
-        }
-
-        // Update card state to inRound
-        await ctx.db.patch('gameCards', nextCard._id, { state: 'inRound' })
-
-        // Continue to next turn with card already drawn
-        await ctx.db.patch('games', args.gameId, {
-          phase: 'awaitingPlacement',
-          currentTurnSeatIndex: nextSeatIndex,
-          currentRound: {
-            cardId: nextCard._id,
-            activePlayerId: nextPlayer._id,
-            placementIndex: undefined,
-            bets: [],
-            tokenClaimers: [],
-          },
-        })
-      }
-    }
-
-    return {
-      placementCorrect,
-      cardWentTo,
-      winningBettorId,
-      winnerId,
-    }
+    return resolveCurrentRound(ctx, game, activePlayer)
   },
 })
 
 /**
- * Trade 3 tokens for a card that is auto-inserted correctly
- * (available during any phase of the active player's turn)
+ * Trade tokens (the game's trade cost) for a card that is auto-inserted correctly
+ * (available during any phase of the active player's turn, or to any seat
+ * in co-op games)
  */
 export const tradeTokensForCard = mutation({
   args: {
@@ -798,10 +1565,9 @@ export const tradeTokensForCard = mutation({
     insertedAt: v.number(),
   }),
   handler: async (ctx, args) => {
-    const game = await ctx.db.get('games', args.gameId)
-    if (!game) {
-      throw new Error('Game not found')
-    }
+    const game = await getLiveGame(ctx, args.gameId)
+
+    verifyCanTakeTurns(game)
 
     if (!game.useTokens) {
       throw new Error('Tokens are not enabled for this game')
@@ -818,15 +1584,26 @@ export const tradeTokensForCard = mutation({
       throw new Error('No active round')
     }
 
-    const activePlayer = await ctx.db.get('gamePlayers', game.currentRound.activePlayerId)
-    if (!activePlayer || activePlayer._id !== args.actingPlayerId) {
+    // In co-op the timeline and tokens belong to everyone, so any seat can
+    // cash in on the table's behalf; otherwise only the active player can
+    const activePlayer =
+      game.playStyle === 'coop'
+        ? await ctx.db.get('gamePlayers', args.actingPlayerId)
+        : await ctx.db.get('gamePlayers', game.currentRound.activePlayerId)
+    if (
+      !activePlayer ||
+      activePlayer.gameId !== game._id ||
+      activePlayer._id !== args.actingPlayerId
+    ) {
       throw new Error('Not your turn - can only trade tokens when you are the active player')
     }
 
     await verifyCanActForPlayer(ctx, game, activePlayer)
 
-    if (activePlayer.tokenBalance < 3) {
-      throw new Error('Need 3 tokens to trade for a card')
+    const rules = getGameRules(game)
+    const { tradeCost } = rules
+    if ((await getTokenBalance(ctx, activePlayer)) < tradeCost) {
+      throw new Error(`Need ${tradeCost} tokens to trade for a card`)
     }
 
     // Draw a card
@@ -835,39 +1612,35 @@ export const tradeTokensForCard = mutation({
       throw new Error('No cards remaining')
     }
 
-    // Deduct 3 tokens
-    await ctx.db.patch('gamePlayers', activePlayer._id, {
-      tokenBalance: activePlayer.tokenBalance - 3,
-    })
+    // Deduct the trade cost
+    await adjustTokenBalance(ctx, activePlayer, -tradeCost)
 
     // Get player's timeline and find correct insertion point
-    const timeline = await getPlayerTimeline(ctx, activePlayer._id)
+    const owner = timelineOwnerOf(activePlayer)
+    const timeline = await getOwnerTimeline(ctx, owner)
     const insertIndex = findCorrectInsertionIndex(
       timeline.map((t) => ({ releaseYear: t.card.releaseYear })),
       card.releaseYear,
+      rules,
     )
 
     // Insert the card
-    await insertCardIntoTimeline(
-      ctx,
-      game._id,
-      activePlayer._id,
-      card._id,
-      insertIndex,
-    )
+    await insertCardIntoTimeline(ctx, game._id, owner, card._id, insertIndex)
+
+    const round = game.roundNumber ?? 1
+    await recordGameEvent(ctx, game._id, round, {
+      type: 'tokensTraded',
+      playerId: activePlayer._id,
+      cardId: card._id,
+      insertedAt: insertIndex,
+      tokenCost: tradeCost,
+    })
 
     // Check win condition
-    const newTimeline = await ctx.db
-      .query('timelineEntries')
-      .withIndex('by_playerId', (q) => q.eq('playerId', activePlayer._id))
-      .collect()
+    const newTimeline = await getTimelineEntries(ctx, owner)
 
     if (newTimeline.length >= game.winCondition) {
-      await ctx.db.patch('games', args.gameId, {
-        phase: 'finished',
-        winnerId: activePlayer._id,
-        finishedAt: Date.now(),
-      })
+      await finishGame(ctx, game, round, 'winCondition', owner)
     }
 
     return {
@@ -876,3 +1649,367 @@ export const tradeTokensForCard = mutation({
     }
   },
 })
+
+// ===========================================
+// Moderation Mutations
+// ===========================================
+
+/**
+ * Take a seat out of the game: their timeline cards are discarded and later
+ * seats move up one. If it was their turn, the round's card is discarded,
+ * bets are refunded and the turn passes on.
+ */
+async function removeSeat(
+  ctx: MutationCtx,
+  game: Game,
+  player: GamePlayer,
+  left: boolean,
+): Promise<void> {
+  const currentRound = game.currentRound
+  const wasActive = currentRound?.activePlayerId === player._id
+
+  // Settle their part in the round while the seat still exists: every bet
+  // if the round is abandoned, otherwise just theirs (a team keeps its pool)
+  const refunds = currentRound
+    ? await refundBets(
+        ctx,
+        game,
+        wasActive
+          ? currentRound.bets
+          : currentRound.bets.filter((b) => b.bettorPlayerId === player._id),
+      )
+    : []
+
+  // Discard their timeline (a team's timeline stays with the team)
+  const discardedCardIds: Array<Id<'gameCards'>> = []
+  if (!player.teamId) {
+    for (const entry of await getTimelineEntries(ctx, {
+      playerId: player._id,
+    })) {
+      await ctx.db.patch('gameCards', entry.cardId, {
+        state: 'discarded',
+        ownerPlayerId: undefined,
+      })
+      await ctx.db.delete('timelineEntries', entry._id)
+      discardedCardIds.push(entry.cardId)
+    }
+  }
+
+  await ctx.db.delete('gamePlayers', player._id)
+
+  // Close the gap in the turn order
+  const remainingPlayers = await ctx.db
+    .query('gamePlayers')
+    .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+    .collect()
+  remainingPlayers.sort((a, b) => a.seatIndex - b.seatIndex)
+  for (let i = 0; i < remainingPlayers.length; i++) {
+    if (remainingPlayers[i].seatIndex !== i) {
+      await ctx.db.patch('gamePlayers', remainingPlayers[i]._id, {
+        seatIndex: i,
+      })
+    }
+  }
+
+  if (game.phase === 'lobby' || !currentRound) {
+    return
+  }
+
+  const round = game.roundNumber ?? 1
+  await recordGameEvent(ctx, game._id, round, {
+    type: 'playerRemoved',
+    playerId: player._id,
+    displayName: player.displayName,
+    left: left || undefined,
+    discardedCardIds,
+    abandonedCardId: wasActive ? currentRound.cardId : undefined,
+    refunds,
+  })
+
+  if (!wasActive) {
+    await ctx.db.patch('games', game._id, {
+      // Seats after theirs moved up one
+      currentTurnSeatIndex:
+        game.currentTurnSeatIndex > player.seatIndex
+          ? game.currentTurnSeatIndex - 1
+          : game.currentTurnSeatIndex,
+      currentRound: {
+        ...currentRound,
+        bets: currentRound.bets.filter((b) => b.bettorPlayerId !== player._id),
+        tokenClaimers: currentRound.tokenClaimers.filter(
+          (id) => id !== player._id,
+        ),
+        guesses: currentRound.guesses?.filter((g) => g.playerId !== player._id),
+      },
+    })
+    return
+  }
+
+  await ctx.db.patch('gameCards', currentRound.cardId, {
+    state: 'discarded',
+  })
+
+  // Pass the turn on from the seat before theirs (or, in team games, from a
+  // teammate) so the rotation continues where it left off
+  const teammate = remainingPlayers.findIndex(
+    (p) => p.teamId !== undefined && p.teamId === player.teamId,
+  )
+  const previousSeatIndex =
+    teammate >= 0
+      ? teammate
+      : (player.seatIndex - 1 + remainingPlayers.length) %
+        remainingPlayers.length
+  // Passing on from the last seat wraps round the table, but if theirs was
+  // the first seat the lap it opened is still under way
+  const openedLap = teammate < 0 && player.seatIndex === 0
+  await startNextRound(
+    ctx,
+    { ...game, currentTurnSeatIndex: previousSeatIndex },
+    round,
+    openedLap,
+  )
+}
+
+/**
+ * Take a seat out of or back into the turn rotation. If it was their turn,
+ * the round's card is discarded, bets are refunded and the turn passes on.
+ */
+export async function setSeatStatus(
+  ctx: MutationCtx,
+  game: Game,
+  player: GamePlayer,
+  status: GamePlayer['status'],
+): Promise<void> {
+  await ctx.db.patch('gamePlayers', player._id, { status })
+
+  const currentRound = game.currentRound
+  if (game.phase === 'lobby' || !currentRound) {
+    return
+  }
+
+  const wasActive =
+    status !== undefined && currentRound.activePlayerId === player._id
+  const refunds = wasActive
+    ? await refundBets(ctx, game, currentRound.bets)
+    : []
+
+  const round = game.roundNumber ?? 1
+  await recordGameEvent(ctx, game._id, round, {
+    type: 'playerStatusChanged',
+    playerId: player._id,
+    status,
+    abandonedCardId: wasActive ? currentRound.cardId : undefined,
+    refunds,
+  })
+
+  if (wasActive) {
+    await ctx.db.patch('gameCards', currentRound.cardId, {
+      state: 'discarded',
+    })
+    await startNextRound(ctx, game, round)
+  }
+}
+
+/**
+ * Let a player leave a started game. Under rules that keep cards their seat
+ * stays in the standings, marked as left and out of the turn rotation;
+ * otherwise the seat is removed and their cards discarded.
+ */
+export async function leaveStartedGame(
+  ctx: MutationCtx,
+  game: Game,
+  player: GamePlayer,
+): Promise<void> {
+  if (getGameRules(game).keepCardsOnLeave) {
+    await setSeatStatus(ctx, game, player, 'left')
+  } else {
+    await removeSeat(ctx, game, player, true)
+  }
+}
+
+/**
+ * Remove a player from the game at any phase (host only).
+ * Their timeline cards are discarded and later seats move up one. If it was
+ * their turn, the round's card is discarded, bets are refunded and the turn
+ * passes on. Kicked users can't rejoin with the join code.
+ */
+export const kickPlayer = mutation({
+  args: {
+    playerId: v.id('gamePlayers'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const player = await ctx.db.get('gamePlayers', args.playerId)
+    if (!player) {
+      throw new Error('Player not found')
+    }
+
+    const game = await getLiveGame(ctx, player.gameId)
+
+    verifyCanTakeTurns(game)
+
+    if (game.hostUserId !== identity.subject) {
+      throw new Error('Only the host can remove players')
+    }
+
+    if (game.phase === 'finished') {
+      throw new Error('Game is already over')
+    }
+
+    if (player.isHostSeat) {
+      throw new Error('Cannot remove the host seat')
+    }
+
+    if (player.userId) {
+      await ctx.db.patch('games', game._id, {
+        kickedUserIds: [...(game.kickedUserIds ?? []), player.userId],
+      })
+    }
+
+    await removeSeat(ctx, game, player, false)
+
+    return null
+  },
+})
+
+/**
+ * Mark a player away, so their turns are skipped, or back again
+ * (host only, once the game has started). Bringing back a player who left
+ * puts their seat back in the rotation.
+ */
+export const setPlayerAway = mutation({
+  args: {
+    playerId: v.id('gamePlayers'),
+    away: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error('Not authenticated')
+    }
+
+    const player = await ctx.db.get('gamePlayers', args.playerId)
+    if (!player) {
+      throw new Error('Player not found')
+    }
+
+    const game = await getLiveGame(ctx, player.gameId)
+
+    verifyCanTakeTurns(game)
+
+    if (game.hostUserId !== identity.subject) {
+      throw new Error('Only the host can mark players away')
+    }
+
+    if (game.phase === 'lobby' || game.phase === 'finished') {
+      throw new Error('Players can only be away during the game')
+    }
+
+    if (args.away && player.isHostSeat) {
+      throw new Error('The host seat cannot be away')
+    }
+
+    if (args.away && player.status === 'left') {
+      throw new Error(`${player.displayName} has left the game`)
+    }
+
+    const status = args.away ? 'away' : undefined
+    if (player.status === status) {
+      return null
+    }
+
+    await setSeatStatus(ctx, game, player, status)
+
+    return null
+  },
+})
+
+// ===========================================
+// Turn Timers
+// ===========================================
+
+/**
+ * Enforce a phase time limit (scheduled by restartPhaseTimer)
+ * - awaitingPlacement: the card is discarded and the turn passes on
+ * - awaitingReveal: the betting window closes and the card is revealed
+ * - revealed: the round is resolved
+ *
+ * Stale jobs (the phase or card changed since scheduling) are ignored, as
+ * are jobs that fire while the game is paused.
+ */
+export const expirePhaseTimer = internalMutation({
+  args: {
+    gameId: v.id('games'),
+    phase: v.union(
+      v.literal('awaitingPlacement'),
+      v.literal('awaitingReveal'),
+      v.literal('revealed'),
+    ),
+    cardId: v.id('gameCards'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get('games', args.gameId)
+    if (
+      !game ||
+      game.pausedAt !== undefined ||
+      game.phase !== args.phase ||
+      game.currentRound?.cardId !== args.cardId
+    ) {
+      return null
+    }
+
+    switch (args.phase) {
+      case 'awaitingPlacement':
+        await timeOutRound(ctx, game)
+        break
+      case 'awaitingReveal':
+        await revealRound(ctx, game)
+        break
+      case 'revealed': {
+        const activePlayer = await ctx.db.get(
+          'gamePlayers',
+          game.currentRound.activePlayerId,
+        )
+        if (!activePlayer) {
+          throw new Error('Active player not found')
+        }
+        await resolveCurrentRound(ctx, game, activePlayer)
+        break
+      }
+    }
+
+    return null
+  },
+})
+
+/**
+ * Run out a time-limited game's clock. The round around the table in play
+ * becomes the last one. Ignored for finished games and paused ones, which
+ * restart the clock when resumed.
+ */
+export const expireTimeLimit = internalMutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get('games', args.gameId)
+    if (!game || game.phase === 'finished' || game.pausedAt !== undefined) {
+      return null
+    }
+
+    await ctx.db.patch('games', game._id, {
+      finalRound: true,
+      timeLimitTimer: undefined,
+    })
+
+    return null
+  },
+})
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { tallyBets } from './userStats'
+import type { Id } from './_generated/dataModel'
+import type { GameEventData } from './gameEvents'
+
+const ann = 'ann' as Id<'gamePlayers'>
+const bob = 'bob' as Id<'gamePlayers'>
+const cat = 'cat' as Id<'gamePlayers'>
+const card = 'card' as Id<'gameCards'>
+
+const roundStarted: GameEventData = {
+  type: 'roundStarted',
+  activePlayerId: ann,
+  cardId: card,
+}
+
+const bet = (playerId: Id<'gamePlayers'>): GameEventData => ({
+  type: 'betPlaced',
+  playerId,
+  cardId: card,
+  slotIndex: 0,
+  tokenCost: 1,
+})
+
+const resolved = (recipientPlayerId?: Id<'gamePlayers'>): GameEventData => ({
+  type: 'roundResolved',
+  activePlayerId: ann,
+  cardId: card,
+  placementIndex: 0,
+  placementCorrect: false,
+  cardWentTo: recipientPlayerId ? 'bettor' : 'discard',
+  recipientPlayerId,
+  refunds: [],
+})
+
+describe('tallyBets', () => {
+  it('counts the bettor who took the card as winning', () => {
+    const tallies = tallyBets([roundStarted, bet(bob), bet(cat), resolved(cat)])
+    expect(tallies.get(bob)).toEqual({ betsWon: 0, betsLost: 1 })
+    expect(tallies.get(cat)).toEqual({ betsWon: 1, betsLost: 0 })
+  })
+
+  it('settles bets when a non-active seat goes away mid-round', () => {
+    const tallies = tallyBets([
+      roundStarted,
+      bet(bob),
+      bet(cat),
+      {
+        type: 'playerStatusChanged',
+        playerId: cat,
+        status: 'away',
+        refunds: [],
+      },
+      resolved(),
+    ])
+    expect(tallies.get(bob)).toEqual({ betsWon: 0, betsLost: 1 })
+    expect(tallies.get(cat)).toEqual({ betsWon: 0, betsLost: 1 })
+  })
+
+  it('drops only the bet of a non-active seat that leaves', () => {
+    const tallies = tallyBets([
+      roundStarted,
+      bet(bob),
+      bet(cat),
+      {
+        type: 'playerRemoved',
+        playerId: cat,
+        displayName: 'Cat',
+        left: true,
+        discardedCardIds: [],
+        refunds: [{ playerId: cat, amount: 1 }],
+      },
+      resolved(bob),
+    ])
+    expect(tallies.get(bob)).toEqual({ betsWon: 1, betsLost: 0 })
+    expect(tallies.has(cat)).toBe(false)
+  })
+
+  it('drops every bet when the round is abandoned', () => {
+    const refunds = [
+      { playerId: bob, amount: 1 },
+      { playerId: cat, amount: 1 },
+    ]
+    for (const abandon of [
+      { type: 'roundTimedOut', activePlayerId: ann, cardId: card, refunds },
+      {
+        type: 'playerStatusChanged',
+        playerId: ann,
+        status: 'away',
+        abandonedCardId: card,
+        refunds,
+      },
+      {
+        type: 'roundSkipped',
+        playerId: ann,
+        cardId: card,
+        tokenCost: 1,
+        refunds,
+      },
+    ] satisfies Array<GameEventData>) {
+      const tallies = tallyBets([
+        roundStarted,
+        bet(bob),
+        bet(cat),
+        abandon,
+        resolved(),
+      ])
+      expect(tallies.size).toBe(0)
+    }
+  })
+})
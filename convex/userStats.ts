@@ -0,0 +1,561 @@
+import { v } from 'convex/values'
+import { internalMutation, query } from './_generated/server'
+import { getDeckSources } from './deck'
+import { canUsePlaylist } from './playlistAccess'
+import type { Doc, Id } from './_generated/dataModel'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import type { GameEventData } from './gameEvents'
+
+// ===========================================
+// Types
+// ===========================================
+
+type PlacementTally = {
+  placementsMade: number
+  placementsCorrect: number
+}
+
+// What one user did in one game
+type GameResult = PlacementTally & {
+  displayName: string
+  won: boolean
+  betsWon: number
+  betsLost: number
+  tokensEarned: number
+  tokensSpent: number
+  decades: Map<number, PlacementTally>
+  playlists: Map<Id<'playlists'>, PlacementTally>
+}
+
+// One seat's settled bets
+type BetTally = Pick<GameResult, 'betsWon' | 'betsLost'>
+
+// How many favourite playlists the profile shows
+const TOP_PLAYLIST_COUNT = 5
+
+// How many players a playlist's leaderboard shows
+const PLAYLIST_LEADERBOARD_LENGTH = 10
+
+// ===========================================
+// Result helpers
+// ===========================================
+
+/**
+ * Count each seat's bets won and lost from a game's event log. Bets are
+ * settled when their round resolves; bets handed back (the round was
+ * skipped, timed out or abandoned, or the bettor left) count as neither.
+ */
+export function tallyBets(
+  events: Array<GameEventData>,
+): Map<Id<'gamePlayers'>, BetTally> {
+  const tallies = new Map<Id<'gamePlayers'>, BetTally>()
+
+  // Bets on the card in play
+  let pendingBettorIds: Array<Id<'gamePlayers'>> = []
+  for (const data of events) {
+    switch (data.type) {
+      case 'roundStarted':
+      case 'roundSkipped':
+      case 'roundTimedOut':
+        pendingBettorIds = []
+        break
+      case 'betPlaced':
+        pendingBettorIds.push(data.playerId)
+        break
+      case 'playerStatusChanged':
+        // Only the active seat going away abandons the round
+        if (data.abandonedCardId) {
+          pendingBettorIds = []
+        }
+        break
+      case 'playerRemoved':
+        pendingBettorIds = data.abandonedCardId
+          ? []
+          : pendingBettorIds.filter((id) => id !== data.playerId)
+        break
+      case 'roundResolved':
+        for (const bettorId of pendingBettorIds) {
+          const tally = tallies.get(bettorId) ?? { betsWon: 0, betsLost: 0 }
+          if (
+            data.cardWentTo === 'bettor' &&
+            data.recipientPlayerId === bettorId
+          ) {
+            tally.betsWon++
+          } else {
+            tally.betsLost++
+          }
+          tallies.set(bettorId, tally)
+        }
+        pendingBettorIds = []
+        break
+    }
+  }
+  return tallies
+}
+
+/**
+ * Work out each user's results in a finished game from its event log.
+ * Local seats belong to no user, so they are left out.
+ */
+async function collectGameResults(
+  ctx: QueryCtx,
+  game: Doc<'games'>,
+): Promise<Map<string, GameResult>> {
+  const players = await ctx.db
+    .query('gamePlayers')
+    .withIndex('by_gameId', (q) => q.eq('gameId', game._id))
+    .collect()
+
+  const results = new Map<string, GameResult>()
+  const userIdOf = new Map<Id<'gamePlayers'>, string>()
+  for (const player of players) {
+    if (!player.userId) continue
+
+    const won =
+      game.playStyle === 'coop'
+        ? game.finishReason === 'winCondition'
+        : player._id === game.winnerId ||
+          (player.teamId !== undefined && player.teamId === game.winningTeamId)
+    const existing = results.get(player.userId)
+    if (existing) {
+      existing.won ||= won
+    } else {
+      results.set(player.userId, {
+        displayName: player.displayName,
+        won,
+        placementsMade: 0,
+        placementsCorrect: 0,
+        betsWon: 0,
+        betsLost: 0,
+        tokensEarned: 0,
+        tokensSpent: 0,
+        decades: new Map(),
+        playlists: new Map(),
+      })
+    }
+    userIdOf.set(player._id, player.userId)
+  }
+
+  const resultOf = (playerId: Id<'gamePlayers'> | undefined) => {
+    const userId = playerId && userIdOf.get(playerId)
+    return userId ? results.get(userId) : undefined
+  }
+  const refund = (
+    refunds: Array<{ playerId: Id<'gamePlayers'>; amount: number }>,
+  ) => {
+    for (const { playerId, amount } of refunds) {
+      const result = resultOf(playerId)
+      if (result) {
+        result.tokensSpent -= amount
+      }
+    }
+  }
+
+  const events = await ctx.db
+    .query('gameEvents')
+    .withIndex('by_gameId_and_sequence', (q) => q.eq('gameId', game._id))
+    .collect()
+
+  for (const { data } of events) {
+    switch (data.type) {
+      case 'betPlaced': {
+        const result = resultOf(data.playerId)
+        if (result) {
+          result.tokensSpent += data.tokenCost
+        }
+        break
+      }
+      case 'roundSkipped': {
+        const result = resultOf(data.playerId)
+        if (result) {
+          result.tokensSpent += data.tokenCost
+        }
+        // Bets on the skipped card were handed back, not lost
+        refund(data.refunds ?? [])
+        break
+      }
+      case 'tokensTraded': {
+        const result = resultOf(data.playerId)
+        if (result) {
+          result.tokensSpent += data.tokenCost
+        }
+        break
+      }
+      case 'guessTokenClaimed': {
+        const result = resultOf(data.playerId)
+        if (result) {
+          result.tokensEarned += data.tokensAwarded
+        }
+        break
+      }
+      case 'roundResolved': {
+        const active = resultOf(data.activePlayerId)
+        if (active) {
+          const tallies: Array<PlacementTally> = [active]
+          const card = await ctx.db.get('gameCards', data.cardId)
+          if (card) {
+            const decade = Math.floor(card.releaseYear / 10) * 10
+            const decadeTally = active.decades.get(decade) ?? {
+              placementsMade: 0,
+              placementsCorrect: 0,
+            }
+            active.decades.set(decade, decadeTally)
+            tallies.push(decadeTally)
+
+            const track = await ctx.db.get('playlistTracks', card.trackId)
+            if (track) {
+              const playlistTally = active.playlists.get(track.playlistId) ?? {
+                placementsMade: 0,
+                placementsCorrect: 0,
+              }
+              active.playlists.set(track.playlistId, playlistTally)
+              tallies.push(playlistTally)
+            }
+          }
+          for (const tally of tallies) {
+            tally.placementsMade++
+            if (data.placementCorrect) {
+              tally.placementsCorrect++
+            }
+          }
+          active.tokensEarned += data.partialCredit ?? 0
+        }
+
+        // Winning bettors may get their stake back
+        for (const { playerId, amount } of data.refunds) {
+          const result = resultOf(playerId)
+          if (result) {
+            result.tokensEarned += amount
+          }
+        }
+        break
+      }
+      case 'roundTimedOut':
+      case 'playerStatusChanged':
+      case 'playerRemoved':
+        // Bets handed back: the round's, or just the departing seat's
+        refund(data.refunds)
+        break
+    }
+  }
+
+  for (const [playerId, tally] of tallyBets(events.map((e) => e.data))) {
+    const result = resultOf(playerId)
+    if (result) {
+      result.betsWon += tally.betsWon
+      result.betsLost += tally.betsLost
+    }
+  }
+
+  return results
+}
+
+/**
+ * Add one game's results to a user's lifetime totals
+ */
+async function addToUserStats(
+  ctx: MutationCtx,
+  userId: string,
+  result: GameResult,
+  playedAt: number,
+): Promise<void> {
+  const existing = await ctx.db
+    .query('userStats')
+    .withIndex('by_userId', (q) => q.eq('userId', userId))
+    .unique()
+
+  if (!existing) {
+    await ctx.db.insert('userStats', {
+      userId,
+      gamesPlayed: 1,
+      gamesWon: result.won ? 1 : 0,
+      placementsMade: result.placementsMade,
+      placementsCorrect: result.placementsCorrect,
+      betsWon: result.betsWon,
+      betsLost: result.betsLost,
+      tokensEarned: result.tokensEarned,
+      tokensSpent: result.tokensSpent,
+      lastPlayedAt: playedAt,
+    })
+    return
+  }
+
+  await ctx.db.patch('userStats', existing._id, {
+    gamesPlayed: existing.gamesPlayed + 1,
+    gamesWon: existing.gamesWon + (result.won ? 1 : 0),
+    placementsMade: existing.placementsMade + result.placementsMade,
+    placementsCorrect: existing.placementsCorrect + result.placementsCorrect,
+    betsWon: existing.betsWon + result.betsWon,
+    betsLost: existing.betsLost + result.betsLost,
+    tokensEarned: existing.tokensEarned + result.tokensEarned,
+    tokensSpent: existing.tokensSpent + result.tokensSpent,
+    lastPlayedAt: Math.max(existing.lastPlayedAt, playedAt),
+  })
+}
+
+/**
+ * Add one game's placements to a user's per-decade accuracy
+ */
+async function addToDecadeStats(
+  ctx: MutationCtx,
+  userId: string,
+  decades: Map<number, PlacementTally>,
+): Promise<void> {
+  for (const [decade, tally] of decades) {
+    const existing = await ctx.db
+      .query('userDecadeStats')
+      .withIndex('by_userId_and_decade', (q) =>
+        q.eq('userId', userId).eq('decade', decade),
+      )
+      .unique()
+
+    if (existing) {
+      await ctx.db.patch('userDecadeStats', existing._id, {
+        placementsMade: existing.placementsMade + tally.placementsMade,
+        placementsCorrect: existing.placementsCorrect + tally.placementsCorrect,
+      })
+    } else {
+      await ctx.db.insert('userDecadeStats', { userId, decade, ...tally })
+    }
+  }
+}
+
+/**
+ * Count a game, and the placements of its songs, towards each playlist its
+ * deck was built from
+ */
+async function addToPlaylistStats(
+  ctx: MutationCtx,
+  userId: string,
+  game: Doc<'games'>,
+  result: GameResult,
+  playedAt: number,
+): Promise<void> {
+  const { won } = result
+  for (const { playlistId } of getDeckSources(game)) {
+    const tally = result.playlists.get(playlistId)
+    const existing = await ctx.db
+      .query('userPlaylistStats')
+      .withIndex('by_userId_and_playlistId', (q) =>
+        q.eq('userId', userId).eq('playlistId', playlistId),
+      )
+      .unique()
+
+    if (existing) {
+      await ctx.db.patch('userPlaylistStats', existing._id, {
+        displayName: result.displayName,
+        gamesPlayed: existing.gamesPlayed + 1,
+        gamesWon: existing.gamesWon + (won ? 1 : 0),
+        placementsMade:
+          (existing.placementsMade ?? 0) + (tally?.placementsMade ?? 0),
+        placementsCorrect:
+          (existing.placementsCorrect ?? 0) + (tally?.placementsCorrect ?? 0),
+        lastPlayedAt: Math.max(existing.lastPlayedAt, playedAt),
+      })
+    } else {
+      await ctx.db.insert('userPlaylistStats', {
+        userId,
+        playlistId,
+        displayName: result.displayName,
+        gamesPlayed: 1,
+        gamesWon: won ? 1 : 0,
+        placementsMade: tally?.placementsMade ?? 0,
+        placementsCorrect: tally?.placementsCorrect ?? 0,
+        lastPlayedAt: playedAt,
+      })
+    }
+  }
+}
+
+// ===========================================
+// Internal Mutations
+// ===========================================
+
+/**
+ * Add a finished game to the stats of every user who played in it.
+ * Scheduled when the game finishes; each game is only counted once.
+ */
+export const recordGameStats = internalMutation({
+  args: {
+    gameId: v.id('games'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get('games', args.gameId)
+    if (!game || game.phase !== 'finished' || game.statsRecordedAt) {
+      return null
+    }
+
+    const playedAt = game.finishedAt ?? Date.now()
+    const results = await collectGameResults(ctx, game)
+    for (const [userId, result] of results) {
+      await addToUserStats(ctx, userId, result, playedAt)
+      await addToDecadeStats(ctx, userId, result.decades)
+      await addToPlaylistStats(ctx, userId, game, result, playedAt)
+    }
+
+    await ctx.db.patch('games', game._id, { statsRecordedAt: Date.now() })
+
+    return null
+  },
+})
+
+// ===========================================
+// Queries
+// ===========================================
+
+/**
+ * Get the signed-in user's lifetime stats, accuracy by decade and most
+ * played playlists. Null until they have finished a game.
+ */
+export const getMine = query({
+  args: {},
+  returns: v.union(
+    v.object({
+      gamesPlayed: v.number(),
+      gamesWon: v.number(),
+      placementsMade: v.number(),
+      placementsCorrect: v.number(),
+      betsWon: v.number(),
+      betsLost: v.number(),
+      tokensEarned: v.number(),
+      tokensSpent: v.number(),
+      lastPlayedAt: v.number(),
+      decades: v.array(
+        v.object({
+          decade: v.number(),
+          placementsMade: v.number(),
+          placementsCorrect: v.number(),
+        }),
+      ),
+      playlists: v.array(
+        v.object({
+          playlistId: v.id('playlists'),
+          name: v.optional(v.string()), // Unset once the playlist is deleted
+          gamesPlayed: v.number(),
+          gamesWon: v.number(),
+        }),
+      ),
+    }),
+    v.null(),
+  ),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      return null
+    }
+
+    const stats = await ctx.db
+      .query('userStats')
+      .withIndex('by_userId', (q) => q.eq('userId', identity.subject))
+      .unique()
+    if (!stats) {
+      return null
+    }
+
+    const decades = await ctx.db
+      .query('userDecadeStats')
+      .withIndex('by_userId', (q) => q.eq('userId', identity.subject))
+      .collect()
+    decades.sort((a, b) => a.decade - b.decade)
+
+    const playlistStats = await ctx.db
+      .query('userPlaylistStats')
+      .withIndex('by_userId', (q) => q.eq('userId', identity.subject))
+      .collect()
+    playlistStats.sort(
+      (a, b) =>
+        b.gamesPlayed - a.gamesPlayed || b.lastPlayedAt - a.lastPlayedAt,
+    )
+
+    const playlists = []
+    for (const entry of playlistStats.slice(0, TOP_PLAYLIST_COUNT)) {
+      const playlist = await ctx.db.get('playlists', entry.playlistId)
+      playlists.push({
+        playlistId: entry.playlistId,
+        name: playlist?.name,
+        gamesPlayed: entry.gamesPlayed,
+        gamesWon: entry.gamesWon,
+      })
+    }
+
+    return {
+      gamesPlayed: stats.gamesPlayed,
+      gamesWon: stats.gamesWon,
+      placementsMade: stats.placementsMade,
+      placementsCorrect: stats.placementsCorrect,
+      betsWon: stats.betsWon,
+      betsLost: stats.betsLost,
+      tokensEarned: stats.tokensEarned,
+      tokensSpent: stats.tokensSpent,
+      lastPlayedAt: stats.lastPlayedAt,
+      decades: decades.map((d) => ({
+        decade: d.decade,
+        placementsMade: d.placementsMade,
+        placementsCorrect: d.placementsCorrect,
+      })),
+      playlists,
+    }
+  },
+})
+
+/**
+ * Get the best players of a playlist: most wins, then best placement
+ * accuracy. Visible to anyone who can see the playlist.
+ */
+export const getPlaylistLeaderboard = query({
+  args: {
+    playlistId: v.id('playlists'),
+  },
+  returns: v.array(
+    v.object({
+      displayName: v.string(),
+      gamesPlayed: v.number(),
+      gamesWon: v.number(),
+      placementsMade: v.number(),
+      placementsCorrect: v.number(),
+      isCurrentUser: v.boolean(),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      return []
+    }
+
+    const playlist = await ctx.db.get('playlists', args.playlistId)
+    if (
+      !playlist ||
+      (!(await canUsePlaylist(ctx, playlist, identity.subject)) &&
+        !playlist.shareable)
+    ) {
+      return []
+    }
+
+    const entries = (
+      await ctx.db
+        .query('userPlaylistStats')
+        .withIndex('by_playlistId', (q) => q.eq('playlistId', playlist._id))
+        .collect()
+    ).map((entry) => ({
+      displayName: entry.displayName ?? 'Player',
+      gamesPlayed: entry.gamesPlayed,
+      gamesWon: entry.gamesWon,
+      placementsMade: entry.placementsMade ?? 0,
+      placementsCorrect: entry.placementsCorrect ?? 0,
+      isCurrentUser: entry.userId === identity.subject,
+    }))
+
+    const accuracy = (entry: (typeof entries)[0]) =>
+      entry.placementsMade > 0
+        ? entry.placementsCorrect / entry.placementsMade
+        : 0
+    entries.sort(
+      (a, b) =>
+        b.gamesWon - a.gamesWon ||
+        accuracy(b) - accuracy(a) ||
+        b.gamesPlayed - a.gamesPlayed,
+    )
+    return entries.slice(0, PLAYLIST_LEADERBOARD_LENGTH)
+  },
+})
@@ -1,9 +1,11 @@
 import {
   CaretUpDownIcon,
+  ChartBarIcon,
   GameControllerIcon,
   GoogleLogoIcon,
   HouseIcon,
   PlaylistIcon,
+  RankingIcon,
   SignOutIcon,
 } from '@phosphor-icons/react'
 import { Link } from '@tanstack/react-router'
@@ -50,6 +52,16 @@ const menuItems: Array<{ title: string; url: string; icon: Icon }> = [
     url: '/playlists',
     icon: PlaylistIcon,
   },
+  {
+    title: 'Profile',
+    url: '/profile',
+    icon: ChartBarIcon,
+  },
+  {
+    title: 'Leaderboard',
+    url: '/leaderboard',
+    icon: RankingIcon,
+  },
 ]
 
 export function AppSidebar() {
@@ -0,0 +1,202 @@
+import { CaretDownIcon } from '@phosphor-icons/react'
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+
+export interface DeckOptionsSettings {
+  minYear?: number
+  maxYear?: number
+  requirePreview: boolean
+  /** Comma-separated, as typed */
+  excludeArtists: string
+  maxDeckSize?: number
+  /** Spread decades evenly and keep same-artist cards apart */
+  eraBalanced: boolean
+  minArtistGap: number
+}
+
+export const DEFAULT_DECK_OPTIONS: DeckOptionsSettings = {
+  requirePreview: false,
+  excludeArtists: '',
+  eraBalanced: false,
+  minArtistGap: 5,
+}
+
+/**
+ * Convert the form settings to the `deckFilters` sent to `games.create`,
+ * or undefined when every track should go into the deck
+ */
+export function toDeckFilters(settings: DeckOptionsSettings) {
+  const excludeArtists = settings.excludeArtists
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+  const filters = {
+    minYear: settings.minYear,
+    maxYear: settings.maxYear,
+    requirePreview: settings.requirePreview || undefined,
+    excludeArtists: excludeArtists.length > 0 ? excludeArtists : undefined,
+    maxDeckSize: settings.maxDeckSize,
+  }
+  return Object.values(filters).some((value) => value !== undefined)
+    ? filters
+    : undefined
+}
+
+/**
+ * Convert the form settings to the `deckStrategy` sent to `games.create`
+ */
+export function toDeckStrategy(settings: DeckOptionsSettings) {
+  return settings.eraBalanced
+    ? {
+        strategy: 'eraBalanced' as const,
+        minArtistGap: settings.minArtistGap,
+      }
+    : { strategy: 'random' as const }
+}
+
+function parseOptionalInt(value: string): number | undefined {
+  return value ? parseInt(value) : undefined
+}
+
+interface DeckOptionsFieldsProps {
+  value: DeckOptionsSettings
+  onChange: (value: DeckOptionsSettings) => void
+}
+
+export function DeckOptionsFields({ value, onChange }: DeckOptionsFieldsProps) {
+  return (
+    <Collapsible className="space-y-2">
+      <CollapsibleTrigger className="group flex w-full items-center justify-between gap-2 text-sm font-medium">
+        Advanced deck options
+        <CaretDownIcon
+          weight="duotone"
+          className="size-4 transition-transform group-data-[panel-open]:rotate-180"
+        />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <p className="flex-1 text-sm">Release years</p>
+          <Input
+            type="number"
+            className="w-24"
+            placeholder="From"
+            aria-label="Earliest release year"
+            value={value.minYear ?? ''}
+            onChange={(e) =>
+              onChange({ ...value, minYear: parseOptionalInt(e.target.value) })
+            }
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input
+            type="number"
+            className="w-24"
+            placeholder="To"
+            aria-label="Latest release year"
+            value={value.maxYear ?? ''}
+            onChange={(e) =>
+              onChange({ ...value, maxYear: parseOptionalInt(e.target.value) })
+            }
+          />
+        </div>
+
+        <label className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-sm">Only songs with previews</p>
+            <p className="text-xs text-muted-foreground">
+              Skip tracks that have no audio preview
+            </p>
+          </div>
+          <Switch
+            checked={value.requirePreview}
+            onCheckedChange={(checked) =>
+              onChange({ ...value, requirePreview: checked })
+            }
+          />
+        </label>
+
+        <div className="space-y-1">
+          <label className="text-sm" htmlFor="exclude-artists">
+            Exclude artists
+          </label>
+          <Input
+            id="exclude-artists"
+            placeholder="Separate names with commas"
+            value={value.excludeArtists}
+            onChange={(e) =>
+              onChange({ ...value, excludeArtists: e.target.value })
+            }
+          />
+        </div>
+
+        <label className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-sm">Balance eras and artists</p>
+            <p className="text-xs text-muted-foreground">
+              Spread decades through the deck instead of a plain shuffle
+            </p>
+          </div>
+          <Switch
+            checked={value.eraBalanced}
+            onCheckedChange={(checked) =>
+              onChange({ ...value, eraBalanced: checked })
+            }
+          />
+        </label>
+        {value.eraBalanced && (
+          <div className="flex items-center gap-2">
+            <div className="flex-1">
+              <p className="text-sm">Artist gap</p>
+              <p className="text-xs text-muted-foreground">
+                Cards between two songs by the same artist
+              </p>
+            </div>
+            <Input
+              type="number"
+              min={0}
+              max={20}
+              className="w-24"
+              aria-label="Minimum cards between the same artist"
+              value={value.minArtistGap}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  minArtistGap: parseOptionalInt(e.target.value) ?? 0,
+                })
+              }
+            />
+            <span className="text-xs text-muted-foreground">cards</span>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <div className="flex-1">
+            <p className="text-sm">Deck size cap</p>
+            <p className="text-xs text-muted-foreground">
+              Play a random subset of the playlist
+            </p>
+          </div>
+          <Input
+            type="number"
+            min={1}
+            className="w-24"
+            placeholder="All"
+            aria-label="Maximum deck size"
+            value={value.maxDeckSize ?? ''}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                maxDeckSize: parseOptionalInt(e.target.value),
+              })
+            }
+          />
+          <span className="text-xs text-muted-foreground">cards</span>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,30 @@
+import { Input } from '@/components/ui/input'
+
+interface DeckSeedFieldProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+/**
+ * Optional seed for the deck shuffle. The same seed and playlist always deal
+ * the same card order; leave it blank for a random deck.
+ */
+export function DeckSeedField({ value, onChange }: DeckSeedFieldProps) {
+  return (
+    <fieldset className="space-y-2">
+      <label className="text-sm font-medium" htmlFor="deck-seed">
+        Deck seed (optional)
+      </label>
+      <Input
+        id="deck-seed"
+        placeholder="Random"
+        maxLength={64}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+      <p className="text-xs text-muted-foreground">
+        Reuse a seed from a finished game to play its deck again
+      </p>
+    </fieldset>
+  )
+}
@@ -0,0 +1,118 @@
+import { ArrowUpIcon } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+
+export type StandingsTieBreaker =
+  | 'correctPlacements'
+  | 'fewestTurns'
+  | 'widestSpan'
+
+export interface EndOfDeckSettings {
+  tieBreakers: Array<StandingsTieBreaker>
+  suddenDeathCards: number
+}
+
+export const DEFAULT_END_OF_DECK: EndOfDeckSettings = {
+  tieBreakers: ['correctPlacements', 'fewestTurns', 'widestSpan'],
+  suddenDeathCards: 0,
+}
+
+export const TIE_BREAKER_LABELS: Record<StandingsTieBreaker, string> = {
+  correctPlacements: 'Most correct placements',
+  fewestTurns: 'Fewest turns taken',
+  widestSpan: 'Widest range of years',
+}
+
+interface EndOfDeckFieldsProps {
+  value: EndOfDeckSettings
+  onChange: (value: EndOfDeckSettings) => void
+  /** Sudden death is only offered when everyone plays for themselves */
+  allowSuddenDeath: boolean
+}
+
+/**
+ * How the game is decided if the deck runs out before anyone wins: the order
+ * of tie-breakers after cards and tokens, and an optional sudden-death
+ * play-off between tied leaders
+ */
+export function EndOfDeckFields({
+  value,
+  onChange,
+  allowSuddenDeath,
+}: EndOfDeckFieldsProps) {
+  const moveUp = (index: number) => {
+    const tieBreakers = [...value.tieBreakers]
+    const [moved] = tieBreakers.splice(index, 1)
+    tieBreakers.splice(index - 1, 0, moved)
+    onChange({ ...value, tieBreakers })
+  }
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium">If the deck runs out</legend>
+      <p className="text-xs text-muted-foreground">
+        Most cards wins, then most tokens, then these in order
+      </p>
+      <ol className="space-y-1">
+        {value.tieBreakers.map((tieBreaker, index) => (
+          <li key={tieBreaker} className="flex items-center gap-2">
+            <span className="flex-1 text-sm">
+              {index + 1}. {TIE_BREAKER_LABELS[tieBreaker]}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon-xs"
+              aria-label={`Move ${TIE_BREAKER_LABELS[tieBreaker]} up`}
+              disabled={index === 0}
+              onClick={() => moveUp(index)}
+            >
+              <ArrowUpIcon weight="duotone" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+
+      {allowSuddenDeath && (
+        <>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-sm">Sudden death for tied leaders</span>
+            <Switch
+              checked={value.suddenDeathCards > 0}
+              onCheckedChange={(checked) =>
+                onChange({ ...value, suddenDeathCards: checked ? 5 : 0 })
+              }
+            />
+          </label>
+          {value.suddenDeathCards > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="flex-1">
+                <p className="text-sm">Reserved cards</p>
+                <p className="text-xs text-muted-foreground">
+                  Held back from the deck for the play-off
+                </p>
+              </div>
+              <Input
+                type="number"
+                min={1}
+                max={20}
+                className="w-20"
+                aria-label="Reserved cards"
+                value={value.suddenDeathCards}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    suddenDeathCards: Math.max(
+                      1,
+                      parseInt(e.target.value) || 1,
+                    ),
+                  })
+                }
+              />
+            </div>
+          )}
+        </>
+      )}
+    </fieldset>
+  )
+}
@@ -0,0 +1,88 @@
+import { Input } from '@/components/ui/input'
+
+export type GameLimitSettings =
+  | { kind: 'rounds'; rounds: number }
+  | { kind: 'time'; minutes: number }
+
+/** Defaults used when a format is first picked */
+const LIMIT_DEFAULTS: Record<GameLimitSettings['kind'], GameLimitSettings> = {
+  rounds: { kind: 'rounds', rounds: 10 },
+  time: { kind: 'time', minutes: 45 },
+}
+
+const LIMIT_OPTIONS: Array<{
+  value: GameLimitSettings['kind'] | 'none'
+  label: string
+}> = [
+  { value: 'none', label: 'First to the win condition' },
+  { value: 'rounds', label: 'Fixed rounds' },
+  { value: 'time', label: 'Time limit' },
+]
+
+interface GameLimitFieldsProps {
+  /** null when the game only ends at the win condition */
+  value: GameLimitSettings | null
+  onChange: (value: GameLimitSettings | null) => void
+}
+
+/**
+ * Game format: play to the win condition, or for a set number of rounds or
+ * minutes with the longest timeline winning
+ */
+export function GameLimitFields({ value, onChange }: GameLimitFieldsProps) {
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium">Format</legend>
+      <div className="flex flex-wrap gap-4">
+        {LIMIT_OPTIONS.map((option) => (
+          <label key={option.value} className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="gameLimit"
+              value={option.value}
+              checked={(value?.kind ?? 'none') === option.value}
+              onChange={() =>
+                onChange(
+                  option.value === 'none' ? null : LIMIT_DEFAULTS[option.value],
+                )
+              }
+              className="accent-primary"
+            />
+            <span className="text-sm">{option.label}</span>
+          </label>
+        ))}
+      </div>
+
+      {value && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {value.kind === 'rounds'
+              ? 'Everyone gets a turn each round.'
+              : 'When time runs out, the round in play is finished so everyone gets the same number of turns.'}{' '}
+            The longest timeline then wins, unless someone reaches the win
+            condition first.
+          </p>
+          <label className="flex items-center gap-2">
+            <span className="flex-1 text-sm">
+              {value.kind === 'rounds' ? 'Rounds' : 'Minutes'}
+            </span>
+            <Input
+              type="number"
+              min={value.kind === 'rounds' ? 1 : 5}
+              className="w-20"
+              value={value.kind === 'rounds' ? value.rounds : value.minutes}
+              onChange={(e) => {
+                const amount = parseInt(e.target.value) || 1
+                onChange(
+                  value.kind === 'rounds'
+                    ? { kind: 'rounds', rounds: amount }
+                    : { kind: 'time', minutes: amount },
+                )
+              }}
+            />
+          </label>
+        </>
+      )}
+    </fieldset>
+  )
+}
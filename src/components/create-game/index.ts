@@ -0,0 +1,33 @@
+export { PlayStyleFields } from './play-style-fields'
+export type { PlayStyleSettings } from './play-style-fields'
+export { RulesPresetFields, rulesPresetLabel } from './rules-preset-fields'
+export type { RulesPreset, RulesSettings } from './rules-preset-fields'
+export { TurnTimerFields, DEFAULT_TURN_TIMERS } from './turn-timer-fields'
+export type { TurnTimerSettings } from './turn-timer-fields'
+export { LateJoinFields } from './late-join-fields'
+export type { LateJoinSettings } from './late-join-fields'
+export { GameLimitFields } from './game-limit-fields'
+export type { GameLimitSettings } from './game-limit-fields'
+export {
+  EndOfDeckFields,
+  DEFAULT_END_OF_DECK,
+  TIE_BREAKER_LABELS,
+} from './end-of-deck-fields'
+export type {
+  EndOfDeckSettings,
+  StandingsTieBreaker,
+} from './end-of-deck-fields'
+export { DeckSeedField } from './deck-seed-field'
+export {
+  DeckOptionsFields,
+  DEFAULT_DECK_OPTIONS,
+  toDeckFilters,
+  toDeckStrategy,
+} from './deck-options-fields'
+export type { DeckOptionsSettings } from './deck-options-fields'
+export {
+  PlaylistSourceFields,
+  EMPTY_PLAYLIST_SOURCES,
+  toDeckSources,
+} from './playlist-source-fields'
+export type { PlaylistSourceSettings } from './playlist-source-fields'
@@ -0,0 +1,56 @@
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+
+export interface LateJoinSettings {
+  catchUpCards: number
+}
+
+interface LateJoinFieldsProps {
+  /** null when players can only join in the lobby */
+  value: LateJoinSettings | null
+  onChange: (value: LateJoinSettings | null) => void
+}
+
+/**
+ * Whether players can join once the game has started, and how many extra
+ * cards they get on top of the starting cards to catch up
+ */
+export function LateJoinFields({ value, onChange }: LateJoinFieldsProps) {
+  const enabled = value !== null
+
+  return (
+    <fieldset className="space-y-2">
+      <label className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">Allow late joins</span>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) =>
+            onChange(checked ? { catchUpCards: 0 } : null)
+          }
+        />
+      </label>
+      {enabled && (
+        <div className="flex items-center gap-2">
+          <div className="flex-1">
+            <p className="text-sm">Catch-up cards</p>
+            <p className="text-xs text-muted-foreground">
+              Extra cards for players who join mid-game
+            </p>
+          </div>
+          <Input
+            type="number"
+            min={0}
+            className="w-20"
+            aria-label="Catch-up cards"
+            value={value.catchUpCards}
+            onChange={(e) =>
+              onChange({
+                catchUpCards: e.target.value ? parseInt(e.target.value) : 0,
+              })
+            }
+          />
+        </div>
+      )}
+    </fieldset>
+  )
+}
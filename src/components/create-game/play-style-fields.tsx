@@ -0,0 +1,143 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+export type PlayStyleSettings =
+  | { playStyle: 'individual' }
+  | { playStyle: 'teams'; teamNames: Array<string> }
+  | { playStyle: 'coop'; startingLives: number }
+
+/** Defaults used when a play style is first picked */
+const PLAY_STYLE_DEFAULTS: Record<
+  PlayStyleSettings['playStyle'],
+  PlayStyleSettings
+> = {
+  individual: { playStyle: 'individual' },
+  teams: { playStyle: 'teams', teamNames: ['Team 1', 'Team 2'] },
+  coop: { playStyle: 'coop', startingLives: 3 },
+}
+
+const PLAY_STYLE_OPTIONS: Array<{
+  value: PlayStyleSettings['playStyle']
+  label: string
+}> = [
+  { value: 'individual', label: 'Everyone for themselves' },
+  { value: 'teams', label: 'Teams' },
+  { value: 'coop', label: 'Co-op' },
+]
+
+const MAX_TEAMS = 6
+
+interface PlayStyleFieldsProps {
+  value: PlayStyleSettings
+  onChange: (value: PlayStyleSettings) => void
+}
+
+export function PlayStyleFields({ value, onChange }: PlayStyleFieldsProps) {
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium">Play Style</legend>
+      <div className="flex flex-wrap gap-4">
+        {PLAY_STYLE_OPTIONS.map((option) => (
+          <label key={option.value} className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="playStyle"
+              value={option.value}
+              checked={value.playStyle === option.value}
+              onChange={() => onChange(PLAY_STYLE_DEFAULTS[option.value])}
+              className="accent-primary"
+            />
+            <span className="text-sm">{option.label}</span>
+          </label>
+        ))}
+      </div>
+
+      {value.playStyle === 'teams' && (
+        <TeamNameFields
+          teamNames={value.teamNames}
+          onChange={(teamNames) => onChange({ ...value, teamNames })}
+        />
+      )}
+
+      {value.playStyle === 'coop' && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Everyone builds one timeline together. Wrong placements cost a
+            shared life.
+          </p>
+          <label className="flex items-center gap-2">
+            <span className="flex-1 text-sm">Lives</span>
+            <Input
+              type="number"
+              min={1}
+              className="w-20"
+              value={value.startingLives}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  startingLives: Math.max(1, parseInt(e.target.value) || 1),
+                })
+              }
+            />
+          </label>
+        </>
+      )}
+    </fieldset>
+  )
+}
+
+interface TeamNameFieldsProps {
+  teamNames: Array<string>
+  onChange: (teamNames: Array<string>) => void
+}
+
+function TeamNameFields({ teamNames, onChange }: TeamNameFieldsProps) {
+  const updateName = (index: number, name: string) => {
+    const next = [...teamNames]
+    next[index] = name
+    onChange(next)
+  }
+
+  return (
+    <>
+      <p className="text-xs text-muted-foreground">
+        Each team shares one timeline and token pool. Players are spread across
+        teams and can be moved in the lobby.
+      </p>
+      <ul className="space-y-2">
+        {teamNames.map((name, index) => (
+          <li key={index} className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => updateName(index, e.target.value)}
+              placeholder={`Team ${index + 1}`}
+            />
+            {teamNames.length > 2 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  onChange(teamNames.filter((_, i) => i !== index))
+                }
+                aria-label={`Remove team ${index + 1}`}
+              >
+                ×
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {teamNames.length < MAX_TEAMS && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange([...teamNames, `Team ${teamNames.length + 1}`])
+          }
+        >
+          + Add Team
+        </Button>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,134 @@
+import type { Id } from '../../../convex/_generated/dataModel'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+
+export interface PlaylistSourceSettings {
+  /** Selected playlists, in the order they were picked */
+  playlistIds: Array<Id<'playlists'>>
+  /** Relative weights per playlist, or null to use every track */
+  weights: Record<string, number> | null
+}
+
+export const EMPTY_PLAYLIST_SOURCES: PlaylistSourceSettings = {
+  playlistIds: [],
+  weights: null,
+}
+
+const DEFAULT_WEIGHT = 1
+
+/**
+ * Convert the form settings to the `deckSources` sent to `games.create`
+ */
+export function toDeckSources(settings: PlaylistSourceSettings) {
+  const { weights } = settings
+  return settings.playlistIds.map((playlistId) => ({
+    playlistId,
+    weight: weights ? (weights[playlistId] ?? DEFAULT_WEIGHT) : undefined,
+  }))
+}
+
+interface PlaylistOption {
+  _id: Id<'playlists'>
+  name: string
+  readyTracks: number
+  isOwner: boolean
+}
+
+interface PlaylistSourceFieldsProps {
+  playlists: Array<PlaylistOption>
+  value: PlaylistSourceSettings
+  onChange: (value: PlaylistSourceSettings) => void
+}
+
+/**
+ * Pick one or more playlists to build the deck from. Songs in several
+ * playlists are only dealt once; weights set each playlist's share.
+ */
+export function PlaylistSourceFields({
+  playlists,
+  value,
+  onChange,
+}: PlaylistSourceFieldsProps) {
+  const toggle = (playlistId: Id<'playlists'>, checked: boolean) => {
+    const playlistIds = checked
+      ? [...value.playlistIds, playlistId]
+      : value.playlistIds.filter((id) => id !== playlistId)
+    onChange({
+      playlistIds,
+      // Weights only make sense when mixing playlists
+      weights: playlistIds.length > 1 ? value.weights : null,
+    })
+  }
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium">Playlists</legend>
+      <ul className="space-y-2">
+        {playlists.map((playlist) => {
+          const selected = value.playlistIds.includes(playlist._id)
+          return (
+            <li key={playlist._id} className="flex items-center gap-2">
+              <label className="flex min-w-0 flex-1 items-center gap-2">
+                <Checkbox
+                  checked={selected}
+                  onCheckedChange={(checked) => toggle(playlist._id, checked)}
+                />
+                <span className="truncate text-sm">{playlist.name}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {playlist.readyTracks} playable
+                </span>
+                {!playlist.isOwner && (
+                  <Badge variant="outline" className="shrink-0">
+                    Shared
+                  </Badge>
+                )}
+              </label>
+              {selected && value.weights && (
+                <Input
+                  type="number"
+                  min={0.5}
+                  max={10}
+                  step={0.5}
+                  className="w-20"
+                  aria-label={`Weight for ${playlist.name}`}
+                  value={value.weights[playlist._id] ?? DEFAULT_WEIGHT}
+                  onChange={(e) =>
+                    onChange({
+                      ...value,
+                      weights: {
+                        ...value.weights,
+                        [playlist._id]: e.target.value
+                          ? parseFloat(e.target.value)
+                          : DEFAULT_WEIGHT,
+                      },
+                    })
+                  }
+                />
+              )}
+            </li>
+          )
+        })}
+      </ul>
+      {value.playlistIds.length > 1 && (
+        <label className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-sm">Weight playlists</p>
+            <p className="text-xs text-muted-foreground">
+              {value.weights
+                ? 'A playlist with weight 2 supplies twice as many cards as one with weight 1'
+                : 'Every playable track goes into the deck'}
+            </p>
+          </div>
+          <Switch
+            checked={value.weights !== null}
+            onCheckedChange={(checked) =>
+              onChange({ ...value, weights: checked ? {} : null })
+            }
+          />
+        </label>
+      )}
+    </fieldset>
+  )
+}
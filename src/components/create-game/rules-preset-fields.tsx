@@ -0,0 +1,110 @@
+export type RulesPreset = 'original' | 'pro' | 'casual' | 'easy'
+
+export interface RulesSettings {
+  preset: RulesPreset
+  /** Easy mode: years per bucket */
+  yearBucketSpan?: number
+}
+
+/** Bucket sizes offered in easy mode */
+const BUCKET_SPAN_OPTIONS = [5, 10, 20]
+const DEFAULT_BUCKET_SPAN = 10
+
+const RULES_PRESET_OPTIONS: Array<{
+  value: RulesPreset
+  label: string
+  description: string
+}> = [
+  {
+    value: 'original',
+    label: 'Original',
+    description:
+      'Skip or bet for 1 token, trade 3 for a card. Winning bets are refunded.',
+  },
+  {
+    value: 'pro',
+    label: 'Pro',
+    description:
+      'Name the exact year as well as placing the card. Skip for 2, trade 4, bets close on placement and tied bets win nothing.',
+  },
+  {
+    value: 'casual',
+    label: 'Casual',
+    description: 'Start with 3 cards and trade 2 tokens for a card.',
+  },
+  {
+    value: 'easy',
+    label: 'Easy',
+    description:
+      'Cards only need to land in the right decade (or span of years). Great for kids.',
+  },
+]
+
+/** Display name for a rules preset */
+export function rulesPresetLabel(preset: RulesPreset): string {
+  return (
+    RULES_PRESET_OPTIONS.find((option) => option.value === preset)?.label ??
+    preset
+  )
+}
+
+interface RulesPresetFieldsProps {
+  value: RulesSettings
+  onChange: (value: RulesSettings) => void
+}
+
+export function RulesPresetFields({ value, onChange }: RulesPresetFieldsProps) {
+  const selected = RULES_PRESET_OPTIONS.find(
+    (option) => option.value === value.preset,
+  )
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium">Rules</legend>
+      <div className="flex flex-wrap gap-4">
+        {RULES_PRESET_OPTIONS.map((option) => (
+          <label key={option.value} className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="rulesPreset"
+              value={option.value}
+              checked={value.preset === option.value}
+              onChange={() =>
+                onChange(
+                  option.value === 'easy'
+                    ? { preset: 'easy', yearBucketSpan: DEFAULT_BUCKET_SPAN }
+                    : { preset: option.value },
+                )
+              }
+              className="accent-primary"
+            />
+            <span className="text-sm">{option.label}</span>
+          </label>
+        ))}
+      </div>
+      {selected && (
+        <p className="text-xs text-muted-foreground">{selected.description}</p>
+      )}
+      {value.preset === 'easy' && (
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="text-sm">Bucket size</span>
+          {BUCKET_SPAN_OPTIONS.map((span) => (
+            <label key={span} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="yearBucketSpan"
+                value={span}
+                checked={value.yearBucketSpan === span}
+                onChange={() => onChange({ ...value, yearBucketSpan: span })}
+                className="accent-primary"
+              />
+              <span className="text-sm">
+                {span === 10 ? 'Decades' : `${span} years`}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </fieldset>
+  )
+}
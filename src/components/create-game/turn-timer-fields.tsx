@@ -0,0 +1,91 @@
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+
+export interface TurnTimerSettings {
+  placementSeconds?: number
+  bettingSeconds?: number
+  revealSeconds?: number
+}
+
+/** Sensible defaults when timers are first switched on */
+export const DEFAULT_TURN_TIMERS: TurnTimerSettings = {
+  placementSeconds: 60,
+  bettingSeconds: 20,
+  revealSeconds: 30,
+}
+
+const TIMER_FIELDS: Array<{
+  key: keyof TurnTimerSettings
+  label: string
+  hint: string
+}> = [
+  {
+    key: 'placementSeconds',
+    label: 'Placement',
+    hint: 'Card is discarded when time runs out',
+  },
+  {
+    key: 'bettingSeconds',
+    label: 'Betting window',
+    hint: 'Card is revealed automatically',
+  },
+  {
+    key: 'revealSeconds',
+    label: 'Reveal to next turn',
+    hint: 'Round is resolved automatically',
+  },
+]
+
+interface TurnTimerFieldsProps {
+  /** null when timers are disabled */
+  value: TurnTimerSettings | null
+  onChange: (value: TurnTimerSettings | null) => void
+}
+
+export function TurnTimerFields({ value, onChange }: TurnTimerFieldsProps) {
+  const enabled = value !== null
+
+  return (
+    <fieldset className="space-y-2">
+      <label className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">Turn timers</span>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) =>
+            onChange(checked ? DEFAULT_TURN_TIMERS : null)
+          }
+        />
+      </label>
+      {enabled && (
+        <ul className="space-y-2">
+          {TIMER_FIELDS.map((field) => (
+            <li key={field.key} className="flex items-center gap-2">
+              <div className="flex-1">
+                <p className="text-sm">{field.label}</p>
+                <p className="text-xs text-muted-foreground">{field.hint}</p>
+              </div>
+              <Input
+                type="number"
+                min={5}
+                max={600}
+                placeholder="Off"
+                className="w-20"
+                aria-label={`${field.label} seconds`}
+                value={value[field.key] ?? ''}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    [field.key]: e.target.value
+                      ? parseInt(e.target.value)
+                      : undefined,
+                  })
+                }
+              />
+              <span className="text-xs text-muted-foreground">sec</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </fieldset>
+  )
+}
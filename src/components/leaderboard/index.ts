@@ -0,0 +1,3 @@
+export { LeaderboardTable } from './leaderboard-table'
+export { RatingHistoryChart } from './rating-history-chart'
+export type { LeaderboardEntry, RatingHistoryEntry } from './types'
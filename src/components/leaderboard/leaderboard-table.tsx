@@ -0,0 +1,58 @@
+import type { LeaderboardEntry } from './types'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+
+interface LeaderboardTableProps {
+  entries: Array<LeaderboardEntry>
+}
+
+/**
+ * Ratings of the user and the people they have played with, highest first
+ */
+export function LeaderboardTable({ entries }: LeaderboardTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          <TableHead>Player</TableHead>
+          <TableHead className="text-right">Games</TableHead>
+          <TableHead className="text-right">Rating</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow
+            key={entry.userId}
+            data-state={entry.isCurrentUser ? 'selected' : undefined}
+          >
+            <TableCell className="font-medium tabular-nums">
+              {entry.rank}
+            </TableCell>
+            <TableCell>
+              {entry.displayName}
+              {entry.isCurrentUser && (
+                <Badge variant="outline" className="ml-2">
+                  You
+                </Badge>
+              )}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">
+              {entry.gamesRated}
+            </TableCell>
+            <TableCell className="text-right font-bold tabular-nums">
+              {entry.rating}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,75 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import type { RatingHistoryEntry } from './types'
+import type { ChartConfig } from '@/components/ui/chart'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart'
+
+const chartConfig = {
+  rating: {
+    label: 'Rating',
+    color: 'var(--chart-1)',
+  },
+} satisfies ChartConfig
+
+interface RatingHistoryChartProps {
+  history: Array<RatingHistoryEntry>
+}
+
+/**
+ * The user's rating after each of their recent rated games
+ */
+export function RatingHistoryChart({ history }: RatingHistoryChartProps) {
+  const data = history.map((entry) => ({
+    date: new Date(entry.recordedAt).toLocaleDateString(),
+    rating: entry.ratingAfter,
+  }))
+  const latest = history.at(-1)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rating History</CardTitle>
+        <CardDescription>
+          {latest
+            ? `${latest.ratingAfter >= latest.ratingBefore ? '+' : ''}${latest.ratingAfter - latest.ratingBefore} in your last game`
+            : 'Finish a game against other signed-in players to get rated'}
+        </CardDescription>
+      </CardHeader>
+      {data.length > 0 && (
+        <CardContent>
+          <ChartContainer config={chartConfig} className="max-h-64 w-full">
+            <LineChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis
+                domain={['dataMin - 20', 'dataMax + 20']}
+                allowDecimals={false}
+                tickLine={false}
+                axisLine={false}
+                width={40}
+              />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line
+                dataKey="rating"
+                type="monotone"
+                stroke="var(--color-rating)"
+                strokeWidth={2}
+                dot={data.length < 20}
+              />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
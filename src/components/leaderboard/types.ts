@@ -0,0 +1,10 @@
+import type { api } from '../../../convex/_generated/api'
+import type { FunctionReturnType } from 'convex/server'
+
+// Types for the rating query results
+export type LeaderboardEntry = FunctionReturnType<
+  typeof api.ratings.getLeaderboard
+>[0]
+export type RatingHistoryEntry = FunctionReturnType<
+  typeof api.ratings.getMyHistory
+>[0]
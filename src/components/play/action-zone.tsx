@@ -15,7 +15,6 @@ import {
   useActivePlayer,
   useIsActivePlayer,
   useIsHost,
-  useMyPlayer,
   useWrapAction,
 } from '@/stores/play-game-store'
 
@@ -52,7 +51,6 @@ export function ActionButtons({ game, onBeforeResolve }: ActionButtonsProps) {
   const activePlayer = useActivePlayer()
   const isActivePlayer = useIsActivePlayer()
   const isHost = useIsHost()
-  const myPlayer = useMyPlayer()
   const { loading, error } = useActionState()
   const wrapAction = useWrapAction()
 
@@ -60,7 +58,6 @@ export function ActionButtons({ game, onBeforeResolve }: ActionButtonsProps) {
   const revealCard = useMutation(api.turns.revealCard)
   const resolveRound = useMutation(api.turns.resolveRound)
   const tradeTokensForCard = useMutation(api.turns.tradeTokensForCard)
-  const claimGuessToken = useMutation(api.turns.claimGuessToken)
 
   const onAction = async (action: () => Promise<unknown>) => {
     try {
@@ -77,7 +74,7 @@ export function ActionButtons({ game, onBeforeResolve }: ActionButtonsProps) {
     return (
       <div className="flex flex-col items-center gap-2">
         <div className="flex flex-wrap justify-center gap-2">
-        {game.useTokens && activePlayer.tokenBalance >= 1 && (
+        {game.useTokens && activePlayer.tokenBalance >= game.rules.skipCost && (
           <Button
             variant="outline"
             size="sm"
@@ -96,7 +93,7 @@ export function ActionButtons({ game, onBeforeResolve }: ActionButtonsProps) {
             Skip Song
           </Button>
         )}
-        {game.useTokens && activePlayer.tokenBalance >= 3 && (
+        {game.useTokens && activePlayer.tokenBalance >= game.rules.tradeCost && (
           <Button
             variant="outline"
             size="sm"
@@ -147,7 +144,7 @@ export function ActionButtons({ game, onBeforeResolve }: ActionButtonsProps) {
           </PulsingCtaWrapper>
           {isActivePlayer &&
             game.useTokens &&
-            activePlayer.tokenBalance >= 3 && (
+            activePlayer.tokenBalance >= game.rules.tradeCost && (
               <Button
                 variant="outline"
                 size="sm"
@@ -176,10 +173,6 @@ export function ActionButtons({ game, onBeforeResolve }: ActionButtonsProps) {
 
   // revealed phase
   if (game.phase === 'revealed') {
-    const alreadyClaimed =
-      myPlayer?._id &&
-      game.currentRound?.tokenClaimers.includes(myPlayer._id)
-
     const handleContinue = async () => {
       // Trigger transition animation before resolving
       if (onBeforeResolve) {
@@ -208,7 +201,7 @@ export function ActionButtons({ game, onBeforeResolve }: ActionButtonsProps) {
         )}
         {isActivePlayer &&
           game.useTokens &&
-          activePlayer.tokenBalance >= 3 && (
+          activePlayer.tokenBalance >= game.rules.tradeCost && (
             <Button
               variant="outline"
               size="sm"
@@ -227,27 +220,6 @@ export function ActionButtons({ game, onBeforeResolve }: ActionButtonsProps) {
               Auto-place
             </Button>
           )}
-        {game.useTokens &&
-          myPlayer &&
-          !alreadyClaimed &&
-          myPlayer.tokenBalance < game.maxTokens && (
-            <Button
-              variant="outline"
-              className="gap-1.5"
-              onClick={() =>
-                onAction(() =>
-                  claimGuessToken({
-                    gameId: game._id,
-                    actingPlayerId: myPlayer._id,
-                  }),
-                )
-              }
-              disabled={loading}
-            >
-              <CoinIcon weight="duotone" className="size-4" />
-              Claim Bonus
-            </Button>
-          )}
         </div>
         {error && <p className="text-sm text-destructive">{error}</p>}
       </div>
@@ -44,11 +44,20 @@ export function BetControls({ game }: BetControlsProps) {
 
   const existingBets = game.currentRound?.bets ?? []
   const alreadyBet = existingBets.some((b) => b.bettorPlayerId === myPlayer._id)
+  const teamAlreadyBet =
+    !!myPlayer.teamId &&
+    existingBets.some(
+      (b) =>
+        game.players.find((p) => p._id === b.bettorPlayerId)?.teamId ===
+        myPlayer.teamId,
+    )
 
-  if (alreadyBet) {
+  if (alreadyBet || teamAlreadyBet) {
     return (
       <p className="text-sm text-muted-foreground">
-        You've already placed a bet this round
+        {alreadyBet
+          ? "You've already placed a bet this round"
+          : 'Your team has already placed a bet this round'}
       </p>
     )
   }
@@ -70,7 +79,8 @@ export function BetControls({ game }: BetControlsProps) {
         onClick={handleBet}
         disabled={loading || selectedSlot === null}
       >
-        Place Bet (1 Token)
+        Place Bet ({game.rules.betCost}{' '}
+        {game.rules.betCost === 1 ? 'Token' : 'Tokens'})
       </Button>
       {error && <p className="text-sm text-destructive">{error}</p>}
     </div>
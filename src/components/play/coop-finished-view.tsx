@@ -0,0 +1,118 @@
+import {
+  FilmStripIcon,
+  HeartBreakIcon,
+  TrophyIcon,
+} from '@phosphor-icons/react'
+import { Link } from '@tanstack/react-router'
+import { useSuspenseQuery } from '@tanstack/react-query'
+import { GameCard } from './game-card'
+import { RematchButton, useRematchRedirect } from './rematch-button'
+import { ReplayDeckButton } from './replay-deck-button'
+import type { GameData } from './types'
+import { getAllTimelinesQuery } from '@/lib/convex-queries'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+
+interface CoopFinishedViewProps {
+  game: GameData
+}
+
+/** End screen for co-op games: the table wins or loses together */
+export function CoopFinishedView({ game }: CoopFinishedViewProps) {
+  useRematchRedirect(game)
+  const { data: timelines } = useSuspenseQuery(getAllTimelinesQuery(game._id))
+  const sharedTimeline = timelines?.[0]
+  const won = game.finishReason === 'winCondition'
+
+  const description = won
+    ? `You built a timeline of ${sharedTimeline?.cards.length ?? game.winCondition} cards together!`
+    : game.finishReason === 'outOfLives'
+      ? 'You ran out of lives.'
+      : 'The deck ran out before you reached the goal.'
+
+  return (
+    <div className="space-y-4">
+      <Card
+        className={cn(
+          'border-2',
+          won ? 'border-primary' : 'border-destructive',
+        )}
+      >
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            {won ? (
+              <TrophyIcon weight="duotone" className="size-7 text-primary" />
+            ) : (
+              <HeartBreakIcon
+                weight="duotone"
+                className="size-7 text-destructive"
+              />
+            )}
+            <CardTitle className="text-2xl">
+              {won ? 'Victory!' : 'Game Over'}
+            </CardTitle>
+          </div>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <p className="text-muted-foreground">
+            Played by {game.players.map((p) => p.displayName).join(', ')}
+            {game.livesRemaining !== undefined &&
+              ` with ${game.livesRemaining} of ${game.startingLives} lives left`}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              className="gap-1.5"
+              render={
+                <Link
+                  to="/play/$joinCode/replay"
+                  params={{ joinCode: game.joinCode }}
+                />
+              }
+            >
+              <FilmStripIcon weight="duotone" className="size-4" />
+              Watch Replay
+            </Button>
+            <RematchButton game={game} />
+          </div>
+          <ReplayDeckButton game={game} />
+        </CardContent>
+      </Card>
+
+      {sharedTimeline && (
+        <Card>
+          <CardHeader className="py-3">
+            <CardTitle className="text-base">Your Timeline</CardTitle>
+          </CardHeader>
+          <CardContent className="py-2">
+            <div className="-m-1 flex gap-2 overflow-x-auto p-1">
+              {sharedTimeline.cards.map((card) => (
+                <div
+                  key={card._id}
+                  className="flex flex-col items-center gap-1"
+                >
+                  <GameCard
+                    title={card.title}
+                    artistName={card.artistNames[0]}
+                    imageUrl={card.imageUrl}
+                  />
+                  <span className="text-xs font-medium text-muted-foreground">
+                    {card.releaseYear}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import { CoinIcon, HeartBreakIcon, HeartIcon } from '@phosphor-icons/react'
+
+import { PhaseCountdown } from './phase-countdown'
+import type { GameData, TimelineData } from './types'
+import { Progress } from '@/components/ui/progress'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { cn } from '@/lib/utils'
+
+interface CoopStatusBarProps {
+  game: GameData
+  timelines?: Array<TimelineData> | null
+}
+
+/**
+ * Shared progress for co-op games: lives left, cards towards the goal,
+ * the shared token pool and whose turn it is
+ */
+export function CoopStatusBar({ game, timelines }: CoopStatusBarProps) {
+  const sharedTimeline = timelines?.[0]
+  const cardCount = sharedTimeline?.cards.length ?? 0
+  const startingLives = game.startingLives ?? 0
+  const livesRemaining = game.livesRemaining ?? startingLives
+  const activePlayer = game.players.find(
+    (p) => p.seatIndex === game.currentTurnSeatIndex,
+  )
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Tooltip>
+          <TooltipTrigger className="flex cursor-default items-center gap-0.5">
+            {Array.from({ length: startingLives }, (_, i) =>
+              i < livesRemaining ? (
+                <HeartIcon
+                  key={i}
+                  weight="duotone"
+                  className="size-5 text-destructive"
+                />
+              ) : (
+                <HeartBreakIcon
+                  key={i}
+                  weight="duotone"
+                  className="size-5 text-muted-foreground"
+                />
+              ),
+            )}
+          </TooltipTrigger>
+          <TooltipContent>
+            {livesRemaining} of {startingLives} lives left
+          </TooltipContent>
+        </Tooltip>
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+          {game.useTokens && (
+            <Tooltip>
+              <TooltipTrigger className="flex cursor-default items-center gap-0.5">
+                <CoinIcon weight="duotone" className="size-4" />
+                {sharedTimeline?.tokenBalance ?? 0}
+              </TooltipTrigger>
+              <TooltipContent>Shared tokens</TooltipContent>
+            </Tooltip>
+          )}
+          <PhaseCountdown deadline={game.phaseDeadline} />
+        </div>
+      </div>
+
+      <Progress value={(cardCount / game.winCondition) * 100}>
+        <span className="text-sm font-medium">
+          {cardCount} / {game.winCondition} cards
+        </span>
+      </Progress>
+
+      {activePlayer && (
+        <p
+          className={cn(
+            'text-sm text-muted-foreground',
+            activePlayer.isCurrentUser && 'font-medium text-foreground',
+          )}
+        >
+          {activePlayer.isCurrentUser
+            ? "It's your turn to place the card"
+            : `${activePlayer.displayName} is placing the card`}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+export interface ExactYearAnswers {
+  year: string
+  title: string
+  artist: string
+}
+
+export const EMPTY_EXACT_YEAR_ANSWERS: ExactYearAnswers = {
+  year: '',
+  title: '',
+  artist: '',
+}
+
+/** Whether every answer the rules require has been filled in */
+export function hasRequiredAnswers(
+  answers: ExactYearAnswers,
+  requireYear: boolean,
+  requireSong: boolean,
+): boolean {
+  return (
+    (!requireYear || answers.year.trim() !== '') &&
+    (!requireSong || (!!answers.title.trim() && !!answers.artist.trim()))
+  )
+}
+
+interface ExactYearFieldsProps {
+  requireYear: boolean
+  requireSong: boolean
+  value: ExactYearAnswers
+  onChange: (value: ExactYearAnswers) => void
+  /** Once the card is placed, sends changed answers with the same placement */
+  onSave?: () => void
+  disabled?: boolean
+}
+
+/**
+ * The active player's answers under exact-year rules, sent along with the
+ * placement. The card is only kept if every required answer is right.
+ */
+export function ExactYearFields({
+  requireYear,
+  requireSong,
+  value,
+  onChange,
+  onSave,
+  disabled,
+}: ExactYearFieldsProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {requireYear && requireSong
+          ? 'Name the exact year, title and artist to keep the card'
+          : requireYear
+            ? 'Name the exact release year to keep the card'
+            : 'Name the title and artist to keep the card'}
+      </p>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        {requireYear && (
+          <Input
+            type="number"
+            inputMode="numeric"
+            placeholder="Year"
+            aria-label="Release year"
+            className="sm:w-24"
+            value={value.year}
+            onChange={(e) => onChange({ ...value, year: e.target.value })}
+          />
+        )}
+        {requireSong && (
+          <>
+            <Input
+              placeholder="Song title"
+              value={value.title}
+              onChange={(e) => onChange({ ...value, title: e.target.value })}
+            />
+            <Input
+              placeholder="Artist"
+              value={value.artist}
+              onChange={(e) => onChange({ ...value, artist: e.target.value })}
+            />
+          </>
+        )}
+        {onSave && (
+          <Button
+            variant="secondary"
+            onClick={onSave}
+            disabled={
+              disabled || !hasRequiredAnswers(value, requireYear, requireSong)
+            }
+          >
+            Update Answers
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
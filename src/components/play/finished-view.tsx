@@ -1,8 +1,15 @@
+import { FilmStripIcon } from '@phosphor-icons/react'
+import { Link } from '@tanstack/react-router'
 import { useSuspenseQuery } from '@tanstack/react-query'
+import { CoopFinishedView } from './coop-finished-view'
 import { GameCard } from './game-card'
-import type { GameData } from './types'
+import { RematchButton, useRematchRedirect } from './rematch-button'
+import { ReplayDeckButton } from './replay-deck-button'
+import { formatPlace } from './standings-utils'
+import type { GameData, TimelineData } from './types'
 import { getAllTimelinesQuery } from '@/lib/convex-queries'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import {
   Card,
   CardContent,
@@ -16,46 +23,137 @@ interface FinishedViewProps {
 }
 
 export function FinishedView({ game }: FinishedViewProps) {
-  const winner = game.players.find((p) => p._id === game.winnerId)
+  if (game.playStyle === 'coop') {
+    return <CoopFinishedView game={game} />
+  }
+
+  return <CompetitiveFinishedView game={game} />
+}
+
+/** Headline for how the game was decided */
+function describeResult(game: GameData): string {
+  const winner =
+    game.teams.find((t) => t._id === game.winningTeamId)?.name ??
+    game.players.find((p) => p._id === game.winnerId)?.displayName
+
+  if (winner) {
+    switch (game.finishReason) {
+      case 'suddenDeath':
+        return `${winner} wins in sudden death!`
+      case 'deckExhausted':
+        return `The deck ran out, and ${winner} finished on top!`
+      case 'roundLimit':
+        return `After the last round, ${winner} finished on top!`
+      case 'timeLimit':
+        return `Time's up, and ${winner} finished on top!`
+      default:
+        return `${winner} wins with ${game.winCondition}+ cards!`
+    }
+  }
+
+  const leaders = (game.standings ?? [])
+    .filter((s) => s.place === 1)
+    .map(
+      (s) =>
+        game.teams.find((t) => t._id === s.teamId)?.name ??
+        game.players.find((p) => p._id === s.playerId)?.displayName,
+    )
+  return leaders.length > 1
+    ? `${leaders.join(' and ')} share first place`
+    : 'The game has ended'
+}
+
+function CompetitiveFinishedView({ game }: FinishedViewProps) {
+  useRematchRedirect(game)
   const { data: timelines } = useSuspenseQuery(getAllTimelinesQuery(game._id))
 
+  // Games finished before standings were recorded rank on cards alone
+  const standingOf = (timeline: TimelineData) =>
+    game.standings?.find(
+      (s) =>
+        (s.teamId ?? s.playerId) === (timeline.teamId ?? timeline.playerId),
+    )
+  const ranked = [...(timelines ?? [])]
+    .map((timeline) => ({ timeline, standing: standingOf(timeline) }))
+    .sort((a, b) =>
+      a.standing && b.standing
+        ? a.standing.place - b.standing.place
+        : b.timeline.cards.length - a.timeline.cards.length,
+    )
+
   return (
     <div className="space-y-4">
       <Card className="border-2 border-primary">
         <CardHeader>
           <CardTitle className="text-2xl">Game Over!</CardTitle>
-          <CardDescription>
-            {winner
-              ? `${winner.displayName} wins with ${game.winCondition}+ cards!`
-              : 'The game has ended'}
-          </CardDescription>
+          <CardDescription>{describeResult(game)}</CardDescription>
         </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              className="gap-1.5"
+              render={
+                <Link
+                  to="/play/$joinCode/replay"
+                  params={{ joinCode: game.joinCode }}
+                />
+              }
+            >
+              <FilmStripIcon weight="duotone" className="size-4" />
+              Watch Replay
+            </Button>
+            <RematchButton game={game} />
+          </div>
+          <ReplayDeckButton game={game} />
+        </CardContent>
       </Card>
 
       {/* Final Timelines */}
       {timelines && (
         <div className="space-y-4">
-          <h2 className="text-lg font-semibold">Final Timelines</h2>
-          {[...timelines]
-            .sort((a, b) => b.cards.length - a.cards.length)
-            .map((timeline, index) => (
+          <h2 className="text-lg font-semibold">Final Standings</h2>
+          {ranked.map(({ timeline, standing }, index) => {
+            const isFirst = standing ? standing.place === 1 : index === 0
+            return (
               <Card
-                key={timeline.playerId}
-                className={index === 0 ? 'border-2 border-primary' : ''}
+                key={timeline.teamId ?? timeline.playerId}
+                className={isFirst ? 'border-2 border-primary' : ''}
               >
                 <CardHeader className="py-3">
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-base">
-                      {index === 0 && '🏆 '}
+                      {isFirst && '🏆 '}
+                      {standing && (
+                        <span className="mr-2 text-muted-foreground">
+                          {formatPlace(standing.place)}
+                        </span>
+                      )}
                       {timeline.displayName}
                       {timeline.isCurrentUser && (
                         <Badge className="ml-2">You</Badge>
                       )}
                     </CardTitle>
-                    <span className="text-lg font-bold">
-                      {timeline.cards.length} cards
+                    <span className="text-right">
+                      <span className="text-lg font-bold">
+                        {timeline.cards.length} cards
+                      </span>
+                      {standing && game.useTokens && (
+                        <span className="block text-xs text-muted-foreground">
+                          {standing.tokenBalance}{' '}
+                          {standing.tokenBalance === 1 ? 'token' : 'tokens'}
+                        </span>
+                      )}
                     </span>
                   </div>
+                  {timeline.teamId && (
+                    <CardDescription>
+                      {game.players
+                        .filter((p) => timeline.memberIds.includes(p._id))
+                        .map((p) => p.displayName)
+                        .join(', ')}
+                    </CardDescription>
+                  )}
                 </CardHeader>
                 <CardContent className="py-2">
                   <div className="-m-1 flex gap-2 overflow-x-auto p-1">
@@ -70,7 +168,8 @@ export function FinishedView({ game }: FinishedViewProps) {
                   </div>
                 </CardContent>
               </Card>
-            ))}
+            )
+          })}
         </div>
       )}
     </div>
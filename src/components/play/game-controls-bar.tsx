@@ -10,18 +10,27 @@ import {
 } from '@dnd-kit/core'
 import { useMutation } from 'convex/react'
 import { useQuery } from '@tanstack/react-query'
-import { useCallback, useEffect, useRef } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { MusicNoteIcon } from '@phosphor-icons/react'
 
 import { api } from '../../../convex/_generated/api'
 import { BetControls } from './bet-controls'
+import { CoopStatusBar } from './coop-status-bar'
+import {
+  EMPTY_EXACT_YEAR_ANSWERS,
+  ExactYearFields,
+  hasRequiredAnswers,
+} from './exact-year-fields'
 import { MYSTERY_CARD_ID, MysteryCardStack } from './mystery-card-stack'
+import { PhaseCountdown } from './phase-countdown'
 import { PlayerStatusBar } from './player-status-bar'
 import { DraggableMysteryCard } from './round-timeline-card'
+import { SongGuessPanel } from './song-guess-panel'
 import { TimelineDropArea } from './timeline-drop-area'
 import { TimelineViewReadonly } from './timeline-view-readonly'
 
 import type { DragEndEvent, DragOverEvent, Modifier } from '@dnd-kit/core'
+import type { ExactYearAnswers } from './exact-year-fields'
 import type { GameData, TimelineData } from './types'
 import {
   getCurrentRoundCardQuery,
@@ -35,6 +44,7 @@ import {
   useDndState,
   useIsActivePlayer,
   useIsExiting,
+  useIsOnActiveTeam,
   useMyPlayer,
   usePlayGameStore,
   useSetDndActiveId,
@@ -90,6 +100,7 @@ export function GameControlsBar({ game, timelines }: GameControlsBarProps) {
   // Get derived state from store
   const activePlayer = useActivePlayer()
   const isActivePlayer = useIsActivePlayer()
+  const isOnActiveTeam = useIsOnActiveTeam()
   const myPlayer = useMyPlayer()
   const activePlayerTimeline = useActivePlayerTimeline()
 
@@ -112,6 +123,18 @@ export function GameControlsBar({ game, timelines }: GameControlsBarProps) {
 
   const placeCard = useMutation(api.turns.placeCard)
 
+  // Exact-year answers are kept per card, so they clear when a new card is drawn
+  const requireYear = !!game.rules.requireExactYear
+  const requireSong = !!game.rules.requireTitleArtist
+  const [answers, setAnswers] = useState<
+    ExactYearAnswers & { cardId?: string }
+  >(EMPTY_EXACT_YEAR_ANSWERS)
+  const roundAnswers =
+    answers.cardId === game.currentRound?.cardId
+      ? answers
+      : EMPTY_EXACT_YEAR_ANSWERS
+  const answersReady = hasRequiredAnswers(roundAnswers, requireYear, requireSong)
+
   // We need a ref to access current items in DnD callbacks without stale closures
   const itemsRef = useRef(items)
   useEffect(() => {
@@ -186,12 +209,17 @@ export function GameControlsBar({ game, timelines }: GameControlsBarProps) {
           gameId: game._id,
           actingPlayerId: activePlayer._id,
           insertIndex,
+          yearGuess: roundAnswers.year
+            ? parseInt(roundAnswers.year)
+            : undefined,
+          title: roundAnswers.title || undefined,
+          artist: roundAnswers.artist || undefined,
         })
       })
     } catch {
       // Error is already handled by wrapAction
     }
-  }, [activePlayer, game._id, placeCard, wrapAction])
+  }, [activePlayer, game._id, placeCard, wrapAction, roundAnswers])
 
   const handleDragStart = useCallback(
     (event: { active: { id: string | number } }) => {
@@ -310,11 +338,13 @@ export function GameControlsBar({ game, timelines }: GameControlsBarProps) {
   const isCardPlaced = items.includes(MYSTERY_CARD_ID)
 
   // Card stack is only draggable during placement phases when it's the active player's turn
+  // (and, under exact-year rules, once the answers are filled in)
   const canDragCard =
     isActivePlayer &&
     (game.phase === 'awaitingPlacement' || game.phase === 'awaitingReveal') &&
     !isCardPlaced &&
-    !isPlacing
+    !isPlacing &&
+    answersReady
 
   // Cards remaining in the deck
   const cardsRemaining = game.deckRemaining
@@ -344,6 +374,10 @@ export function GameControlsBar({ game, timelines }: GameControlsBarProps) {
                 Listen and place it on your timeline
               </p>
             </div>
+            <PhaseCountdown
+              deadline={game.phaseDeadline}
+              className="shrink-0 text-lg text-primary"
+            />
           </div>
           <div className="mt-3">
             <PreviewPlayer
@@ -356,7 +390,34 @@ export function GameControlsBar({ game, timelines }: GameControlsBarProps) {
       </div>
 
       {/* Player status bar - stays in place, highlight animates between players */}
-      <PlayerStatusBar game={game} timelines={timelines} />
+      {game.playStyle === 'coop' ? (
+        <CoopStatusBar game={game} timelines={timelines} />
+      ) : (
+        <PlayerStatusBar game={game} timelines={timelines} />
+      )}
+
+      {/* Exact-year answers, sent along with the placement */}
+      {shouldShowDropzone && (requireYear || requireSong) && (
+        <ExactYearFields
+          requireYear={requireYear}
+          requireSong={requireSong}
+          value={roundAnswers}
+          onChange={(value) =>
+            setAnswers({ ...value, cardId: game.currentRound?.cardId })
+          }
+          onSave={
+            game.currentRound?.placementIndex !== undefined
+              ? () => {
+                  const placementIndex = game.currentRound?.placementIndex
+                  if (placementIndex !== undefined) {
+                    handlePlaceCard(placementIndex)
+                  }
+                }
+              : undefined
+          }
+          disabled={isPlacing}
+        />
+      )}
 
       {/* Play area card - card and stack stay in place, only timeline animates */}
       {activePlayerTimeline && shouldShowDropzone ? (
@@ -367,6 +428,7 @@ export function GameControlsBar({ game, timelines }: GameControlsBarProps) {
           isDragging={isDragging}
           isCardPlaced={isCardPlaced}
           dragDisabled={isPlacing}
+          yearBucketSpan={game.rules.yearBucketSpan}
           cardStack={
             <MysteryCardStack
               key={`${canDragCard}-${game.currentRound?.card?.title ?? 'none'}`}
@@ -398,23 +460,28 @@ export function GameControlsBar({ game, timelines }: GameControlsBarProps) {
         </p>
       )}
 
-      {/* Betting controls for non-active players */}
+      {/* Betting controls for non-active players (and not their teammates) */}
       {!isActivePlayer &&
+        !isOnActiveTeam &&
         game.useTokens &&
         myPlayer &&
-        myPlayer.tokenBalance >= 1 &&
+        myPlayer.tokenBalance >= game.rules.betCost &&
         (game.phase === 'awaitingPlacement' ||
-          game.phase === 'awaitingReveal') && (
+          (game.phase === 'awaitingReveal' &&
+            game.rules.betsAfterPlacement)) && (
           <div className="space-y-3">
             <p className="text-sm text-muted-foreground">
               {game.phase === 'awaitingReveal'
                 ? 'Last chance to place your bet!'
-                : 'Bet on where the card should go (costs 1 token)'}
+                : `Bet on where the card should go (costs ${game.rules.betCost} ${game.rules.betCost === 1 ? 'token' : 'tokens'})`}
             </p>
             <BetControls game={game} />
           </div>
         )}
 
+      {/* Song title/artist guesses, judged on the reveal */}
+      <SongGuessPanel game={game} />
+
       {/* Drag overlay */}
       <DragOverlay dropAnimation={null}>
         {isDragging && <DraggableMysteryCard />}
@@ -1,19 +1,86 @@
-import { MusicNoteIcon } from '@phosphor-icons/react'
+import { EyeIcon, LightningIcon, MusicNoteIcon } from '@phosphor-icons/react'
 
+import { GameLimitBadge } from './game-limit-badge'
+import { LateJoinPopover } from './late-join-popover'
+import { LeaveGameButton } from './leave-game-button'
+import { PauseGameButton } from './pause-game-button'
+import { SeatClaimsPopover } from './seat-claims-popover'
+import { StopWatchingButton } from './stop-watching-button'
 import type { GameData } from './types'
+import { Badge } from '@/components/ui/badge'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
 
 interface GameHeaderProps {
   game: GameData
 }
 
 export function GameHeader({ game }: GameHeaderProps) {
+  const isMixed = game.sources.length > 1
+  const contenders =
+    game.phase !== 'finished' && game.suddenDeathContenderIds
+      ? game.players.filter((p) =>
+          game.suddenDeathContenderIds?.includes(p._id),
+        )
+      : []
+
   return (
     <div className="flex items-center gap-2">
-      <MusicNoteIcon weight="duotone" className="size-6 text-primary" />
-      <h1 className="truncate text-xl font-bold">
-        {game.playlistName ?? 'Song Game'}
-      </h1>
+      <MusicNoteIcon
+        weight="duotone"
+        className="size-6 shrink-0 text-primary"
+      />
+      <div className="min-w-0 flex-1">
+        <h1 className="truncate text-xl font-bold">
+          {isMixed ? 'Mixed Playlists' : (game.playlistName ?? 'Song Game')}
+        </h1>
+        {isMixed && (
+          <p className="truncate text-xs text-muted-foreground">
+            {formatDeckSources(game.sources)}
+          </p>
+        )}
+      </div>
+      <GameLimitBadge game={game} />
+      {contenders.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger render={<Badge variant="destructive" />}>
+            <LightningIcon weight="duotone" />
+            Sudden death
+          </TooltipTrigger>
+          <TooltipContent>
+            Playing off: {contenders.map((p) => p.displayName).join(' vs ')}
+          </TooltipContent>
+        </Tooltip>
+      )}
+      {game.spectators.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger className="flex shrink-0 cursor-default items-center gap-1 text-sm text-muted-foreground">
+            <EyeIcon weight="duotone" className="size-4" />
+            {game.spectators.length}
+          </TooltipTrigger>
+          <TooltipContent>
+            Watching: {game.spectators.map((s) => s.displayName).join(', ')}
+          </TooltipContent>
+        </Tooltip>
+      )}
+      <SeatClaimsPopover game={game} />
+      <LateJoinPopover game={game} />
+      <PauseGameButton game={game} />
+      <StopWatchingButton game={game} />
+      <LeaveGameButton game={game} />
     </div>
   )
 }
 
+/** List a game's playlists, with their weights when the deck is weighted */
+export function formatDeckSources(sources: GameData['sources']): string {
+  return sources
+    .map(({ name, weight }) => {
+      const label = name ?? 'Deleted playlist'
+      return weight !== undefined ? `${label} ×${weight}` : label
+    })
+    .join(' · ')
+}
@@ -0,0 +1,52 @@
+import { FlagCheckeredIcon, HourglassIcon } from '@phosphor-icons/react'
+
+import { formatSeconds } from './phase-countdown'
+import type { GameData } from './types'
+import { Badge } from '@/components/ui/badge'
+import { useCountdown } from '@/hooks/use-countdown'
+
+interface GameLimitBadgeProps {
+  game: GameData
+}
+
+/**
+ * Rounds or playing time left in a round- or time-limited game, flagging the
+ * final round once it starts
+ */
+export function GameLimitBadge({ game }: GameLimitBadgeProps) {
+  const secondsLeft = useCountdown(game.timeLimitDeadline)
+
+  if (!game.limit || game.phase === 'lobby' || game.phase === 'finished') {
+    return null
+  }
+
+  if (game.isFinalRound) {
+    return (
+      <Badge variant="destructive" className="shrink-0">
+        <FlagCheckeredIcon weight="duotone" />
+        Final round
+      </Badge>
+    )
+  }
+
+  if (game.limit.kind === 'rounds') {
+    return (
+      <Badge variant="secondary" className="shrink-0 tabular-nums">
+        <FlagCheckeredIcon weight="duotone" />
+        Round {game.roundsCompleted + 1} of {game.limit.rounds}
+      </Badge>
+    )
+  }
+
+  // Paused games have no running clock
+  if (secondsLeft === null) {
+    return null
+  }
+
+  return (
+    <Badge variant="secondary" className="shrink-0 tabular-nums">
+      <HourglassIcon weight="duotone" />
+      {formatSeconds(secondsLeft)} left
+    </Badge>
+  )
+}
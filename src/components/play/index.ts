@@ -1,20 +1,36 @@
 export { LobbyView } from './lobby-view'
 export { FinishedView } from './finished-view'
+export { ReplayView } from './replay-view'
+export { ReplayDeckButton } from './replay-deck-button'
+export { RematchButton, useRematchRedirect } from './rematch-button'
 export { GameHeader } from './game-header'
+export { PausedOverlay } from './paused-overlay'
 export { TimelineViewReadonly } from './timeline-view-readonly'
 export type { TimelineViewReadonlyProps } from './timeline-view-readonly'
 export { TimelineDropArea } from './timeline-drop-area'
 export { BetControls } from './bet-controls'
+export { SongGuessPanel } from './song-guess-panel'
 export { ActionButtons } from './action-zone'
 export { MysteryCardStack, MYSTERY_CARD_ID } from './mystery-card-stack'
 export { GameControlsBar } from './game-controls-bar'
 export { PlayerStatusBar } from './player-status-bar'
+export { CoopStatusBar } from './coop-status-bar'
 export { TurnPrompt } from './turn-prompt'
 export { GameStickyFooter } from './game-sticky-footer'
 export { GameCard } from './game-card'
+export { PhaseCountdown } from './phase-countdown'
 export { RoundTimelineCard, DraggableMysteryCard } from './round-timeline-card'
 export {
   computeValidInsertionIndices,
   isPlacementCorrect,
 } from './placement-utils'
-export type { GameData, PlayerData, TimelineData, CardData } from './types'
+export { buildReplayRounds } from './replay-utils'
+export { formatPlace } from './standings-utils'
+export type { ReplayRound, ReplayPlayerState } from './replay-utils'
+export type {
+  GameData,
+  PlayerData,
+  TimelineData,
+  CardData,
+  ReplayData,
+} from './types'
@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { useMutation } from 'convex/react'
+import { CopyIcon, UserPlusIcon } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { GameData } from './types'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Popover,
+  PopoverContent,
+  PopoverDescription,
+  PopoverHeader,
+  PopoverTitle,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { Switch } from '@/components/ui/switch'
+
+interface LateJoinPopoverProps {
+  game: GameData
+}
+
+/**
+ * Host-only switch to let friends join a multi-device game after it has
+ * started, with the catch-up cards they are dealt
+ */
+export function LateJoinPopover({ game }: LateJoinPopoverProps) {
+  const setLateJoin = useMutation(api.games.setLateJoin)
+  const [catchUpCards, setCatchUpCards] = useState(
+    String(game.lateJoin?.catchUpCards ?? 0),
+  )
+  const [isSaving, setIsSaving] = useState(false)
+
+  if (
+    !game.isCurrentUserHost ||
+    game.mode !== 'sidecars' ||
+    game.phase === 'lobby' ||
+    game.phase === 'finished'
+  ) {
+    return null
+  }
+
+  const save = async (lateJoin: GameData['lateJoin']) => {
+    setIsSaving(true)
+    try {
+      await setLateJoin({ gameId: game._id, lateJoin })
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to update late joins',
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCatchUpBlur = () => {
+    const value = parseInt(catchUpCards) || 0
+    if (game.lateJoin && value !== game.lateJoin.catchUpCards) {
+      save({ catchUpCards: value })
+    }
+  }
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(
+      `${window.location.origin}/play/${game.joinCode}`,
+    )
+    toast.success('Invite link copied')
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        render={<Button variant="outline" size="sm" className="gap-1.5" />}
+      >
+        <UserPlusIcon weight="duotone" className="size-4" />
+        Invite
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <PopoverHeader>
+          <PopoverTitle>Late joins</PopoverTitle>
+          <PopoverDescription>
+            Newcomers take the last seat and are dealt the starting cards plus
+            any catch-up cards
+          </PopoverDescription>
+        </PopoverHeader>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-sm">Allow late joins</span>
+          <Switch
+            checked={!!game.lateJoin}
+            disabled={isSaving}
+            onCheckedChange={(checked) =>
+              save(
+                checked
+                  ? { catchUpCards: parseInt(catchUpCards) || 0 }
+                  : undefined,
+              )
+            }
+          />
+        </label>
+        {game.lateJoin && (
+          <>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm">Catch-up cards</span>
+              <Input
+                type="number"
+                min={0}
+                className="w-20"
+                aria-label="Catch-up cards"
+                value={catchUpCards}
+                disabled={isSaving}
+                onChange={(e) => setCatchUpCards(e.target.value)}
+                onBlur={handleCatchUpBlur}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1.5"
+              onClick={handleCopyLink}
+            >
+              <CopyIcon weight="duotone" className="size-4" />
+              Copy Invite Link
+            </Button>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
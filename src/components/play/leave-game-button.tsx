@@ -0,0 +1,60 @@
+import { useNavigate } from '@tanstack/react-router'
+import { useMutation } from 'convex/react'
+import { SignOutIcon } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { GameData } from './types'
+import { Button } from '@/components/ui/button'
+
+interface LeaveGameButtonProps {
+  game: GameData
+}
+
+/**
+ * Lets a seated player leave a game that has started. Their cards are kept
+ * in the standings or discarded, depending on the rules.
+ */
+export function LeaveGameButton({ game }: LeaveGameButtonProps) {
+  const navigate = useNavigate()
+  const leaveGame = useMutation(api.games.leave)
+
+  const myPlayer = game.players.find((p) => p.isCurrentUser)
+  if (
+    !myPlayer ||
+    myPlayer.isHostSeat ||
+    myPlayer.status === 'left' ||
+    game.phase === 'lobby' ||
+    game.phase === 'finished'
+  ) {
+    return null
+  }
+
+  const handleLeave = async () => {
+    const warning = myPlayer.claimedFromLocal
+      ? 'Leave the game? Your seat goes back to the host.'
+      : game.rules.keepCardsOnLeave
+        ? 'Leave the game? Your cards stay in the standings, but you will get no more turns.'
+        : 'Leave the game? Your timeline cards will be discarded.'
+    if (!confirm(warning)) return
+    try {
+      await leaveGame({ gameId: game._id })
+      navigate({ to: '/' })
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to leave game',
+      )
+    }
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="shrink-0 gap-1.5"
+      onClick={handleLeave}
+    >
+      <SignOutIcon weight="duotone" className="size-4" />
+      Leave
+    </Button>
+  )
+}
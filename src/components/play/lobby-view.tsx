@@ -1,14 +1,42 @@
-import { CheckIcon, CopyIcon, LinkIcon, UsersIcon } from '@phosphor-icons/react'
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core'
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import {
+  CheckIcon,
+  CopyIcon,
+  DotsSixVerticalIcon,
+  EyeIcon,
+  LinkIcon,
+  UsersIcon,
+} from '@phosphor-icons/react'
 import { useNavigate } from '@tanstack/react-router'
 import { useMutation } from 'convex/react'
 import { motion } from 'motion/react'
 import { useEffect, useRef, useState } from 'react'
 import { toast } from 'sonner'
 import { api } from '../../../convex/_generated/api'
+import { formatDeckSources } from './game-header'
+import { PlayerActionsMenu } from './player-actions-menu'
+import type { DragEndEvent } from '@dnd-kit/core'
+import type { ReactNode } from 'react'
 import type { Id } from '../../../convex/_generated/dataModel'
 import type { GameData } from './types'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { TIE_BREAKER_LABELS, rulesPresetLabel } from '@/components/create-game'
 import {
   Card,
   CardContent,
@@ -17,6 +45,14 @@ import {
   CardTitle,
 } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
 
 interface LobbyViewProps {
   game: GameData
@@ -28,14 +64,32 @@ export function LobbyView({ game }: LobbyViewProps) {
 
   const startGame = useMutation(api.games.start)
   const addLocalPlayer = useMutation(api.games.addLocalPlayer)
-  const removeLocalPlayer = useMutation(api.games.removeLocalPlayer)
+  const reorderSeats = useMutation(api.games.reorderSeats)
   const deleteGame = useMutation(api.games.deleteGame)
   const leaveGame = useMutation(api.games.leave)
+  const setPlayerTeam = useMutation(api.teams.setPlayerTeam)
 
   const [newPlayerName, setNewPlayerName] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [copied, setCopied] = useState(false)
+  // Shown while a drag-and-drop reorder is being saved
+  const [pendingOrder, setPendingOrder] = useState<Array<
+    Id<'gamePlayers'>
+  > | null>(null)
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  )
+
+  const players = [...game.players].sort((a, b) =>
+    pendingOrder
+      ? pendingOrder.indexOf(a._id) - pendingOrder.indexOf(b._id)
+      : a.seatIndex - b.seatIndex,
+  )
 
   const copyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
@@ -63,6 +117,17 @@ export function LobbyView({ game }: LobbyViewProps) {
     }
   }
 
+  const handleCopySpectateLink = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/watch/${game.spectateCode}`,
+      )
+      toast.success('Watch link copied to clipboard')
+    } catch {
+      toast.error('Failed to copy link')
+    }
+  }
+
   const handleStart = async () => {
     setError(null)
     setLoading(true)
@@ -89,12 +154,34 @@ export function LobbyView({ game }: LobbyViewProps) {
     }
   }
 
-  const handleRemovePlayer = async (playerId: Id<'gamePlayers'>) => {
+  const handleSeatDragEnd = async ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return
+    const ids = players.map((p) => p._id)
+    const order = arrayMove(
+      ids,
+      ids.indexOf(active.id as Id<'gamePlayers'>),
+      ids.indexOf(over.id as Id<'gamePlayers'>),
+    )
+    setError(null)
+    setPendingOrder(order)
+    try {
+      await reorderSeats({ gameId: game._id, playerIds: order })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reorder seats')
+    } finally {
+      setPendingOrder(null)
+    }
+  }
+
+  const handleSetTeam = async (
+    playerId: Id<'gamePlayers'>,
+    teamId: Id<'gameTeams'>,
+  ) => {
     setError(null)
     try {
-      await removeLocalPlayer({ playerId })
+      await setPlayerTeam({ playerId, teamId })
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to remove player')
+      setError(err instanceof Error ? err.message : 'Failed to change team')
     }
   }
 
@@ -120,7 +207,7 @@ export function LobbyView({ game }: LobbyViewProps) {
   return (
     <div className="space-y-4">
       {/* Invite Players Card - only for sidecars mode */}
-      {game.mode === 'sidecars' && (
+      {game.mode === 'sidecars' && !game.isCurrentUserSpectator && (
         <Card className="border-primary/20 bg-gradient-to-br from-primary/5 to-primary/10">
           <CardHeader className="pb-3">
             <div className="flex items-center gap-2">
@@ -180,29 +267,115 @@ export function LobbyView({ game }: LobbyViewProps) {
             <p className="text-sm font-medium">
               Players ({game.players.length})
             </p>
-            {game.players.map((player) => (
-              <div
-                key={player._id}
-                className="flex items-center justify-between rounded-lg border p-2"
+            {isHost && game.players.length > 1 && (
+              <p className="text-xs text-muted-foreground">
+                Drag players to set the turn order
+              </p>
+            )}
+            <DndContext
+              sensors={sensors}
+              collisionDetection={closestCenter}
+              onDragEnd={handleSeatDragEnd}
+            >
+              <SortableContext
+                items={players.map((p) => p._id)}
+                strategy={verticalListSortingStrategy}
               >
-                <div className="flex items-center gap-2">
-                  <span>{player.displayName}</span>
-                  {player.isHostSeat && <Badge variant="outline">Host</Badge>}
-                  {player.isCurrentUser && <Badge>You</Badge>}
-                </div>
-                {isHost && !player.isHostSeat && game.mode === 'hostOnly' && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleRemovePlayer(player._id)}
-                  >
-                    Remove
-                  </Button>
-                )}
-              </div>
-            ))}
+                {players.map((player) => {
+                  const team = game.teams.find((t) => t._id === player.teamId)
+                  return (
+                    <SortableSeat
+                      key={player._id}
+                      id={player._id}
+                      disabled={!isHost}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span>{player.displayName}</span>
+                        {player.isHostSeat && (
+                          <Badge variant="outline">Host</Badge>
+                        )}
+                        {player.isCurrentUser && <Badge>You</Badge>}
+                        {team && !isHost && game.playStyle === 'teams' && (
+                          <Badge variant="secondary">{team.name}</Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {team && isHost && game.playStyle === 'teams' && (
+                          <Select
+                            value={team._id}
+                            onValueChange={(value) =>
+                              value &&
+                              handleSetTeam(
+                                player._id,
+                                value as Id<'gameTeams'>,
+                              )
+                            }
+                          >
+                            <SelectTrigger
+                              size="sm"
+                              aria-label={`Team for ${player.displayName}`}
+                            >
+                              <SelectValue>{team.name}</SelectValue>
+                            </SelectTrigger>
+                            <SelectContent>
+                              {game.teams.map((t) => (
+                                <SelectItem key={t._id} value={t._id}>
+                                  {t.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <PlayerActionsMenu game={game} player={player} />
+                      </div>
+                    </SortableSeat>
+                  )
+                })}
+              </SortableContext>
+            </DndContext>
           </div>
 
+          {/* Spectators */}
+          {game.spectators.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                Watching ({game.spectators.length})
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {game.spectators.map((spectator) => (
+                  <Badge key={spectator._id} variant="secondary">
+                    <EyeIcon weight="duotone" />
+                    {spectator.displayName}
+                    {spectator.isCurrentUser && ' (you)'}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+          {game.spectateCode && !game.isCurrentUserSpectator && (
+            <div className="flex items-center gap-2 rounded-lg border p-2 text-sm">
+              <EyeIcon
+                weight="duotone"
+                className="size-4 shrink-0 text-muted-foreground"
+              />
+              <p className="flex-1">
+                Spectate code:{' '}
+                <span className="font-mono font-medium">
+                  {game.spectateCode}
+                </span>
+              </p>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1.5"
+                onClick={handleCopySpectateLink}
+              >
+                <CopyIcon weight="duotone" className="size-4" />
+                Copy Watch Link
+              </Button>
+            </div>
+          )}
+
           {/* Add player (host only mode) */}
           {isHost && game.mode === 'hostOnly' && (
             <div className="flex gap-2">
@@ -257,9 +430,11 @@ export function LobbyView({ game }: LobbyViewProps) {
                 </Button>
               </>
             ) : (
-              <Button variant="outline" onClick={handleLeave}>
-                Leave Game
-              </Button>
+              !game.isCurrentUserSpectator && (
+                <Button variant="outline" onClick={handleLeave}>
+                  Leave Game
+                </Button>
+              )
             )}
           </div>
         </CardContent>
@@ -271,18 +446,137 @@ export function LobbyView({ game }: LobbyViewProps) {
           <CardTitle>Settings</CardTitle>
         </CardHeader>
         <CardContent className="grid grid-cols-2 gap-2 text-sm">
+          <div>{game.sources.length > 1 ? 'Playlists:' : 'Playlist:'}</div>
+          <div>{formatDeckSources(game.sources)}</div>
           <div>Mode:</div>
           <div>
             {game.mode === 'hostOnly' ? 'Single Device' : 'Multi-Device'}
           </div>
+          {game.playStyle === 'teams' && (
+            <>
+              <div>Teams:</div>
+              <div>
+                {game.teams
+                  .map(
+                    (t) =>
+                      `${t.name} (${game.players.filter((p) => p.teamId === t._id).length})`,
+                  )
+                  .join(', ')}
+              </div>
+            </>
+          )}
+          {game.playStyle === 'coop' && (
+            <>
+              <div>Co-op:</div>
+              <div>{game.startingLives} shared lives</div>
+            </>
+          )}
           <div>Tokens:</div>
           <div>
             {game.useTokens
               ? `Yes (${game.startingTokens} start, ${game.maxTokens} max)`
               : 'No'}
           </div>
+          <div>Rules:</div>
+          <div>
+            {rulesPresetLabel(game.rules.preset)}
+            {game.rules.yearBucketSpan > 1 &&
+              ` (${game.rules.yearBucketSpan}-year buckets)`}
+            {game.useTokens &&
+              ` (skip ${game.rules.skipCost}, bet ${game.rules.betCost}, trade ${game.rules.tradeCost})`}
+          </div>
+          {(game.rules.requireExactYear || game.rules.requireTitleArtist) && (
+            <>
+              <div>Answers:</div>
+              <div>
+                {[
+                  game.rules.requireExactYear && 'Exact year',
+                  game.rules.requireTitleArtist && 'Title and artist',
+                ]
+                  .filter(Boolean)
+                  .join(', ')}
+              </div>
+            </>
+          )}
+          {game.rules.startingCards > 1 && (
+            <>
+              <div>Starting cards:</div>
+              <div>{game.rules.startingCards}</div>
+            </>
+          )}
           <div>Win at:</div>
           <div>{game.winCondition} cards</div>
+          {game.limit && (
+            <>
+              <div>Ends after:</div>
+              <div>
+                {game.limit.kind === 'rounds'
+                  ? `${game.limit.rounds} ${game.limit.rounds === 1 ? 'round' : 'rounds'}`
+                  : `${game.limit.minutes} minutes`}
+              </div>
+            </>
+          )}
+          {game.deckFilters && (
+            <>
+              <div>Deck:</div>
+              <div>{describeDeckFilters(game.deckFilters)}</div>
+            </>
+          )}
+          {game.deckStrategy?.strategy === 'eraBalanced' && (
+            <>
+              <div>Deck order:</div>
+              <div>
+                Era-balanced
+                {game.deckStrategy.minArtistGap > 0 &&
+                  `, ${game.deckStrategy.minArtistGap}+ cards between artists`}
+              </div>
+            </>
+          )}
+          {game.seed && (
+            <>
+              <div>Deck seed:</div>
+              <div className="font-mono">{game.seed}</div>
+            </>
+          )}
+          {game.turnTimers && (
+            <>
+              <div>Turn timers:</div>
+              <div>
+                {[
+                  game.turnTimers.placementSeconds &&
+                    `${game.turnTimers.placementSeconds}s place`,
+                  game.turnTimers.bettingSeconds &&
+                    `${game.turnTimers.bettingSeconds}s bet`,
+                  game.turnTimers.revealSeconds &&
+                    `${game.turnTimers.revealSeconds}s reveal`,
+                ]
+                  .filter(Boolean)
+                  .join(', ') || 'Off'}
+              </div>
+            </>
+          )}
+          {game.lateJoin && (
+            <>
+              <div>Late joins:</div>
+              <div>
+                Allowed
+                {game.lateJoin.catchUpCards > 0 &&
+                  `, +${game.lateJoin.catchUpCards} catch-up cards`}
+              </div>
+            </>
+          )}
+          {game.endOfDeck && (
+            <>
+              <div>Deck runs out:</div>
+              <div>
+                {game.endOfDeck.tieBreakers
+                  .map((tieBreaker) => TIE_BREAKER_LABELS[tieBreaker])
+                  .join(', ') || 'Cards, then tokens'}
+                {game.endOfDeck.suddenDeathCards > 0 &&
+                  `, sudden death with ${game.endOfDeck.suddenDeathCards} cards`}
+              </div>
+            </>
+          )}
           <div>Deck:</div>
           <div>{game.deckRemaining} cards</div>
         </CardContent>
@@ -290,3 +584,75 @@ export function LobbyView({ game }: LobbyViewProps) {
     </div>
   )
 }
+
+/** Summarize the host's deck options for the lobby */
+function describeDeckFilters(
+  filters: NonNullable<GameData['deckFilters']>,
+): string {
+  const { minYear, maxYear } = filters
+  return (
+    [
+      minYear !== undefined && maxYear !== undefined
+        ? `${minYear}–${maxYear}`
+        : minYear !== undefined
+          ? `${minYear} onwards`
+          : maxYear !== undefined && `Up to ${maxYear}`,
+      filters.requirePreview && 'previews only',
+      filters.excludeArtists?.length &&
+        `excluding ${filters.excludeArtists.join(', ')}`,
+      filters.maxDeckSize !== undefined &&
+        `at most ${filters.maxDeckSize} cards`,
+    ]
+      .filter(Boolean)
+      .join(', ') || 'All tracks'
+  )
+}
+
+interface SortableSeatProps {
+  id: Id<'gamePlayers'>
+  disabled: boolean
+  children: ReactNode
+}
+
+/** A lobby player row the host can drag to change the turn order */
+function SortableSeat({ id, disabled, children }: SortableSeatProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id, disabled })
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(
+        'flex items-center gap-2 rounded-lg border bg-background p-2',
+        isDragging && 'relative z-10 shadow-md',
+      )}
+    >
+      {!disabled && (
+        <button
+          type="button"
+          className="cursor-grab touch-none text-muted-foreground active:cursor-grabbing"
+          aria-label="Drag to reorder"
+          {...listeners}
+          {...attributes}
+        >
+          <DotsSixVerticalIcon weight="duotone" className="size-4" />
+        </button>
+      )}
+      <div className="flex flex-1 items-center justify-between gap-2">
+        {children}
+      </div>
+    </div>
+  )
+}
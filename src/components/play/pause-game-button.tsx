@@ -0,0 +1,46 @@
+import { useMutation } from 'convex/react'
+import { PauseIcon } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { GameData } from './types'
+import { Button } from '@/components/ui/button'
+
+interface PauseGameButtonProps {
+  game: GameData
+}
+
+/** Lets the host freeze a game in progress */
+export function PauseGameButton({ game }: PauseGameButtonProps) {
+  const pause = useMutation(api.games.pause)
+
+  if (
+    !game.isCurrentUserHost ||
+    game.phase === 'lobby' ||
+    game.phase === 'finished' ||
+    game.pausedAt !== undefined
+  ) {
+    return null
+  }
+
+  const handlePause = async () => {
+    try {
+      await pause({ gameId: game._id })
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to pause game',
+      )
+    }
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="shrink-0 gap-1.5"
+      onClick={handlePause}
+    >
+      <PauseIcon weight="duotone" className="size-4" />
+      Pause
+    </Button>
+  )
+}
@@ -0,0 +1,57 @@
+import { useMutation } from 'convex/react'
+import { PauseCircleIcon, PlayIcon } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { GameData } from './types'
+import { Button } from '@/components/ui/button'
+
+interface PausedOverlayProps {
+  game: GameData
+}
+
+/**
+ * Covers the game while the host has it paused, with a resume button for
+ * the host
+ */
+export function PausedOverlay({ game }: PausedOverlayProps) {
+  const resume = useMutation(api.games.resume)
+
+  if (game.pausedAt === undefined) {
+    return null
+  }
+
+  const pausedSince = new Date(game.pausedAt).toLocaleTimeString([], {
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+
+  const handleResume = async () => {
+    try {
+      await resume({ gameId: game._id })
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to resume game',
+      )
+    }
+  }
+
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-4 bg-background/80 p-4 text-center backdrop-blur-sm">
+      <PauseCircleIcon weight="duotone" className="size-16 text-primary" />
+      <div className="space-y-1">
+        <h2 className="text-2xl font-bold">Game paused</h2>
+        <p className="text-muted-foreground">
+          {game.isCurrentUserHost
+            ? `Paused since ${pausedSince}. Resume when everyone is back.`
+            : `The host paused the game at ${pausedSince}`}
+        </p>
+      </div>
+      {game.isCurrentUserHost && (
+        <Button size="lg" className="gap-1.5" onClick={handleResume}>
+          <PlayIcon weight="duotone" className="size-5" />
+          Resume
+        </Button>
+      )}
+    </div>
+  )
+}
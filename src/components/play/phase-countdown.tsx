@@ -0,0 +1,40 @@
+import { TimerIcon } from '@phosphor-icons/react'
+
+import { cn } from '@/lib/utils'
+import { useCountdown } from '@/hooks/use-countdown'
+
+interface PhaseCountdownProps {
+  /** Epoch ms when the current phase expires */
+  deadline: number | undefined
+  className?: string
+}
+
+/** Format seconds as m:ss */
+export function formatSeconds(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+/**
+ * Compact countdown for the server-enforced phase timer.
+ * Renders nothing when the phase has no time limit.
+ */
+export function PhaseCountdown({ deadline, className }: PhaseCountdownProps) {
+  const secondsLeft = useCountdown(deadline)
+
+  if (secondsLeft === null) return null
+
+  return (
+    <span
+      className={cn(
+        'flex items-center gap-0.5 tabular-nums',
+        secondsLeft <= 10 && 'animate-pulse font-semibold text-destructive',
+        className,
+      )}
+    >
+      <TimerIcon weight="duotone" className="size-3.5" />
+      {formatSeconds(secondsLeft)}
+    </span>
+  )
+}
@@ -1,34 +1,17 @@
-/**
- * Compute valid insertion indices for a card with the given year.
- * Returns all valid indices where the card can be placed.
- *
- * This mirrors the backend logic in convex/turns.ts:computeValidInsertionIndices
- *
- * Rules:
- * - Timeline is sorted by release year (ascending)
- * - A card can go before any card with year >= its year
- * - A card can go after any card with year <= its year
- * - If years are equal, adjacent placement is valid
- */
-export function computeValidInsertionIndices(
-  timeline: Array<{ releaseYear: number }>,
-  newCardYear: number,
-): Array<number> {
-  const validIndices: Array<number> = []
-
-  // Check each possible insertion point (0 to timeline.length inclusive)
-  for (let i = 0; i <= timeline.length; i++) {
-    const yearBefore = i > 0 ? timeline[i - 1].releaseYear : -Infinity
-    const yearAfter = i < timeline.length ? timeline[i].releaseYear : Infinity
-
-    // Valid if: yearBefore <= newCardYear <= yearAfter
-    if (yearBefore <= newCardYear && newCardYear <= yearAfter) {
-      validIndices.push(i)
-    }
-  }
+import {
+  computeValidInsertionIndices,
+  yearBucketLabel,
+  yearBucketStart,
+} from '../../../convex/placement'
+import type { PlacementRules } from '../../../convex/placement'
 
-  return validIndices
-}
+// Placement validation is shared with the backend (convex/turns.ts)
+export {
+  computeValidInsertionIndices,
+  yearBucketLabel,
+  yearBucketStart,
+} from '../../../convex/placement'
+export type { PlacementRules } from '../../../convex/placement'
 
 /**
  * Check if a placement is correct for the given timeline and card year.
@@ -36,14 +19,37 @@ export function computeValidInsertionIndices(
  * @param timeline - Array of cards in the timeline (must be sorted by position)
  * @param placementIndex - Where the card was placed
  * @param cardYear - The release year of the placed card
+ * @param rules - The game's placement rules (same-year handling, year buckets)
  * @returns true if the placement is valid, false otherwise
  */
 export function isPlacementCorrect(
   timeline: Array<{ releaseYear: number }>,
   placementIndex: number,
   cardYear: number,
+  rules?: PlacementRules,
 ): boolean {
-  const validIndices = computeValidInsertionIndices(timeline, cardYear)
+  const validIndices = computeValidInsertionIndices(timeline, cardYear, rules)
   return validIndices.includes(placementIndex)
 }
 
+/**
+ * In easy mode, map each card that starts a new year bucket to the bucket's
+ * label, for drawing separators on the timeline rail. Empty for exact years.
+ */
+export function getBucketStartLabels(
+  cards: Array<{ _id: string; releaseYear: number }>,
+  yearBucketSpan: number,
+): Map<string, string> {
+  const labels = new Map<string, string>()
+  if (yearBucketSpan <= 1) return labels
+
+  let previousBucket: number | undefined
+  for (const card of cards) {
+    const bucket = yearBucketStart(card.releaseYear, yearBucketSpan)
+    if (bucket !== previousBucket) {
+      labels.set(card._id, yearBucketLabel(card.releaseYear, yearBucketSpan))
+    }
+    previousBucket = bucket
+  }
+  return labels
+}
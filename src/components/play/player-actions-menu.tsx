@@ -0,0 +1,130 @@
+import { useMutation } from 'convex/react'
+import {
+  CrownIcon,
+  DotsThreeVerticalIcon,
+  MoonIcon,
+  SunIcon,
+  UserMinusIcon,
+} from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { GameData, PlayerData } from './types'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+
+interface PlayerActionsMenuProps {
+  game: GameData
+  player: PlayerData
+}
+
+/**
+ * Host-only menu to remove a player, mark them away or back, or hand them
+ * host rights
+ */
+export function PlayerActionsMenu({ game, player }: PlayerActionsMenuProps) {
+  const kickPlayer = useMutation(api.turns.kickPlayer)
+  const transferHost = useMutation(api.games.transferHost)
+  const setPlayerAway = useMutation(api.turns.setPlayerAway)
+
+  const canKick = !player.isHostSeat
+  const canMakeHost = player.kind === 'user' && !player.isCurrentUser
+  const canSetAway = game.phase !== 'lobby' && !player.isHostSeat
+  if (
+    !game.isCurrentUserHost ||
+    game.phase === 'finished' ||
+    (!canKick && !canMakeHost && !canSetAway)
+  ) {
+    return null
+  }
+
+  const handleKick = async () => {
+    const warning =
+      game.phase === 'lobby'
+        ? `Remove ${player.displayName} from the game?`
+        : `Remove ${player.displayName} from the game? Their timeline cards will be discarded.`
+    if (!confirm(warning)) return
+    try {
+      await kickPlayer({ playerId: player._id })
+      toast.success(`${player.displayName} was removed`)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to remove player',
+      )
+    }
+  }
+
+  const handleMakeHost = async () => {
+    if (
+      !confirm(
+        `Make ${player.displayName} the host? They will control the game and any local seats.`,
+      )
+    ) {
+      return
+    }
+    try {
+      await transferHost({ playerId: player._id })
+      toast.success(`${player.displayName} is now the host`)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to transfer host',
+      )
+    }
+  }
+
+  const handleSetAway = async (away: boolean) => {
+    try {
+      await setPlayerAway({ playerId: player._id, away })
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to update player',
+      )
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        render={
+          <Button
+            variant="ghost"
+            size="icon-xs"
+            aria-label={`Actions for ${player.displayName}`}
+          />
+        }
+      >
+        <DotsThreeVerticalIcon weight="duotone" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {canMakeHost && (
+          <DropdownMenuItem onClick={handleMakeHost}>
+            <CrownIcon weight="duotone" />
+            Make Host
+          </DropdownMenuItem>
+        )}
+        {canSetAway &&
+          (player.status ? (
+            <DropdownMenuItem onClick={() => handleSetAway(false)}>
+              <SunIcon weight="duotone" />
+              Mark Back
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem onClick={() => handleSetAway(true)}>
+              <MoonIcon weight="duotone" />
+              Mark Away
+            </DropdownMenuItem>
+          ))}
+        {canKick && (
+          <DropdownMenuItem variant="destructive" onClick={handleKick}>
+            <UserMinusIcon weight="duotone" />
+            Remove from Game
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -1,6 +1,9 @@
 import { forwardRef, useEffect, useRef } from 'react'
 import { CoinIcon, StackIcon } from '@phosphor-icons/react'
 
+import { PhaseCountdown } from './phase-countdown'
+import { PlayerActionsMenu } from './player-actions-menu'
+import type { ReactNode } from 'react'
 import type { GameData, TimelineData } from './types'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Badge } from '@/components/ui/badge'
@@ -14,7 +17,8 @@ interface PlayerStatusBarProps {
 }
 
 export function PlayerStatusBar({ game, timelines }: PlayerStatusBarProps) {
-  const { players, currentTurnSeatIndex, useTokens } = game
+  const { players, teams, currentTurnSeatIndex, useTokens, phaseDeadline } =
+    game
   const activePlayerRef = useRef<HTMLDivElement>(null)
 
   // Sort by seatIndex to maintain consistent turn order
@@ -36,17 +40,23 @@ export function PlayerStatusBar({ game, timelines }: PlayerStatusBarProps) {
       <div className="flex gap-2 p-2 md:gap-3">
         {sortedPlayers.map((player) => {
           const isActive = player.seatIndex === currentTurnSeatIndex
-          const timeline = timelines?.find((t) => t.playerId === player._id)
+          const timeline = timelines?.find((t) =>
+            t.memberIds.includes(player._id),
+          )
           const cardCount = timeline?.cards.length ?? 0
+          const team = teams.find((t) => t._id === player.teamId)
 
           return (
             <PlayerStatusItem
               key={player._id}
               ref={isActive ? activePlayerRef : null}
               player={player}
+              teamName={team?.name}
               cardCount={cardCount}
               isActive={isActive}
               showTokens={useTokens}
+              deadline={isActive ? phaseDeadline : undefined}
+              actions={<PlayerActionsMenu game={game} player={player} />}
             />
           )
         })}
@@ -58,13 +68,22 @@ export function PlayerStatusBar({ game, timelines }: PlayerStatusBarProps) {
 
 interface PlayerStatusItemProps {
   player: GameData['players'][0]
+  /** Team games: the player's team (cards and tokens are the team's) */
+  teamName?: string
   cardCount: number
   isActive: boolean
   showTokens: boolean
+  /** Phase deadline, shown as a countdown on the active player */
+  deadline?: number
+  /** Host controls for this seat */
+  actions?: ReactNode
 }
 
 const PlayerStatusItem = forwardRef<HTMLDivElement, PlayerStatusItemProps>(
-  function PlayerStatusItem({ player, cardCount, isActive, showTokens }, ref) {
+  function PlayerStatusItem(
+    { player, teamName, cardCount, isActive, showTokens, deadline, actions },
+    ref,
+  ) {
     // Get initials from display name
     const initials = player.displayName
       .split(' ')
@@ -83,6 +102,7 @@ const PlayerStatusItem = forwardRef<HTMLDivElement, PlayerStatusItemProps>(
             'shadow-md shadow-primary/20',
             'scale-[1.02]',
           ],
+          player.status && 'opacity-60',
         )}
       >
         <Avatar size="sm">
@@ -96,14 +116,26 @@ const PlayerStatusItem = forwardRef<HTMLDivElement, PlayerStatusItemProps>(
             {player.isCurrentUser && (
               <Badge className="shrink-0 px-1 text-[10px]">You</Badge>
             )}
+            {player.status && (
+              <Badge variant="outline" className="shrink-0 px-1 text-[10px]">
+                {player.status === 'away' ? 'Away' : 'Left'}
+              </Badge>
+            )}
           </div>
+          {teamName && (
+            <span className="truncate text-xs text-muted-foreground">
+              {teamName}
+            </span>
+          )}
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
             <Tooltip>
               <TooltipTrigger className="flex cursor-default items-center gap-0.5">
                 <StackIcon weight="duotone" className="size-3" />
                 {cardCount}
               </TooltipTrigger>
-              <TooltipContent>Cards in timeline</TooltipContent>
+              <TooltipContent>
+                {teamName ? 'Cards in team timeline' : 'Cards in timeline'}
+              </TooltipContent>
             </Tooltip>
             {showTokens && (
               <Tooltip>
@@ -111,11 +143,15 @@ const PlayerStatusItem = forwardRef<HTMLDivElement, PlayerStatusItemProps>(
                   <CoinIcon weight="duotone" className="size-3" />
                   {player.tokenBalance}
                 </TooltipTrigger>
-                <TooltipContent>Tokens</TooltipContent>
+                <TooltipContent>
+                  {teamName ? 'Team tokens' : 'Tokens'}
+                </TooltipContent>
               </Tooltip>
             )}
+            <PhaseCountdown deadline={deadline} />
           </div>
         </div>
+        {actions}
       </div>
     )
   },
@@ -0,0 +1,57 @@
+import { ArrowsClockwiseIcon } from '@phosphor-icons/react'
+import { useNavigate } from '@tanstack/react-router'
+import { useMutation } from 'convex/react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { GameData } from './types'
+import { Button } from '@/components/ui/button'
+
+interface RematchProps {
+  game: GameData
+}
+
+/**
+ * Send everyone on the finished screen to the rematch lobby as soon as the
+ * host creates it
+ */
+export function useRematchRedirect(game: GameData) {
+  const navigate = useNavigate()
+  const { rematchJoinCode } = game
+
+  useEffect(() => {
+    if (!rematchJoinCode) return
+    toast.success('Rematch! Heading to the new lobby')
+    navigate({ to: '/play/$joinCode', params: { joinCode: rematchJoinCode } })
+  }, [rematchJoinCode, navigate])
+}
+
+/**
+ * Host-only action that starts a rematch with the same players and settings
+ */
+export function RematchButton({ game }: RematchProps) {
+  const rematch = useMutation(api.games.rematch)
+  const [loading, setLoading] = useState(false)
+
+  if (!game.isCurrentUserHost) return null
+
+  const handleRematch = async () => {
+    setLoading(true)
+    try {
+      // Everyone, the host included, follows the link set on this game
+      await rematch({ gameId: game._id })
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : 'Failed to start rematch',
+      )
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Button className="gap-1.5" onClick={handleRematch} disabled={loading}>
+      <ArrowsClockwiseIcon weight="duotone" className="size-4" />
+      Rematch
+    </Button>
+  )
+}
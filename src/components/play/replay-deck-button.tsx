@@ -0,0 +1,58 @@
+import { ArrowCounterClockwiseIcon } from '@phosphor-icons/react'
+import { useNavigate } from '@tanstack/react-router'
+import { useMutation } from 'convex/react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { GameData } from './types'
+import { Button } from '@/components/ui/button'
+
+interface ReplayDeckButtonProps {
+  game: GameData
+}
+
+/**
+ * Host-only action that opens a new lobby dealing the same card order as
+ * this game. Shows the deck seed so it can be reused from the create form.
+ */
+export function ReplayDeckButton({ game }: ReplayDeckButtonProps) {
+  const navigate = useNavigate()
+  const replayDeck = useMutation(api.games.replayDeck)
+  const [loading, setLoading] = useState(false)
+
+  if (!game.seed) return null
+
+  const handleReplay = async () => {
+    setLoading(true)
+    try {
+      const result = await replayDeck({ gameId: game._id })
+      navigate({
+        to: '/play/$joinCode',
+        params: { joinCode: result.joinCode },
+      })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to replay deck')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {game.isCurrentUserHost && (
+        <Button
+          variant="outline"
+          className="gap-1.5"
+          onClick={handleReplay}
+          disabled={loading}
+        >
+          <ArrowCounterClockwiseIcon weight="duotone" className="size-4" />
+          Replay This Deck
+        </Button>
+      )}
+      <span className="text-xs text-muted-foreground">
+        Deck seed <span className="font-mono">{game.seed}</span>
+      </span>
+    </div>
+  )
+}
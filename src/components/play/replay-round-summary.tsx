@@ -0,0 +1,155 @@
+import type { Id } from '../../../convex/_generated/dataModel'
+import type { ReplayRound } from './replay-utils'
+import type { ReplayData } from './types'
+import { Badge } from '@/components/ui/badge'
+
+type ReplayCard = ReplayData['cards'][0]
+
+interface ReplayRoundSummaryProps {
+  round: ReplayRound
+  cardsById: Map<Id<'gameCards'>, ReplayCard>
+  playerName: (playerId: Id<'gamePlayers'> | undefined) => string
+}
+
+/** Human-readable description of everything that happened in one round */
+export function ReplayRoundSummary({
+  round,
+  cardsById,
+  playerName,
+}: ReplayRoundSummaryProps) {
+  if (round.round === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Everyone was dealt their starting cards.
+      </p>
+    )
+  }
+
+  const card = round.cardId ? cardsById.get(round.cardId) : undefined
+  const winningTeam = round.players.find(
+    (p) => p.ownerId === round.finished?.winningTeamId,
+  )
+  const describeCard = (c: ReplayCard | undefined) =>
+    c ? `"${c.title}" (${c.releaseYear})` : 'an unknown card'
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {round.skippedCardIds.map((cardId) => (
+        <li key={cardId} className="text-muted-foreground">
+          {playerName(round.activePlayerId)} skipped{' '}
+          {describeCard(cardsById.get(cardId))}
+        </li>
+      ))}
+      {round.placementIndex !== undefined && (
+        <li>
+          {playerName(round.activePlayerId)} placed {describeCard(card)} at slot{' '}
+          {round.placementIndex}
+        </li>
+      )}
+      {round.bets.map((bet) => (
+        <li key={bet.playerId} className="text-muted-foreground">
+          {playerName(bet.playerId)} bet on slot {bet.slotIndex}
+        </li>
+      ))}
+      {round.resolution && (
+        <li className="flex flex-wrap items-center gap-2">
+          <Badge
+            variant={
+              round.resolution.placementCorrect ? 'default' : 'destructive'
+            }
+          >
+            {round.resolution.placementCorrect ? 'Correct' : 'Wrong'}
+          </Badge>
+          {round.resolution.cardWentTo === 'activePlayer' &&
+            `${playerName(round.resolution.recipientPlayerId)} kept the card`}
+          {round.resolution.cardWentTo === 'bettor' &&
+            `${playerName(round.resolution.recipientPlayerId)} won the card with a bet`}
+          {round.resolution.cardWentTo === 'discard' &&
+            (round.livesRemaining !== undefined
+              ? `The card was discarded and a life was lost (${round.livesRemaining} left)`
+              : round.resolution.placementCorrect
+                ? 'Not every answer was right, so the card was discarded'
+                : 'Nobody placed it right, so the card was discarded')}
+        </li>
+      )}
+      {round.resolution?.yearGuess !== undefined && (
+        <li className="text-muted-foreground">
+          {playerName(round.activePlayerId)} named the year{' '}
+          {round.resolution.yearGuess}
+          {round.resolution.yearCorrect ? ' (right)' : ' (wrong)'}
+          {round.resolution.songCorrect !== undefined &&
+            (round.resolution.songCorrect
+              ? ', and got the song right'
+              : ', and got the song wrong')}
+          {!!round.resolution.partialCredit &&
+            `, earning ${round.resolution.partialCredit} consolation ${round.resolution.partialCredit === 1 ? 'token' : 'tokens'}`}
+        </li>
+      )}
+      {round.timedOut && (
+        <li className="flex flex-wrap items-center gap-2">
+          <Badge variant="destructive">Time's up</Badge>
+          {playerName(round.activePlayerId)} ran out of time, so the card was
+          discarded
+        </li>
+      )}
+      {round.joinedPlayers.map((joined) => (
+        <li key={joined.playerId} className="text-muted-foreground">
+          {joined.displayName} joined the game
+        </li>
+      ))}
+      {round.removedPlayers.map((removed) => (
+        <li key={removed.playerId} className="text-muted-foreground">
+          {removed.left
+            ? `${removed.displayName} left the game`
+            : `The host removed ${removed.displayName} from the game`}
+        </li>
+      ))}
+      {round.statusChanges.map((change, index) => (
+        <li key={index} className="text-muted-foreground">
+          {playerName(change.playerId)}{' '}
+          {change.status === 'away'
+            ? 'is away'
+            : change.status === 'left'
+              ? 'left the game, keeping their cards'
+              : 'is back'}
+        </li>
+      ))}
+      {round.guessClaimerIds.length > 0 && (
+        <li className="text-muted-foreground">
+          Bonus tokens: {round.guessClaimerIds.map(playerName).join(', ')}
+        </li>
+      )}
+      {round.trades.map((trade) => (
+        <li key={trade.cardId} className="text-muted-foreground">
+          {playerName(trade.playerId)} traded tokens for{' '}
+          {describeCard(cardsById.get(trade.cardId))}
+        </li>
+      ))}
+      {round.suddenDeath && (
+        <li className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">Sudden death</Badge>
+          The deck ran out with{' '}
+          {round.suddenDeath.contenderIds.map(playerName).join(' and ')} level
+          on {round.suddenDeath.cardCount} cards
+        </li>
+      )}
+      {round.finished && (
+        <li className="font-medium">
+          {winningTeam
+            ? `${winningTeam.displayName} won the game!`
+            : round.finished.winnerId
+              ? round.finished.reason === 'suddenDeath'
+                ? `${playerName(round.finished.winnerId)} won the game in sudden death!`
+                : `${playerName(round.finished.winnerId)} won the game!`
+              : round.finished.reason === 'outOfLives'
+                ? 'Out of lives, so the game was lost'
+                : round.finished.reason === 'roundLimit'
+                  ? 'The last round was played with the lead shared'
+                  : round.finished.reason === 'timeLimit'
+                    ? 'Time ran out with the lead shared'
+                    : 'The deck ran out and the game ended'}
+        </li>
+      )}
+    </ul>
+  )
+}
@@ -0,0 +1,284 @@
+import { describe, expect, it } from 'vitest'
+import { buildReplayRounds } from './replay-utils'
+import type { Id } from '../../../convex/_generated/dataModel'
+import type { ReplayData } from './types'
+
+type ReplayEvent = ReplayData['events'][0]
+
+const ann = 'ann' as Id<'gamePlayers'>
+const bob = 'bob' as Id<'gamePlayers'>
+const cat = 'cat' as Id<'gamePlayers'>
+const card = (n: number) => `card${n}` as Id<'gameCards'>
+
+/** Number events in the order given */
+function log(
+  ...entries: Array<[round: number, data: ReplayEvent['data']]>
+): Array<ReplayEvent> {
+  return entries.map(([round, data], sequence) => ({
+    sequence,
+    round,
+    createdAt: 0,
+    data,
+  }))
+}
+
+const gameStarted: ReplayEvent['data'] = {
+  type: 'gameStarted',
+  players: [
+    { playerId: ann, displayName: 'Ann', tokenBalance: 2 },
+    { playerId: bob, displayName: 'Bob', tokenBalance: 2 },
+  ],
+  startingCards: [
+    { playerId: ann, cardId: card(1) },
+    { playerId: bob, cardId: card(2) },
+  ],
+}
+
+const playerOf = (
+  round: ReturnType<typeof buildReplayRounds>[0],
+  ownerId: string,
+) => round.players.find((p) => p.ownerId === ownerId)
+
+describe('buildReplayRounds', () => {
+  it('snapshots the initial deal as round 0', () => {
+    const [deal] = buildReplayRounds(log([0, gameStarted]))
+    expect(deal.round).toBe(0)
+    expect(deal.players).toEqual([
+      {
+        ownerId: ann,
+        memberIds: [ann],
+        displayName: 'Ann',
+        tokenBalance: 2,
+        cardIds: [card(1)],
+      },
+      {
+        ownerId: bob,
+        memberIds: [bob],
+        displayName: 'Bob',
+        tokenBalance: 2,
+        cardIds: [card(2)],
+      },
+    ])
+  })
+
+  it('applies a round played with a losing bet', () => {
+    const rounds = buildReplayRounds(
+      log(
+        [0, gameStarted],
+        [1, { type: 'roundStarted', activePlayerId: ann, cardId: card(3) }],
+        [
+          1,
+          {
+            type: 'cardPlaced',
+            playerId: ann,
+            cardId: card(3),
+            insertIndex: 1,
+          },
+        ],
+        [
+          1,
+          {
+            type: 'betPlaced',
+            playerId: bob,
+            cardId: card(3),
+            slotIndex: 0,
+            tokenCost: 1,
+          },
+        ],
+        [
+          1,
+          {
+            type: 'roundResolved',
+            activePlayerId: ann,
+            cardId: card(3),
+            placementIndex: 1,
+            placementCorrect: true,
+            cardWentTo: 'activePlayer',
+            recipientPlayerId: ann,
+            insertedAt: 1,
+            refunds: [],
+          },
+        ],
+      ),
+    )
+
+    expect(rounds).toHaveLength(2)
+    const round = rounds[1]
+    expect(round.activePlayerId).toBe(ann)
+    expect(round.cardId).toBe(card(3))
+    expect(round.placementIndex).toBe(1)
+    expect(round.bets).toEqual([{ playerId: bob, slotIndex: 0 }])
+    expect(round.resolution).toMatchObject({
+      placementCorrect: true,
+      cardWentTo: 'activePlayer',
+    })
+    expect(playerOf(round, ann)?.cardIds).toEqual([card(1), card(3)])
+    expect(playerOf(round, bob)?.tokenBalance).toBe(1)
+  })
+
+  it('applies events in sequence order', () => {
+    const events = log(
+      [0, gameStarted],
+      [1, { type: 'roundStarted', activePlayerId: ann, cardId: card(3) }],
+      [
+        1,
+        {
+          type: 'tokensTraded',
+          playerId: bob,
+          cardId: card(4),
+          insertedAt: 0,
+          tokenCost: 2,
+        },
+      ],
+    )
+    const rounds = buildReplayRounds([...events].reverse())
+    expect(rounds.map((r) => r.round)).toEqual([0, 1])
+    expect(playerOf(rounds[1], bob)).toMatchObject({
+      tokenBalance: 0,
+      cardIds: [card(4), card(2)],
+    })
+  })
+
+  it('charges a skip and hands back bets on the skipped card', () => {
+    const [, round] = buildReplayRounds(
+      log(
+        [0, gameStarted],
+        [1, { type: 'roundStarted', activePlayerId: ann, cardId: card(3) }],
+        [
+          1,
+          {
+            type: 'betPlaced',
+            playerId: bob,
+            cardId: card(3),
+            slotIndex: 1,
+            tokenCost: 1,
+          },
+        ],
+        [
+          1,
+          {
+            type: 'roundSkipped',
+            playerId: ann,
+            cardId: card(3),
+            replacementCardId: card(4),
+            tokenCost: 1,
+            refunds: [{ playerId: bob, amount: 1 }],
+          },
+        ],
+      ),
+    )
+    expect(round.skippedCardIds).toEqual([card(3)])
+    expect(round.cardId).toBe(card(4))
+    expect(playerOf(round, ann)?.tokenBalance).toBe(1)
+    expect(playerOf(round, bob)?.tokenBalance).toBe(2)
+  })
+
+  it('keeps earlier snapshots unchanged by later rounds', () => {
+    const rounds = buildReplayRounds(
+      log(
+        [0, gameStarted],
+        [
+          1,
+          {
+            type: 'tokensTraded',
+            playerId: ann,
+            cardId: card(5),
+            insertedAt: 1,
+            tokenCost: 2,
+          },
+        ],
+      ),
+    )
+    expect(playerOf(rounds[0], ann)).toMatchObject({
+      tokenBalance: 2,
+      cardIds: [card(1)],
+    })
+    expect(playerOf(rounds[1], ann)).toMatchObject({
+      tokenBalance: 0,
+      cardIds: [card(1), card(5)],
+    })
+  })
+
+  it('shares timelines and tokens within a team', () => {
+    const team = 'red' as Id<'gameTeams'>
+    const rounds = buildReplayRounds(
+      log(
+        [
+          0,
+          {
+            type: 'gameStarted',
+            players: [
+              {
+                playerId: ann,
+                displayName: 'Ann',
+                tokenBalance: 0,
+                teamId: team,
+              },
+              {
+                playerId: bob,
+                displayName: 'Bob',
+                tokenBalance: 0,
+                teamId: team,
+              },
+            ],
+            teams: [{ teamId: team, name: 'Red', tokenBalance: 3 }],
+            startingCards: [{ playerId: bob, cardId: card(1) }],
+          },
+        ],
+        [
+          1,
+          {
+            type: 'guessTokenClaimed',
+            playerId: ann,
+            cardId: card(2),
+            tokensAwarded: 1,
+          },
+        ],
+      ),
+    )
+    expect(rounds[1].players).toEqual([
+      {
+        ownerId: team,
+        memberIds: [ann, bob],
+        displayName: 'Red',
+        tokenBalance: 4,
+        cardIds: [card(1)],
+      },
+    ])
+  })
+
+  it('adds and removes players mid-game', () => {
+    const [, round] = buildReplayRounds(
+      log(
+        [0, gameStarted],
+        [
+          1,
+          {
+            type: 'playerJoined',
+            playerId: cat,
+            displayName: 'Cat',
+            tokenBalance: 2,
+            startingCardIds: [card(6)],
+          },
+        ],
+        [
+          1,
+          {
+            type: 'playerRemoved',
+            playerId: bob,
+            displayName: 'Bob',
+            left: true,
+            discardedCardIds: [card(2)],
+            refunds: [],
+          },
+        ],
+      ),
+    )
+    expect(round.players.map((p) => p.ownerId)).toEqual([ann, cat])
+    expect(playerOf(round, cat)?.cardIds).toEqual([card(6)])
+    expect(round.joinedPlayers).toEqual([{ playerId: cat, displayName: 'Cat' }])
+    expect(round.removedPlayers).toEqual([
+      { playerId: bob, displayName: 'Bob', left: true },
+    ])
+  })
+})
@@ -0,0 +1,303 @@
+import type { Id } from '../../../convex/_generated/dataModel'
+import type { ReplayData } from './types'
+
+type ReplayEvent = ReplayData['events'][0]
+
+/** A timeline's state: one per player, or one per team in team games */
+export interface ReplayPlayerState {
+  /** The player ID, or the team ID in team games */
+  ownerId: Id<'gamePlayers'> | Id<'gameTeams'>
+  /** Players sharing this timeline */
+  memberIds: Array<Id<'gamePlayers'>>
+  displayName: string
+  tokenBalance: number
+  /** Card IDs in timeline order */
+  cardIds: Array<Id<'gameCards'>>
+}
+
+export interface ReplayRound {
+  /** 0 is the initial deal, rounds start at 1 */
+  round: number
+  activePlayerId?: Id<'gamePlayers'>
+  /** The card that was finally played this round (after any skips) */
+  cardId?: Id<'gameCards'>
+  skippedCardIds: Array<Id<'gameCards'>>
+  placementIndex?: number
+  bets: Array<{ playerId: Id<'gamePlayers'>; slotIndex: number }>
+  guessClaimerIds: Array<Id<'gamePlayers'>>
+  trades: Array<{ playerId: Id<'gamePlayers'>; cardId: Id<'gameCards'> }>
+  /** The active player ran out of time and the card was discarded */
+  timedOut: boolean
+  /** Players who joined after the game started, this round */
+  joinedPlayers: Array<{ playerId: Id<'gamePlayers'>; displayName: string }>
+  /** Players the host removed, or who left and took their cards, this round */
+  removedPlayers: Array<{
+    playerId: Id<'gamePlayers'>
+    displayName: string
+    left: boolean
+  }>
+  /** Players who went away, came back or left keeping their cards */
+  statusChanges: Array<{
+    playerId: Id<'gamePlayers'>
+    status?: 'away' | 'left'
+  }>
+  /** The deck ran out with these players level on cards, starting a play-off */
+  suddenDeath?: {
+    contenderIds: Array<Id<'gamePlayers'>>
+    cardCount: number
+  }
+  /** Co-op: shared lives left after a wrong placement */
+  livesRemaining?: number
+  resolution?: {
+    placementCorrect: boolean
+    cardWentTo: 'activePlayer' | 'bettor' | 'discard'
+    recipientPlayerId?: Id<'gamePlayers'>
+    /** Exact-year rules: the active player's year and whether it was right */
+    yearGuess?: number
+    yearCorrect?: boolean
+    songCorrect?: boolean
+    /** Consolation tokens for right answers on a lost card */
+    partialCredit?: number
+  }
+  finished?: {
+    reason:
+      | 'winCondition'
+      | 'deckExhausted'
+      | 'outOfLives'
+      | 'suddenDeath'
+      | 'roundLimit'
+      | 'timeLimit'
+    winnerId?: Id<'gamePlayers'>
+    winningTeamId?: Id<'gameTeams'>
+  }
+  /** Every timeline and token balance at the end of the round */
+  players: Array<ReplayPlayerState>
+}
+
+/**
+ * Rebuild a game round by round from its event log.
+ *
+ * Events are applied in sequence order to a running per-timeline state,
+ * which is snapshotted at the end of every round. In team games, events by a
+ * player apply to their team's timeline and token pool.
+ */
+export function buildReplayRounds(
+  events: Array<ReplayEvent>,
+): Array<ReplayRound> {
+  const sorted = [...events].sort((a, b) => a.sequence - b.sequence)
+  const state = new Map<string, ReplayPlayerState>()
+  const ownerOf = new Map<Id<'gamePlayers'>, string>()
+  const rounds: Array<ReplayRound> = []
+
+  const stateOf = (playerId: Id<'gamePlayers'>) =>
+    state.get(ownerOf.get(playerId) ?? playerId)
+
+  const adjustTokens = (playerId: Id<'gamePlayers'>, delta: number) => {
+    const player = stateOf(playerId)
+    if (player) {
+      player.tokenBalance += delta
+    }
+  }
+
+  const insertCard = (
+    playerId: Id<'gamePlayers'>,
+    cardId: Id<'gameCards'>,
+    index: number,
+  ) => {
+    const player = stateOf(playerId)
+    if (player) {
+      player.cardIds.splice(index, 0, cardId)
+    }
+  }
+
+  let current: ReplayRound | undefined
+
+  const snapshot = () => {
+    if (!current) return
+    current.players = [...state.values()].map((p) => ({
+      ...p,
+      memberIds: [...p.memberIds],
+      cardIds: [...p.cardIds],
+    }))
+    rounds.push(current)
+  }
+
+  for (const event of sorted) {
+    if (!current || current.round !== event.round) {
+      snapshot()
+      current = {
+        round: event.round,
+        skippedCardIds: [],
+        bets: [],
+        guessClaimerIds: [],
+        trades: [],
+        timedOut: false,
+        joinedPlayers: [],
+        removedPlayers: [],
+        statusChanges: [],
+        players: [],
+      }
+    }
+
+    const data = event.data
+    switch (data.type) {
+      case 'gameStarted':
+        for (const team of data.teams ?? []) {
+          state.set(team.teamId, {
+            ownerId: team.teamId,
+            memberIds: [],
+            displayName: team.name,
+            tokenBalance: team.tokenBalance,
+            cardIds: [],
+          })
+        }
+        for (const player of data.players) {
+          const team = player.teamId ? state.get(player.teamId) : undefined
+          if (team) {
+            ownerOf.set(player.playerId, team.ownerId)
+            team.memberIds.push(player.playerId)
+            continue
+          }
+          state.set(player.playerId, {
+            ownerId: player.playerId,
+            memberIds: [player.playerId],
+            displayName: player.displayName,
+            tokenBalance: player.tokenBalance,
+            cardIds: [],
+          })
+        }
+        // Starting cards are recorded in timeline order
+        for (const starting of data.startingCards) {
+          const owner = stateOf(starting.playerId)
+          insertCard(
+            starting.playerId,
+            starting.cardId,
+            owner?.cardIds.length ?? 0,
+          )
+        }
+        break
+      case 'roundStarted':
+        current.activePlayerId = data.activePlayerId
+        current.cardId = data.cardId
+        break
+      case 'roundSkipped':
+        adjustTokens(data.playerId, -data.tokenCost)
+        for (const refund of data.refunds ?? []) {
+          adjustTokens(refund.playerId, refund.amount)
+        }
+        current.skippedCardIds.push(data.cardId)
+        current.cardId = data.replacementCardId
+        break
+      case 'cardPlaced':
+        current.placementIndex = data.insertIndex
+        break
+      case 'betPlaced':
+        adjustTokens(data.playerId, -data.tokenCost)
+        current.bets.push({
+          playerId: data.playerId,
+          slotIndex: data.slotIndex,
+        })
+        break
+      case 'cardRevealed':
+        break
+      case 'guessTokenClaimed':
+        adjustTokens(data.playerId, data.tokensAwarded)
+        current.guessClaimerIds.push(data.playerId)
+        break
+      case 'roundResolved':
+        for (const refund of data.refunds) {
+          adjustTokens(refund.playerId, refund.amount)
+        }
+        if (data.partialCredit) {
+          adjustTokens(data.activePlayerId, data.partialCredit)
+        }
+        if (data.recipientPlayerId && data.insertedAt !== undefined) {
+          insertCard(data.recipientPlayerId, data.cardId, data.insertedAt)
+        }
+        current.resolution = {
+          placementCorrect: data.placementCorrect,
+          cardWentTo: data.cardWentTo,
+          recipientPlayerId: data.recipientPlayerId,
+          yearGuess: data.yearGuess,
+          yearCorrect: data.yearCorrect,
+          songCorrect: data.songCorrect,
+          partialCredit: data.partialCredit,
+        }
+        current.livesRemaining = data.livesRemaining
+        break
+      case 'roundTimedOut':
+        for (const refund of data.refunds) {
+          adjustTokens(refund.playerId, refund.amount)
+        }
+        current.timedOut = true
+        break
+      case 'tokensTraded':
+        adjustTokens(data.playerId, -data.tokenCost)
+        insertCard(data.playerId, data.cardId, data.insertedAt)
+        current.trades.push({ playerId: data.playerId, cardId: data.cardId })
+        break
+      case 'playerJoined': {
+        const team = data.teamId ? state.get(data.teamId) : undefined
+        if (team) {
+          ownerOf.set(data.playerId, team.ownerId)
+          team.memberIds.push(data.playerId)
+        } else {
+          state.set(data.playerId, {
+            ownerId: data.playerId,
+            memberIds: [data.playerId],
+            displayName: data.displayName,
+            tokenBalance: data.tokenBalance,
+            cardIds: [...data.startingCardIds],
+          })
+        }
+        current.joinedPlayers.push({
+          playerId: data.playerId,
+          displayName: data.displayName,
+        })
+        break
+      }
+      case 'playerRemoved': {
+        for (const refund of data.refunds) {
+          adjustTokens(refund.playerId, refund.amount)
+        }
+        const owner = stateOf(data.playerId)
+        if (owner?.ownerId === data.playerId) {
+          state.delete(data.playerId)
+        } else if (owner) {
+          owner.memberIds = owner.memberIds.filter((id) => id !== data.playerId)
+        }
+        current.removedPlayers.push({
+          playerId: data.playerId,
+          displayName: data.displayName,
+          left: data.left ?? false,
+        })
+        break
+      }
+      case 'playerStatusChanged':
+        for (const refund of data.refunds) {
+          adjustTokens(refund.playerId, refund.amount)
+        }
+        current.statusChanges.push({
+          playerId: data.playerId,
+          status: data.status,
+        })
+        break
+      case 'suddenDeathStarted':
+        current.suddenDeath = {
+          contenderIds: data.contenderIds,
+          cardCount: data.cardCount,
+        }
+        break
+      case 'gameFinished':
+        current.finished = {
+          reason: data.reason,
+          winnerId: data.winnerId,
+          winningTeamId: data.winningTeamId,
+        }
+        break
+    }
+  }
+
+  snapshot()
+  return rounds
+}
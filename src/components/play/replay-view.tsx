@@ -0,0 +1,171 @@
+import { CaretLeftIcon, CaretRightIcon, CoinIcon } from '@phosphor-icons/react'
+import { useMemo, useState } from 'react'
+import { GameCard } from './game-card'
+import { ReplayRoundSummary } from './replay-round-summary'
+import { buildReplayRounds } from './replay-utils'
+import type { Id } from '../../../convex/_generated/dataModel'
+import type { ReplayData } from './types'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+
+interface ReplayViewProps {
+  replay: ReplayData
+}
+
+export function ReplayView({ replay }: ReplayViewProps) {
+  const rounds = useMemo(() => buildReplayRounds(replay.events), [replay])
+  const cardsById = useMemo(
+    () => new Map(replay.cards.map((c) => [c._id, c])),
+    [replay.cards],
+  )
+  // Removed seats are gone from the game, but their events keep the name
+  const removedNames = useMemo(
+    () =>
+      new Map(
+        rounds
+          .flatMap((r) => r.removedPlayers)
+          .map((p) => [p.playerId, p.displayName]),
+      ),
+    [rounds],
+  )
+  const [roundIndex, setRoundIndex] = useState(0)
+
+  if (rounds.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>No replay available</CardTitle>
+          <CardDescription>
+            This game was played before replays were recorded.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  const round = rounds[Math.min(roundIndex, rounds.length - 1)]
+
+  const playerName = (playerId: Id<'gamePlayers'> | undefined) =>
+    replay.players.find((p) => p._id === playerId)?.displayName ??
+    (playerId && removedNames.get(playerId)) ??
+    'Someone'
+
+  const isCurrentUser = (memberIds: Array<Id<'gamePlayers'>>) =>
+    replay.players.some((p) => memberIds.includes(p._id) && p.isCurrentUser)
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle>
+              {round.round === 0 ? 'Initial deal' : `Round ${round.round}`}
+            </CardTitle>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRoundIndex((i) => Math.max(0, i - 1))}
+                disabled={roundIndex === 0}
+                aria-label="Previous round"
+              >
+                <CaretLeftIcon weight="duotone" className="size-4" />
+              </Button>
+              <span className="min-w-16 text-center text-sm text-muted-foreground">
+                {roundIndex + 1} / {rounds.length}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setRoundIndex((i) => Math.min(rounds.length - 1, i + 1))
+                }
+                disabled={roundIndex === rounds.length - 1}
+                aria-label="Next round"
+              >
+                <CaretRightIcon weight="duotone" className="size-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ReplayRoundSummary
+            round={round}
+            cardsById={cardsById}
+            playerName={playerName}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Timelines as they stood at the end of the round */}
+      <div className="space-y-4">
+        {round.players.map((player) => (
+          <Card
+            key={player.ownerId}
+            className={cn(
+              !!round.activePlayerId &&
+                player.memberIds.includes(round.activePlayerId) &&
+                'border-2 border-primary',
+            )}
+          >
+            <CardHeader className="py-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">
+                  {player.displayName}
+                  {isCurrentUser(player.memberIds) && (
+                    <Badge className="ml-2">You</Badge>
+                  )}
+                </CardTitle>
+                <span className="flex items-center gap-3 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <CoinIcon weight="duotone" className="size-4" />
+                    {player.tokenBalance}
+                  </span>
+                  <span className="font-bold text-foreground">
+                    {player.cardIds.length} cards
+                  </span>
+                </span>
+              </div>
+            </CardHeader>
+            <CardContent className="py-2">
+              <div className="-m-1 flex gap-2 overflow-x-auto p-1">
+                {player.cardIds.map((cardId) => {
+                  const card = cardsById.get(cardId)
+                  if (!card) return null
+                  return (
+                    <div
+                      key={cardId}
+                      className="flex flex-col items-center gap-1"
+                    >
+                      <GameCard
+                        title={card.title}
+                        artistName={card.artistNames[0]}
+                        imageUrl={card.imageUrl}
+                        className={cn(
+                          (cardId === round.cardId ||
+                            round.trades.some((t) => t.cardId === cardId)) &&
+                            'ring-2 ring-primary',
+                        )}
+                      />
+                      <span className="text-xs font-medium text-muted-foreground">
+                        {card.releaseYear}
+                      </span>
+                    </div>
+                  )
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,15 @@ import { ConfettiBurst } from './confetti-burst'
 import { Card, CardContent } from '@/components/ui/card'
 import { cn } from '@/lib/utils'
 
+/** The active player's exact-year answers, compared on the revealed side */
+interface RoundAnswers {
+  yearGuess?: number
+  yearCorrect?: boolean
+  /** "Title by Artist" as typed */
+  songGuess?: string
+  songCorrect?: boolean
+}
+
 interface RoundTimelineCardProps {
   /** Whether to show the revealed (back) side */
   isRevealed: boolean
@@ -18,6 +27,8 @@ interface RoundTimelineCardProps {
     artistName?: string
     imageUrl?: string | null
   }
+  /** Exact-year rules: what the active player answered */
+  answers?: RoundAnswers
   /** Called when the wrong animation completes and the card should be removed */
   onWrongAnimationComplete?: () => void
   className?: string
@@ -27,6 +38,7 @@ export function RoundTimelineCard({
   isRevealed,
   isCorrect,
   cardData,
+  answers,
   onWrongAnimationComplete,
   className,
 }: RoundTimelineCardProps) {
@@ -125,6 +137,7 @@ export function RoundTimelineCard({
                 cardData={cardData}
                 isCorrect={isCorrect}
                 isRevealed={isRevealed}
+                answers={answers}
               />
             </div>
           </motion.div>
@@ -162,12 +175,14 @@ interface RevealedCardFaceProps {
   }
   isCorrect?: boolean
   isRevealed: boolean
+  answers?: RoundAnswers
 }
 
 function RevealedCardFace({
   cardData,
   isCorrect,
   isRevealed,
+  answers,
 }: RevealedCardFaceProps) {
   return (
     <div className="relative h-full w-full">
@@ -217,7 +232,11 @@ function RevealedCardFace({
             />
           )}
           <p
-            className="line-clamp-4 h-14 w-full text-xs font-medium leading-[0.875rem]"
+            className={cn(
+              'w-full text-xs font-medium leading-[0.875rem]',
+              // Make room for the answers below
+              answers ? 'line-clamp-2 h-7' : 'line-clamp-4 h-14',
+            )}
             title={cardData?.title}
           >
             {cardData?.title ?? 'Unknown'}
@@ -230,12 +249,42 @@ function RevealedCardFace({
               {cardData.artistName}
             </p>
           )}
+          {answers && <AnswerComparison answers={answers} />}
         </CardContent>
       </Card>
     </div>
   )
 }
 
+/** The active player's answers, marked right or wrong against the card */
+function AnswerComparison({ answers }: { answers: RoundAnswers }) {
+  return (
+    <div className="mt-0.5 w-full space-y-0.5 border-t pt-0.5 text-[0.625rem] leading-3">
+      {answers.yearGuess !== undefined && (
+        <p
+          className={cn(
+            'truncate',
+            answers.yearCorrect ? 'text-success' : 'text-destructive',
+          )}
+        >
+          Said {answers.yearGuess}
+        </p>
+      )}
+      {answers.songGuess !== undefined && (
+        <p
+          className={cn(
+            'truncate',
+            answers.songCorrect ? 'text-success' : 'text-destructive',
+          )}
+          title={answers.songGuess}
+        >
+          {answers.songGuess}
+        </p>
+      )}
+    </div>
+  )
+}
+
 /** Draggable mystery card for placement - used in the controls bar */
 export function DraggableMysteryCard({ className }: { className?: string }) {
   return (
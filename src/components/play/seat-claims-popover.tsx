@@ -0,0 +1,155 @@
+import { useState } from 'react'
+import { useMutation } from 'convex/react'
+import { CopyIcon, DeviceMobileIcon } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import type { GameData, PlayerData } from './types'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Popover,
+  PopoverContent,
+  PopoverDescription,
+  PopoverHeader,
+  PopoverTitle,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+
+function getClaimUrl(claimCode: string) {
+  return `${window.location.origin}/claim/${claimCode}`
+}
+
+interface SeatClaimsPopoverProps {
+  game: GameData
+}
+
+/**
+ * Host-only list of local seats, each with a link or code a friend can use
+ * to take the seat over on their own device
+ */
+export function SeatClaimsPopover({ game }: SeatClaimsPopoverProps) {
+  const createClaim = useMutation(api.seatClaims.createClaim)
+  const revokeClaim = useMutation(api.seatClaims.revokeClaim)
+  const [pendingId, setPendingId] = useState<Id<'gamePlayers'> | null>(null)
+
+  const seats = game.players.filter(
+    (p) => !p.isHostSeat && (p.kind === 'local' || p.claimedFromLocal),
+  )
+  if (
+    !game.isCurrentUserHost ||
+    game.mode !== 'hostOnly' ||
+    game.phase === 'finished' ||
+    seats.length === 0
+  ) {
+    return null
+  }
+
+  const run = async (
+    playerId: Id<'gamePlayers'>,
+    action: () => Promise<unknown>,
+    failure: string,
+  ) => {
+    setPendingId(playerId)
+    try {
+      await action()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure)
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleShare = (player: PlayerData) =>
+    run(
+      player._id,
+      async () => {
+        const claimCode = await createClaim({ playerId: player._id })
+        await navigator.clipboard.writeText(getClaimUrl(claimCode))
+        toast.success(`Claim link for ${player.displayName} copied`)
+      },
+      'Failed to create claim link',
+    )
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        render={<Button variant="outline" size="sm" className="gap-1.5" />}
+      >
+        <DeviceMobileIcon weight="duotone" className="size-4" />
+        Seats
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <PopoverHeader>
+          <PopoverTitle>Hand a seat to a friend</PopoverTitle>
+          <PopoverDescription>
+            Send a claim link, or have them enter the code on the home page, to
+            play that seat from their own device
+          </PopoverDescription>
+        </PopoverHeader>
+        <ul className="space-y-2">
+          {seats.map((player) => (
+            <li key={player._id} className="flex items-center gap-2">
+              <div className="min-w-0 flex-1">
+                <p className="truncate">{player.displayName}</p>
+                {player.claimCode && (
+                  <p className="font-mono text-xs text-muted-foreground">
+                    {player.claimCode}
+                  </p>
+                )}
+              </div>
+              {player.kind === 'user' ? (
+                <>
+                  <Badge variant="secondary">Claimed</Badge>
+                  <Button
+                    variant="ghost"
+                    size="xs"
+                    disabled={pendingId === player._id}
+                    onClick={() =>
+                      run(
+                        player._id,
+                        () => revokeClaim({ playerId: player._id }),
+                        'Failed to revoke claim',
+                      )
+                    }
+                  >
+                    Revoke
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button
+                    variant="outline"
+                    size="xs"
+                    className="gap-1"
+                    disabled={pendingId === player._id}
+                    onClick={() => handleShare(player)}
+                  >
+                    <CopyIcon weight="duotone" className="size-3.5" />
+                    {player.claimCode ? 'Copy Link' : 'Share'}
+                  </Button>
+                  {player.claimCode && (
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      disabled={pendingId === player._id}
+                      onClick={() =>
+                        run(
+                          player._id,
+                          () => revokeClaim({ playerId: player._id }),
+                          'Failed to cancel claim',
+                        )
+                      }
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  )
+}
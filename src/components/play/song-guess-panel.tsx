@@ -0,0 +1,221 @@
+import { useMutation } from 'convex/react'
+import { useState } from 'react'
+import { CheckIcon, CoinIcon, XIcon } from '@phosphor-icons/react'
+
+import { api } from '../../../convex/_generated/api'
+import type { GameData } from './types'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  useActionState,
+  useActivePlayer,
+  useIsHost,
+  useMyPlayer,
+  useWrapAction,
+} from '@/stores/play-game-store'
+
+type Guess = NonNullable<GameData['currentRound']>['guesses'][0]
+
+interface SongGuessPanelProps {
+  game: GameData
+}
+
+/**
+ * Title/artist guessing for the current song.
+ * Before the reveal, shows a form for the caller's seat (or, in host-only
+ * games, the active local seat). After the reveal, lists every guess with
+ * its result and lets the host accept guesses the matcher rejected.
+ */
+export function SongGuessPanel({ game }: SongGuessPanelProps) {
+  const myPlayer = useMyPlayer()
+  const activePlayer = useActivePlayer()
+  const isHost = useIsHost()
+
+  const guesses = game.currentRound?.guesses ?? []
+
+  if (!game.useTokens || !game.currentRound) return null
+
+  if (game.phase === 'revealed') {
+    if (guesses.length === 0) return null
+    return <GuessResults game={game} guesses={guesses} canOverride={isHost} />
+  }
+
+  if (game.phase !== 'awaitingPlacement' && game.phase !== 'awaitingReveal') {
+    return null
+  }
+
+  const guessingPlayer =
+    myPlayer ??
+    (isHost && activePlayer?.kind === 'local' ? activePlayer : undefined)
+  if (!guessingPlayer) return null
+
+  // Under exact-year rules the active player answers with their placement
+  if (
+    game.rules.requireTitleArtist &&
+    guessingPlayer._id === activePlayer?._id
+  ) {
+    return null
+  }
+
+  const existing = guesses.find((g) => g.playerId === guessingPlayer._id)
+
+  return (
+    <GuessForm
+      // Reset the form when the seat changes between turns
+      key={guessingPlayer._id}
+      game={game}
+      playerId={guessingPlayer._id}
+      existing={existing}
+      otherGuessCount={guesses.length - (existing ? 1 : 0)}
+    />
+  )
+}
+
+interface GuessFormProps {
+  game: GameData
+  playerId: GameData['players'][0]['_id']
+  existing?: Guess
+  otherGuessCount: number
+}
+
+function GuessForm({
+  game,
+  playerId,
+  existing,
+  otherGuessCount,
+}: GuessFormProps) {
+  const { loading, error } = useActionState()
+  const wrapAction = useWrapAction()
+  const submitGuess = useMutation(api.turns.submitGuess)
+
+  const [title, setTitle] = useState(existing?.title ?? '')
+  const [artist, setArtist] = useState(existing?.artist ?? '')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await wrapAction(() =>
+        submitGuess({
+          gameId: game._id,
+          actingPlayerId: playerId,
+          title,
+          artist,
+        }),
+      )
+    } catch {
+      // Error is already handled by wrapAction
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Name the song and artist to earn {game.rules.guessReward}{' '}
+        {game.rules.guessReward === 1 ? 'token' : 'tokens'} on the reveal
+        {otherGuessCount > 0 &&
+          ` (${otherGuessCount} other ${otherGuessCount === 1 ? 'guess' : 'guesses'} in)`}
+      </p>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          placeholder="Song title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <Input
+          placeholder="Artist"
+          value={artist}
+          onChange={(e) => setArtist(e.target.value)}
+        />
+        <Button
+          type="submit"
+          variant="secondary"
+          disabled={loading || !title.trim() || !artist.trim()}
+        >
+          {existing ? 'Update Guess' : 'Guess'}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </form>
+  )
+}
+
+interface GuessResultsProps {
+  game: GameData
+  guesses: Array<Guess>
+  canOverride: boolean
+}
+
+function GuessResults({ game, guesses, canOverride }: GuessResultsProps) {
+  const { loading } = useActionState()
+  const wrapAction = useWrapAction()
+  const overrideGuess = useMutation(api.turns.overrideGuess)
+
+  const handleAccept = async (playerId: Guess['playerId']) => {
+    try {
+      await wrapAction(() => overrideGuess({ gameId: game._id, playerId }))
+    } catch {
+      // Error is already handled by wrapAction
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Guesses</p>
+      <ul className="space-y-1.5">
+        {guesses.map((guess) => {
+          const player = game.players.find((p) => p._id === guess.playerId)
+          const result = guess.result
+          return (
+            <li
+              key={guess.playerId}
+              className="flex flex-wrap items-center gap-2 text-sm"
+            >
+              {result?.accepted ? (
+                <CheckIcon
+                  weight="duotone"
+                  className="size-4 shrink-0 text-primary"
+                />
+              ) : (
+                <XIcon
+                  weight="duotone"
+                  className="size-4 shrink-0 text-destructive"
+                />
+              )}
+              <span className="font-medium">{player?.displayName}</span>
+              <span className="min-w-0 truncate text-muted-foreground">
+                "{guess.title}" by {guess.artist}
+              </span>
+              {result && result.tokensAwarded > 0 && (
+                <Badge variant="secondary" className="gap-1">
+                  <CoinIcon weight="duotone" className="size-3" />+
+                  {result.tokensAwarded}
+                </Badge>
+              )}
+              {result?.overridden && <Badge variant="outline">Accepted</Badge>}
+              {result && !result.accepted && (
+                <span className="text-xs text-muted-foreground">
+                  {result.titleCorrect
+                    ? 'Wrong artist'
+                    : result.artistCorrect
+                      ? 'Wrong title'
+                      : 'Wrong title and artist'}
+                </span>
+              )}
+              {canOverride && result && !result.accepted && (
+                <Button
+                  variant="outline"
+                  size="xs"
+                  onClick={() => handleAccept(guess.playerId)}
+                  disabled={loading}
+                >
+                  Accept
+                </Button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+/**
+ * Format a 1-indexed placing as an ordinal: 1st, 2nd, 3rd, 4th, 11th, 21st...
+ */
+export function formatPlace(place: number): string {
+  const lastTwo = place % 100
+  if (lastTwo >= 11 && lastTwo <= 13) {
+    return `${place}th`
+  }
+  switch (place % 10) {
+    case 1:
+      return `${place}st`
+    case 2:
+      return `${place}nd`
+    case 3:
+      return `${place}rd`
+    default:
+      return `${place}th`
+  }
+}
@@ -0,0 +1,44 @@
+import { useNavigate } from '@tanstack/react-router'
+import { useMutation } from 'convex/react'
+import { EyeSlashIcon } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { GameData } from './types'
+import { Button } from '@/components/ui/button'
+
+interface StopWatchingButtonProps {
+  game: GameData
+}
+
+/** Lets a spectator leave the game they are watching */
+export function StopWatchingButton({ game }: StopWatchingButtonProps) {
+  const navigate = useNavigate()
+  const stopWatching = useMutation(api.spectators.stopWatching)
+
+  if (!game.isCurrentUserSpectator) {
+    return null
+  }
+
+  const handleStopWatching = async () => {
+    try {
+      await stopWatching({ gameId: game._id })
+      navigate({ to: '/' })
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to stop watching',
+      )
+    }
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="shrink-0 gap-1.5"
+      onClick={handleStopWatching}
+    >
+      <EyeSlashIcon weight="duotone" className="size-4" />
+      Stop Watching
+    </Button>
+  )
+}
@@ -12,6 +12,8 @@ interface TimelineCardWrapperProps {
   isRevealed?: boolean
   /** Whether the placement was correct (only used when revealed) */
   isCorrect?: boolean
+  /** Easy mode: label of the year bucket this card starts (draws a separator) */
+  bucketLabel?: string
 }
 
 /**
@@ -25,6 +27,7 @@ export function TimelineCardWrapper({
   className,
   isRevealed,
   isCorrect,
+  bucketLabel,
 }: TimelineCardWrapperProps) {
   const showResult = isRevealed && isCorrect !== undefined
   return (
@@ -34,6 +37,29 @@ export function TimelineCardWrapper({
         className,
       )}
     >
+      {/* Year bucket separator - easy mode only */}
+      {bucketLabel && (
+        <div
+          className={cn(
+            'pointer-events-none absolute z-0 border-dashed border-primary/40',
+            // Mobile: horizontal line above the card, across the year labels
+            '-top-1.5 -left-24 right-0 border-t',
+            // Desktop: vertical line before the card, down through the rail
+            'md:-top-1 md:-bottom-14 md:-left-1.5 md:right-auto md:border-t-0 md:border-l',
+          )}
+        >
+          <span
+            className={cn(
+              'absolute whitespace-nowrap text-[0.625rem] font-semibold text-primary',
+              'left-0 -top-4',
+              'md:left-1 md:-top-4',
+            )}
+          >
+            {bucketLabel}
+          </span>
+        </div>
+      )}
+
       {/* Year marker container - absolutely positioned on both mobile and desktop */}
       <div
         className={cn(
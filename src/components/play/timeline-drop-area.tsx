@@ -12,6 +12,7 @@ import { useMemo } from 'react'
 
 import { GameCard } from './game-card'
 import { MYSTERY_CARD_ID } from './mystery-card-stack'
+import { getBucketStartLabels } from './placement-utils'
 import { DraggableMysteryCard } from './round-timeline-card'
 import { TimelineCardWrapper } from './timeline-card-wrapper'
 import { TimelineRail } from './timeline-rail'
@@ -36,6 +37,8 @@ interface TimelineDropAreaProps {
   dragDisabled?: boolean
   /** Card stack to render inside the card */
   cardStack?: ReactNode
+  /** Easy mode: years per bucket, for drawing bucket separators */
+  yearBucketSpan?: number
 }
 
 export function TimelineDropArea({
@@ -46,6 +49,7 @@ export function TimelineDropArea({
   isCardPlaced,
   dragDisabled,
   cardStack,
+  yearBucketSpan = 1,
 }: TimelineDropAreaProps) {
   const isMobile = useIsMobile()
 
@@ -58,6 +62,11 @@ export function TimelineDropArea({
     return map
   }, [timeline.cards])
 
+  const bucketLabels = useMemo(
+    () => getBucketStartLabels(timeline.cards, yearBucketSpan),
+    [timeline.cards, yearBucketSpan],
+  )
+
   const showExternalMysteryCard = !isCardPlaced
   const sortingStrategy = isMobile
     ? verticalListSortingStrategy
@@ -113,7 +122,14 @@ export function TimelineDropArea({
                   const card = cardDataMap.get(id)
                   if (!card) return null
 
-                  return <SortableTimelineCard key={id} id={id} card={card} />
+                  return (
+                    <SortableTimelineCard
+                      key={id}
+                      id={id}
+                      card={card}
+                      bucketLabel={bucketLabels.get(id)}
+                    />
+                  )
                 })
               )}
             </motion.div>
@@ -199,9 +215,14 @@ function SortableMysteryCard({
 interface SortableTimelineCardProps {
   id: string
   card: TimelineData['cards'][0]
+  bucketLabel?: string
 }
 
-function SortableTimelineCard({ id, card }: SortableTimelineCardProps) {
+function SortableTimelineCard({
+  id,
+  card,
+  bucketLabel,
+}: SortableTimelineCardProps) {
   const { setNodeRef, transform, transition } = useSortable({
     id,
     // Timeline cards are not draggable - only the mystery card can be dragged
@@ -215,7 +236,10 @@ function SortableTimelineCard({ id, card }: SortableTimelineCardProps) {
 
   return (
     <div ref={setNodeRef} style={style}>
-      <TimelineCardWrapper releaseYear={card.releaseYear}>
+      <TimelineCardWrapper
+        releaseYear={card.releaseYear}
+        bucketLabel={bucketLabel}
+      >
         <GameCard
           title={card.title}
           artistName={card.artistNames[0]}
@@ -4,7 +4,7 @@ import { GameCard } from './game-card'
 import { RoundTimelineCard } from './round-timeline-card'
 import { TimelineCardWrapper } from './timeline-card-wrapper'
 import { TimelineRail } from './timeline-rail'
-import { isPlacementCorrect } from './placement-utils'
+import { getBucketStartLabels, isPlacementCorrect } from './placement-utils'
 
 import type { ReactNode } from 'react'
 import type { CardData, GameData, TimelineData } from './types'
@@ -33,6 +33,13 @@ export function TimelineViewReadonly({
   isExiting = false,
 }: TimelineViewReadonlyProps) {
   const { currentRound, phase } = game
+  const placementRules = useMemo(
+    () => ({
+      sameYearEitherSide: game.rules.sameYearEitherSide,
+      yearBucketSpan: game.rules.yearBucketSpan,
+    }),
+    [game.rules.sameYearEitherSide, game.rules.yearBucketSpan],
+  )
 
   // Get the placement index if we should show the round placeholder
   const placementIndex =
@@ -42,6 +49,29 @@ export function TimelineViewReadonly({
       ? currentRound.placementIndex
       : undefined
 
+  // Exact-year rules: the active player's answers, judged once revealed
+  const answers = useMemo(() => {
+    const { requireExactYear, requireTitleArtist } = game.rules
+    if (!requireExactYear && !requireTitleArtist) {
+      return undefined
+    }
+    const guess = currentRound?.guesses.find(
+      (g) => g.playerId === currentRound.activePlayerId,
+    )
+    return {
+      yearGuess: requireExactYear ? currentRound?.yearGuess : undefined,
+      yearCorrect:
+        requireExactYear && currentCard
+          ? currentRound?.yearGuess === currentCard.releaseYear
+          : undefined,
+      songGuess:
+        requireTitleArtist && guess?.title
+          ? `${guess.title} by ${guess.artist}`
+          : undefined,
+      songCorrect: requireTitleArtist ? guess?.result?.accepted : undefined,
+    }
+  }, [game.rules, currentRound, currentCard])
+
   // Compute correctness when revealed
   const isCorrect = useMemo(() => {
     if (
@@ -52,12 +82,32 @@ export function TimelineViewReadonly({
       return undefined
     }
     // Use the timeline cards as-is (before the round card was placed)
-    return isPlacementCorrect(
+    const placementCorrect = isPlacementCorrect(
       timeline.cards.map((c) => ({ releaseYear: c.releaseYear })),
       currentRound.placementIndex,
       currentCard.releaseYear,
+      placementRules,
+    )
+    // Every required answer must be right to keep the card
+    return (
+      placementCorrect &&
+      answers?.yearCorrect !== false &&
+      answers?.songCorrect !== false
     )
-  }, [phase, currentCard, currentRound?.placementIndex, timeline.cards])
+  }, [
+    phase,
+    currentCard,
+    currentRound?.placementIndex,
+    timeline.cards,
+    placementRules,
+    answers,
+  ])
+
+  // Easy mode: separators where a new year bucket starts
+  const bucketLabels = useMemo(
+    () => getBucketStartLabels(timeline.cards, placementRules.yearBucketSpan),
+    [timeline.cards, placementRules.yearBucketSpan],
+  )
 
   // Build the display list with the round placeholder inserted
   const displayCards = useMemo(() => {
@@ -126,6 +176,7 @@ export function TimelineViewReadonly({
                   <TimelineCardWrapper
                     key={item.card._id}
                     releaseYear={item.card.releaseYear}
+                    bucketLabel={bucketLabels.get(item.card._id)}
                   >
                     <GameCard
                       title={item.card.title}
@@ -153,6 +204,7 @@ export function TimelineViewReadonly({
                             }
                           : undefined
                       }
+                      answers={answers}
                     />
                   </TimelineCardWrapper>
                 ),
@@ -10,3 +10,6 @@ export type TimelineData = NonNullable<
 export type CardData = NonNullable<
   FunctionReturnType<typeof api.timelines.getCurrentRoundCard>
 >
+export type ReplayData = NonNullable<
+  FunctionReturnType<typeof api.gameEvents.getReplay>
+>
@@ -0,0 +1,64 @@
+import { SkullIcon } from '@phosphor-icons/react'
+import type { TrackData } from './track-item'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+
+// How many of the hardest songs to list
+const HARDEST_SONG_COUNT = 5
+
+interface HardestSongsProps {
+  tracks: Array<TrackData>
+}
+
+/**
+ * The songs players most often place wrongly, among those played enough
+ * to have a difficulty score
+ */
+export function HardestSongs({ tracks }: HardestSongsProps) {
+  const hardest = tracks
+    .filter((t) => t.difficulty !== undefined)
+    .sort((a, b) => (b.difficulty ?? 0) - (a.difficulty ?? 0))
+    .slice(0, HARDEST_SONG_COUNT)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Hardest Songs</CardTitle>
+        <CardDescription>The songs that trip everyone up</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {hardest.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Play a few games with this playlist to find out
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {hardest.map((track) => (
+              <li key={track._id} className="flex items-center gap-3">
+                <SkullIcon
+                  weight="duotone"
+                  className="size-5 shrink-0 text-destructive"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{track.title}</p>
+                  <p className="truncate text-sm text-muted-foreground">
+                    {track.artistNames.join(', ')}
+                    {track.releaseYear && ` • ${track.releaseYear}`}
+                  </p>
+                </div>
+                <span className="shrink-0 text-sm tabular-nums text-muted-foreground">
+                  {track.difficulty}% missed
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
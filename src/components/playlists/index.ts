@@ -1,7 +1,13 @@
+export { HardestSongs } from './hardest-songs'
 export { ImportPlaylistCard } from './import-playlist-card'
 export { PlaylistHeader } from './playlist-header'
 export { PlaylistStatusSummary } from './playlist-status-summary'
 export { PlaylistItem, type PlaylistData } from './playlist-item'
+export {
+  PlaylistLeaderboard,
+  type PlaylistLeaderboardEntry,
+} from './playlist-leaderboard'
+export { PlaylistSharing } from './playlist-sharing'
 export { PlaylistsList } from './playlists-list'
 export { TrackItem, type TrackData } from './track-item'
 export { TrackList } from './track-list'
@@ -3,6 +3,7 @@ import {
   ArrowsClockwiseIcon,
   CheckCircleIcon,
   MusicNotesIcon,
+  ShareNetworkIcon,
   WarningIcon,
   XCircleIcon,
 } from '@phosphor-icons/react'
@@ -20,6 +21,7 @@ export interface PlaylistData {
   totalTracks: number
   readyTracks: number
   unmatchedTracks: number
+  isOwner?: boolean
 }
 
 interface PlaylistItemProps {
@@ -64,6 +66,12 @@ export function PlaylistItem({ playlist }: PlaylistItemProps) {
                 <p className="truncate font-medium">{playlist.name}</p>
                 <div className="mt-0.5 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
                   <span>{playlist.totalTracks} tracks</span>
+                  {playlist.isOwner === false && (
+                    <span className="flex items-center gap-1">
+                      <ShareNetworkIcon weight="duotone" className="size-3" />
+                      Shared with you
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,70 @@
+import { TrophyIcon } from '@phosphor-icons/react'
+import type { api } from '../../../convex/_generated/api'
+import type { FunctionReturnType } from 'convex/server'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+
+export type PlaylistLeaderboardEntry = FunctionReturnType<
+  typeof api.userStats.getPlaylistLeaderboard
+>[0]
+
+interface PlaylistLeaderboardProps {
+  entries: Array<PlaylistLeaderboardEntry>
+}
+
+/**
+ * The playlist's best players by wins, then placement accuracy
+ */
+export function PlaylistLeaderboard({ entries }: PlaylistLeaderboardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Best Players</CardTitle>
+        <CardDescription>Most wins with this playlist</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nobody has finished a game with this playlist yet
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {entries.map((entry, index) => (
+              <li key={index} className="flex items-center gap-3">
+                <span className="w-6 shrink-0 text-right text-sm tabular-nums text-muted-foreground">
+                  {index === 0 ? (
+                    <TrophyIcon
+                      weight="duotone"
+                      className="ml-auto size-5 text-primary"
+                    />
+                  ) : (
+                    index + 1
+                  )}
+                </span>
+                <p className="min-w-0 flex-1 truncate font-medium">
+                  {entry.displayName}
+                  {entry.isCurrentUser && (
+                    <Badge variant="outline" className="ml-2">
+                      You
+                    </Badge>
+                  )}
+                </p>
+                <span className="shrink-0 text-sm tabular-nums text-muted-foreground">
+                  {entry.gamesWon}/{entry.gamesPlayed} won
+                  {entry.placementsMade > 0 &&
+                    ` • ${Math.round((entry.placementsCorrect / entry.placementsMade) * 100)}% correct`}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { useMutation } from 'convex/react'
+import { CopyIcon, PlusIcon, ShareNetworkIcon } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Switch } from '@/components/ui/switch'
+
+interface PlaylistSharingProps {
+  playlistId: Id<'playlists'>
+  isOwner: boolean
+  isShared: boolean
+  shareable: boolean
+}
+
+/**
+ * Owners can share a playlist by link so friends can use it in their own
+ * games; anyone opening the link can add it to their playlists.
+ */
+export function PlaylistSharing({
+  playlistId,
+  isOwner,
+  isShared,
+  shareable,
+}: PlaylistSharingProps) {
+  const setShareable = useMutation(api.playlists.setShareable)
+  const addShared = useMutation(api.playlists.addShared)
+  const removeShared = useMutation(api.playlists.removeShared)
+  const [loading, setLoading] = useState(false)
+
+  const run = async (action: () => Promise<null>, failure: string) => {
+    setLoading(true)
+    try {
+      await action()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast.success('Link copied to clipboard')
+    } catch {
+      toast.error('Failed to copy link')
+    }
+  }
+
+  if (isOwner) {
+    return (
+      <Card>
+        <CardContent className="flex flex-wrap items-center gap-3 p-4">
+          <ShareNetworkIcon
+            weight="duotone"
+            className="size-5 shrink-0 text-primary"
+          />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium">Share with a link</p>
+            <p className="text-xs text-muted-foreground">
+              Anyone with the link can use this playlist in their games
+            </p>
+          </div>
+          {shareable && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1.5"
+              onClick={handleCopyLink}
+            >
+              <CopyIcon weight="duotone" className="size-4" />
+              Copy Link
+            </Button>
+          )}
+          <Switch
+            checked={shareable}
+            disabled={loading}
+            onCheckedChange={(checked) =>
+              run(
+                () => setShareable({ playlistId, shareable: checked }),
+                'Failed to update sharing',
+              )
+            }
+          />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardContent className="flex flex-wrap items-center gap-3 p-4">
+        <ShareNetworkIcon
+          weight="duotone"
+          className="size-5 shrink-0 text-primary"
+        />
+        <p className="min-w-0 flex-1 text-sm">
+          {isShared
+            ? 'This playlist is shared with you.'
+            : 'Someone shared this playlist. Add it to use it in your games.'}
+        </p>
+        {isShared ? (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={loading}
+            onClick={() =>
+              run(
+                () => removeShared({ playlistId }),
+                'Failed to remove playlist',
+              )
+            }
+          >
+            Remove from My Playlists
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            className="gap-1.5"
+            disabled={loading}
+            onClick={() =>
+              run(() => addShared({ playlistId }), 'Failed to add playlist')
+            }
+          >
+            <PlusIcon weight="duotone" className="size-4" />
+            Add to My Playlists
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,6 +3,7 @@ import { useMutation } from 'convex/react'
 import {
   CheckCircleIcon,
   ClockIcon,
+  GaugeIcon,
   MusicNotesIcon,
   SpotifyLogoIcon,
   TrashIcon,
@@ -23,6 +24,11 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
 
 export interface TrackData {
   _id: Id<'playlistTracks'>
@@ -35,13 +41,18 @@ export interface TrackData {
   imageUrl?: string
   spotifyTrackId?: string
   unmatchedReason?: string
+  timesPlaced?: number
+  /** Percentage of placements players got wrong, once played enough */
+  difficulty?: number
 }
 
 interface TrackItemProps {
   track: TrackData
+  /** Only the playlist's owner can remove tracks */
+  canRemove?: boolean
 }
 
-export function TrackItem({ track }: TrackItemProps) {
+export function TrackItem({ track, canRemove = true }: TrackItemProps) {
   const [isRemoving, setIsRemoving] = useState(false)
   const removeTrack = useMutation(api.playlists.removeTrack)
 
@@ -97,6 +108,26 @@ export function TrackItem({ track }: TrackItemProps) {
         </span>
       )}
 
+      {/* Difficulty (once the song has been played enough) */}
+      {track.difficulty !== undefined && (
+        <Tooltip>
+          <TooltipTrigger
+            render={
+              <Badge
+                variant="outline"
+                className="shrink-0 gap-1 tabular-nums"
+              />
+            }
+          >
+            <GaugeIcon weight="duotone" className="size-3" />
+            {track.difficulty}%
+          </TooltipTrigger>
+          <TooltipContent>
+            Missed in {track.difficulty}% of {track.timesPlaced} placements
+          </TooltipContent>
+        </Tooltip>
+      )}
+
       {/* Status badge */}
       {isReady && (
         <Badge variant="secondary" className="hidden shrink-0 gap-1 sm:flex">
@@ -156,36 +187,38 @@ export function TrackItem({ track }: TrackItemProps) {
       )}
 
       {/* Remove button */}
-      <AlertDialog>
-        <AlertDialogTrigger
-          render={
-            <Button
-              variant="ghost"
-              size="icon"
-              className="shrink-0 text-muted-foreground hover:text-destructive"
-              disabled={isRemoving}
-            />
-          }
-        >
-          <TrashIcon weight="duotone" className="size-4" />
-        </AlertDialogTrigger>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Remove track?</AlertDialogTitle>
-            <AlertDialogDescription>
-              Are you sure you want to remove "{track.title}" by{' '}
-              {track.artistNames.join(', ')} from this playlist? This action
-              cannot be undone.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleRemove} variant="destructive">
-              Remove
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {canRemove && (
+        <AlertDialog>
+          <AlertDialogTrigger
+            render={
+              <Button
+                variant="ghost"
+                size="icon"
+                className="shrink-0 text-muted-foreground hover:text-destructive"
+                disabled={isRemoving}
+              />
+            }
+          >
+            <TrashIcon weight="duotone" className="size-4" />
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Remove track?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to remove "{track.title}" by{' '}
+                {track.artistNames.join(', ')} from this playlist? This action
+                cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRemove} variant="destructive">
+                Remove
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
     </li>
   )
 }
@@ -11,9 +11,10 @@ import {
 
 interface TrackListProps {
   tracks: Array<TrackData>
+  canRemove?: boolean
 }
 
-export function TrackList({ tracks }: TrackListProps) {
+export function TrackList({ tracks, canRemove }: TrackListProps) {
   return (
     <Card>
       <CardHeader>
@@ -35,7 +36,7 @@ export function TrackList({ tracks }: TrackListProps) {
         ) : (
           <ul className="divide-y">
             {tracks.map((track) => (
-              <TrackItem key={track._id} track={track} />
+              <TrackItem key={track._id} track={track} canRemove={canRemove} />
             ))}
           </ul>
         )}
@@ -0,0 +1,73 @@
+import { Bar, BarChart, XAxis, YAxis } from 'recharts'
+import { formatPercent } from './stat-utils'
+import type { ProfileStats } from './types'
+import type { ChartConfig } from '@/components/ui/chart'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart'
+
+const chartConfig = {
+  gained: {
+    label: 'Won / earned',
+    color: 'var(--chart-2)',
+  },
+  lost: {
+    label: 'Lost / spent',
+    color: 'var(--chart-5)',
+  },
+} satisfies ChartConfig
+
+interface BetsTokensChartProps {
+  stats: ProfileStats
+}
+
+/**
+ * Bets won against bets lost, and tokens earned against tokens spent
+ */
+export function BetsTokensChart({ stats }: BetsTokensChartProps) {
+  const data = [
+    { label: 'Bets', gained: stats.betsWon, lost: stats.betsLost },
+    { label: 'Tokens', gained: stats.tokensEarned, lost: stats.tokensSpent },
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bets & Tokens</CardTitle>
+        <CardDescription>
+          {formatPercent(stats.betsWon, stats.betsWon + stats.betsLost)} of bets
+          won
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="max-h-64 w-full">
+          <BarChart data={data} layout="vertical">
+            <XAxis type="number" allowDecimals={false} hide />
+            <YAxis
+              type="category"
+              dataKey="label"
+              tickLine={false}
+              axisLine={false}
+              width={56}
+            />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="gained" fill="var(--color-gained)" radius={4} />
+            <Bar dataKey="lost" fill="var(--color-lost)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,76 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import type { ProfileStats } from './types'
+import type { ChartConfig } from '@/components/ui/chart'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart'
+
+const chartConfig = {
+  accuracy: {
+    label: 'Accuracy',
+    color: 'var(--chart-1)',
+  },
+} satisfies ChartConfig
+
+interface DecadeAccuracyChartProps {
+  decades: ProfileStats['decades']
+}
+
+/**
+ * Share of placements the user got right, by the decade of the song
+ */
+export function DecadeAccuracyChart({ decades }: DecadeAccuracyChartProps) {
+  const data = decades.map((d) => ({
+    decade: `${d.decade}s`,
+    accuracy: Math.round((d.placementsCorrect / d.placementsMade) * 100),
+  }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Accuracy by Decade</CardTitle>
+        <CardDescription>
+          Correct placements for songs from each decade
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Place some cards to see your strongest decades
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="max-h-64 w-full">
+            <BarChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="decade" tickLine={false} axisLine={false} />
+              <YAxis
+                domain={[0, 100]}
+                tickFormatter={(value: number) => `${value}%`}
+                tickLine={false}
+                axisLine={false}
+                width={40}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    formatter={(value) => `${value}% correct`}
+                  />
+                }
+              />
+              <Bar dataKey="accuracy" fill="var(--color-accuracy)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
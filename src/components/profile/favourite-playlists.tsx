@@ -0,0 +1,66 @@
+import { Link } from '@tanstack/react-router'
+import { PlaylistIcon } from '@phosphor-icons/react'
+import { formatPercent } from './stat-utils'
+import type { ProfileStats } from './types'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+
+interface FavouritePlaylistsProps {
+  playlists: ProfileStats['playlists']
+}
+
+/**
+ * The playlists the user has played most, with their record on each
+ */
+export function FavouritePlaylists({ playlists }: FavouritePlaylistsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Favourite Playlists</CardTitle>
+        <CardDescription>The playlists you play most</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {playlists.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No playlists yet</p>
+        ) : (
+          playlists.map((playlist) => (
+            <article
+              key={playlist.playlistId}
+              className="flex items-center gap-3 rounded-lg border p-3"
+            >
+              <PlaylistIcon
+                weight="duotone"
+                className="size-5 text-muted-foreground"
+              />
+              <div className="min-w-0 flex-1">
+                {playlist.name ? (
+                  <Link
+                    to="/playlists/$playlistId"
+                    params={{ playlistId: playlist.playlistId }}
+                    className="block truncate font-medium hover:underline"
+                  >
+                    {playlist.name}
+                  </Link>
+                ) : (
+                  <p className="truncate font-medium text-muted-foreground">
+                    Deleted playlist
+                  </p>
+                )}
+                <p className="text-sm text-muted-foreground">
+                  {playlist.gamesPlayed} game
+                  {playlist.gamesPlayed !== 1 && 's'} •{' '}
+                  {formatPercent(playlist.gamesWon, playlist.gamesPlayed)} won
+                </p>
+              </div>
+            </article>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,6 @@
+export { BetsTokensChart } from './bets-tokens-chart'
+export { DecadeAccuracyChart } from './decade-accuracy-chart'
+export { FavouritePlaylists } from './favourite-playlists'
+export { StatSummary } from './stat-summary'
+export { formatPercent } from './stat-utils'
+export type { ProfileStats } from './types'
@@ -0,0 +1,68 @@
+import {
+  CoinsIcon,
+  CrosshairIcon,
+  GameControllerIcon,
+  TrophyIcon,
+} from '@phosphor-icons/react'
+import { formatPercent } from './stat-utils'
+import type { Icon } from '@phosphor-icons/react'
+import type { ProfileStats } from './types'
+import { Card, CardContent } from '@/components/ui/card'
+
+interface StatSummaryProps {
+  stats: ProfileStats
+}
+
+/**
+ * Headline numbers: games, wins, placement accuracy and token balance
+ */
+export function StatSummary({ stats }: StatSummaryProps) {
+  const tiles: Array<{
+    label: string
+    value: string
+    detail: string
+    icon: Icon
+  }> = [
+    {
+      label: 'Games played',
+      value: String(stats.gamesPlayed),
+      detail: `Last played ${new Date(stats.lastPlayedAt).toLocaleDateString()}`,
+      icon: GameControllerIcon,
+    },
+    {
+      label: 'Win rate',
+      value: formatPercent(stats.gamesWon, stats.gamesPlayed),
+      detail: `${stats.gamesWon} won`,
+      icon: TrophyIcon,
+    },
+    {
+      label: 'Placement accuracy',
+      value: formatPercent(stats.placementsCorrect, stats.placementsMade),
+      detail: `${stats.placementsCorrect} of ${stats.placementsMade} correct`,
+      icon: CrosshairIcon,
+    },
+    {
+      label: 'Token balance',
+      value: String(stats.tokensEarned - stats.tokensSpent),
+      detail: `${stats.tokensEarned} earned, ${stats.tokensSpent} spent`,
+      icon: CoinsIcon,
+    },
+  ]
+
+  return (
+    <section className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+      {tiles.map((tile) => (
+        <Card key={tile.label} size="sm">
+          <CardContent className="space-y-1">
+            <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <tile.icon weight="duotone" className="size-4" />
+              {tile.label}
+            </p>
+            <p className="text-2xl font-bold tabular-nums">{tile.value}</p>
+            <p className="text-xs text-muted-foreground">{tile.detail}</p>
+          </CardContent>
+        </Card>
+      ))}
+    </section>
+  )
+}
@@ -0,0 +1,10 @@
+/**
+ * Format a share of a total as a whole percentage, or a dash when there is
+ * nothing to divide
+ */
+export function formatPercent(part: number, total: number): string {
+  if (total === 0) {
+    return '–'
+  }
+  return `${Math.round((part / total) * 100)}%`
+}
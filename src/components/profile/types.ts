@@ -0,0 +1,7 @@
+import type { api } from '../../../convex/_generated/api'
+import type { FunctionReturnType } from 'convex/server'
+
+// Type for the profile stats query result
+export type ProfileStats = NonNullable<
+  FunctionReturnType<typeof api.userStats.getMine>
+>
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * Seconds remaining until a deadline (epoch ms), re-rendering as it ticks.
+ * Returns null when there is no deadline.
+ */
+export function useCountdown(deadline: number | undefined): number | null {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (deadline === undefined) return
+
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [deadline])
+
+  if (deadline === undefined) return null
+
+  return Math.max(0, Math.ceil((deadline - now) / 1000))
+}
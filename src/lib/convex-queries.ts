@@ -14,11 +14,15 @@ export const getPlaylistQuery = (playlistId: Id<'playlists'>) =>
 export const getPlaylistWithAllTracksQuery = (playlistId: Id<'playlists'>) =>
   convexQuery(api.playlists.get, { playlistId, includeAllTracks: true })
 
+export const getPlaylistLeaderboardQuery = (playlistId: Id<'playlists'>) =>
+  convexQuery(api.userStats.getPlaylistLeaderboard, { playlistId })
+
 // ===========================================
 // Game queries
 // ===========================================
 
-export const listMyGamesQuery = () => convexQuery(api.games.listMine, {})
+export const listMyGamesQuery = (archived = false) =>
+  convexQuery(api.games.listMine, { archived })
 
 export const getGameQuery = (gameId: Id<'games'>) =>
   convexQuery(api.games.get, { gameId })
@@ -26,6 +30,9 @@ export const getGameQuery = (gameId: Id<'games'>) =>
 export const getGameByJoinCodeQuery = (joinCode: string) =>
   convexQuery(api.games.getByJoinCode, { joinCode })
 
+export const getGameReplayQuery = (joinCode: string) =>
+  convexQuery(api.gameEvents.getReplay, { joinCode })
+
 // ===========================================
 // Timeline queries
 // ===========================================
@@ -48,3 +55,14 @@ export const getCurrentRoundSongPreviewQuery = (gameId: Id<'games'>) =>
 
 export const getCurrentUserQuery = () => convexQuery(api.auth.getCurrentUser, {})
 
+// ===========================================
+// Stats queries
+// ===========================================
+
+export const getMyStatsQuery = () => convexQuery(api.userStats.getMine, {})
+
+export const getLeaderboardQuery = () =>
+  convexQuery(api.ratings.getLeaderboard, {})
+
+export const getMyRatingHistoryQuery = () =>
+  convexQuery(api.ratings.getMyHistory, {})
@@ -9,18 +9,33 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as ProfileRouteImport } from './routes/profile'
 import { Route as PlaylistsRouteImport } from './routes/playlists'
+import { Route as LeaderboardRouteImport } from './routes/leaderboard'
 import { Route as GamesRouteImport } from './routes/games'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as WatchCodeRouteImport } from './routes/watch.$code'
 import { Route as PlaylistsPlaylistIdRouteImport } from './routes/playlists_.$playlistId'
 import { Route as PlayJoinCodeRouteImport } from './routes/play.$joinCode'
+import { Route as ClaimClaimCodeRouteImport } from './routes/claim.$claimCode'
+import { Route as PlayJoinCodeReplayRouteImport } from './routes/play.$joinCode_.replay'
 import { Route as ApiAuthSplatRouteImport } from './routes/api/auth/$'
 
+const ProfileRoute = ProfileRouteImport.update({
+  id: '/profile',
+  path: '/profile',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const PlaylistsRoute = PlaylistsRouteImport.update({
   id: '/playlists',
   path: '/playlists',
   getParentRoute: () => rootRouteImport,
 } as any)
+const LeaderboardRoute = LeaderboardRouteImport.update({
+  id: '/leaderboard',
+  path: '/leaderboard',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const GamesRoute = GamesRouteImport.update({
   id: '/games',
   path: '/games',
@@ -31,6 +46,11 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const WatchCodeRoute = WatchCodeRouteImport.update({
+  id: '/watch/$code',
+  path: '/watch/$code',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const PlaylistsPlaylistIdRoute = PlaylistsPlaylistIdRouteImport.update({
   id: '/playlists_/$playlistId',
   path: '/playlists/$playlistId',
@@ -41,6 +61,16 @@ const PlayJoinCodeRoute = PlayJoinCodeRouteImport.update({
   path: '/play/$joinCode',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ClaimClaimCodeRoute = ClaimClaimCodeRouteImport.update({
+  id: '/claim/$claimCode',
+  path: '/claim/$claimCode',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const PlayJoinCodeReplayRoute = PlayJoinCodeReplayRouteImport.update({
+  id: '/play/$joinCode_/replay',
+  path: '/play/$joinCode/replay',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiAuthSplatRoute = ApiAuthSplatRouteImport.update({
   id: '/api/auth/$',
   path: '/api/auth/$',
@@ -50,66 +80,108 @@ const ApiAuthSplatRoute = ApiAuthSplatRouteImport.update({
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/games': typeof GamesRoute
+  '/leaderboard': typeof LeaderboardRoute
   '/playlists': typeof PlaylistsRoute
+  '/profile': typeof ProfileRoute
+  '/claim/$claimCode': typeof ClaimClaimCodeRoute
   '/play/$joinCode': typeof PlayJoinCodeRoute
   '/playlists/$playlistId': typeof PlaylistsPlaylistIdRoute
+  '/watch/$code': typeof WatchCodeRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
+  '/play/$joinCode/replay': typeof PlayJoinCodeReplayRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/games': typeof GamesRoute
+  '/leaderboard': typeof LeaderboardRoute
   '/playlists': typeof PlaylistsRoute
+  '/profile': typeof ProfileRoute
+  '/claim/$claimCode': typeof ClaimClaimCodeRoute
   '/play/$joinCode': typeof PlayJoinCodeRoute
   '/playlists/$playlistId': typeof PlaylistsPlaylistIdRoute
+  '/watch/$code': typeof WatchCodeRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
+  '/play/$joinCode/replay': typeof PlayJoinCodeReplayRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/games': typeof GamesRoute
+  '/leaderboard': typeof LeaderboardRoute
   '/playlists': typeof PlaylistsRoute
+  '/profile': typeof ProfileRoute
+  '/claim/$claimCode': typeof ClaimClaimCodeRoute
   '/play/$joinCode': typeof PlayJoinCodeRoute
   '/playlists_/$playlistId': typeof PlaylistsPlaylistIdRoute
+  '/watch/$code': typeof WatchCodeRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
+  '/play/$joinCode_/replay': typeof PlayJoinCodeReplayRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
     | '/games'
+    | '/leaderboard'
     | '/playlists'
+    | '/profile'
+    | '/claim/$claimCode'
     | '/play/$joinCode'
     | '/playlists/$playlistId'
+    | '/watch/$code'
     | '/api/auth/$'
+    | '/play/$joinCode/replay'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
     | '/games'
+    | '/leaderboard'
     | '/playlists'
+    | '/profile'
+    | '/claim/$claimCode'
     | '/play/$joinCode'
     | '/playlists/$playlistId'
+    | '/watch/$code'
     | '/api/auth/$'
+    | '/play/$joinCode/replay'
   id:
     | '__root__'
     | '/'
     | '/games'
+    | '/leaderboard'
     | '/playlists'
+    | '/profile'
+    | '/claim/$claimCode'
     | '/play/$joinCode'
     | '/playlists_/$playlistId'
+    | '/watch/$code'
     | '/api/auth/$'
+    | '/play/$joinCode_/replay'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   GamesRoute: typeof GamesRoute
+  LeaderboardRoute: typeof LeaderboardRoute
   PlaylistsRoute: typeof PlaylistsRoute
+  ProfileRoute: typeof ProfileRoute
+  ClaimClaimCodeRoute: typeof ClaimClaimCodeRoute
   PlayJoinCodeRoute: typeof PlayJoinCodeRoute
   PlaylistsPlaylistIdRoute: typeof PlaylistsPlaylistIdRoute
+  WatchCodeRoute: typeof WatchCodeRoute
   ApiAuthSplatRoute: typeof ApiAuthSplatRoute
+  PlayJoinCodeReplayRoute: typeof PlayJoinCodeReplayRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/profile': {
+      id: '/profile'
+      path: '/profile'
+      fullPath: '/profile'
+      preLoaderRoute: typeof ProfileRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/playlists': {
       id: '/playlists'
       path: '/playlists'
@@ -117,6 +189,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PlaylistsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/leaderboard': {
+      id: '/leaderboard'
+      path: '/leaderboard'
+      fullPath: '/leaderboard'
+      preLoaderRoute: typeof LeaderboardRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/games': {
       id: '/games'
       path: '/games'
@@ -131,6 +210,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/watch/$code': {
+      id: '/watch/$code'
+      path: '/watch/$code'
+      fullPath: '/watch/$code'
+      preLoaderRoute: typeof WatchCodeRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/playlists_/$playlistId': {
       id: '/playlists_/$playlistId'
       path: '/playlists/$playlistId'
@@ -145,6 +231,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PlayJoinCodeRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/claim/$claimCode': {
+      id: '/claim/$claimCode'
+      path: '/claim/$claimCode'
+      fullPath: '/claim/$claimCode'
+      preLoaderRoute: typeof ClaimClaimCodeRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/play/$joinCode_/replay': {
+      id: '/play/$joinCode_/replay'
+      path: '/play/$joinCode/replay'
+      fullPath: '/play/$joinCode/replay'
+      preLoaderRoute: typeof PlayJoinCodeReplayRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/auth/$': {
       id: '/api/auth/$'
       path: '/api/auth/$'
@@ -158,10 +258,15 @@ declare module '@tanstack/react-router' {
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   GamesRoute: GamesRoute,
+  LeaderboardRoute: LeaderboardRoute,
   PlaylistsRoute: PlaylistsRoute,
+  ProfileRoute: ProfileRoute,
+  ClaimClaimCodeRoute: ClaimClaimCodeRoute,
   PlayJoinCodeRoute: PlayJoinCodeRoute,
   PlaylistsPlaylistIdRoute: PlaylistsPlaylistIdRoute,
+  WatchCodeRoute: WatchCodeRoute,
   ApiAuthSplatRoute: ApiAuthSplatRoute,
+  PlayJoinCodeReplayRoute: PlayJoinCodeReplayRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -0,0 +1,82 @@
+import { Link, createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useMutation } from 'convex/react'
+import { useEffect, useState } from 'react'
+import { api } from '../../convex/_generated/api'
+import { authClient } from '@/lib/auth-client'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+
+export const Route = createFileRoute('/claim/$claimCode')({
+  component: ClaimSeatPage,
+})
+
+function ClaimSeatPage() {
+  const { claimCode } = Route.useParams()
+  const navigate = useNavigate()
+  const { data: session, isPending: isSessionPending } = authClient.useSession()
+  const claim = useMutation(api.seatClaims.claim)
+
+  const [claimError, setClaimError] = useState<string | null>(null)
+  const [hasAttemptedClaim, setHasAttemptedClaim] = useState(false)
+
+  // Claim the seat as soon as the session is known, then open the game
+  useEffect(() => {
+    if (hasAttemptedClaim || isSessionPending) {
+      return
+    }
+    setHasAttemptedClaim(true)
+
+    const attemptClaim = async () => {
+      try {
+        // If not logged in, sign in as anonymous first
+        if (!session) {
+          await authClient.signIn.anonymous()
+        }
+        const { joinCode } = await claim({ claimCode })
+        navigate({ to: '/play/$joinCode', params: { joinCode } })
+      } catch (err) {
+        setClaimError(
+          err instanceof Error ? err.message : 'Failed to claim seat',
+        )
+      }
+    }
+
+    attemptClaim()
+  }, [hasAttemptedClaim, isSessionPending, session, claim, claimCode, navigate])
+
+  if (claimError) {
+    return (
+      <div className="p-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Unable to Claim Seat</CardTitle>
+            <CardDescription>{claimError}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" render={<Link to="/" />}>
+              Go Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center justify-center p-8">
+      <Card>
+        <CardContent className="flex flex-col items-center gap-4 py-8">
+          <Spinner className="size-8" />
+          <p className="text-muted-foreground">Claiming your seat...</p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,6 +3,8 @@ import { useSuspenseQuery } from '@tanstack/react-query'
 import { useMutation } from 'convex/react'
 import { useState } from 'react'
 import {
+  ArchiveIcon,
+  ArrowCounterClockwiseIcon,
   DotsThreeVerticalIcon,
   GameControllerIcon,
   TrashIcon,
@@ -11,6 +13,7 @@ import { api } from '../../convex/_generated/api'
 import type { Id } from '../../convex/_generated/dataModel'
 import { listMyGamesQuery } from '@/lib/convex-queries'
 import { authClient } from '@/lib/auth-client'
+import { formatPlace } from '@/components/play'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -41,11 +44,19 @@ export const Route = createFileRoute('/games')({
 
 function GamesPage() {
   const { data: session } = authClient.useSession()
-  const { data: games } = useSuspenseQuery(listMyGamesQuery())
+  const [showArchived, setShowArchived] = useState(false)
+  const { data: games } = useSuspenseQuery(listMyGamesQuery(showArchived))
   const deleteGame = useMutation(api.games.deleteGame)
+  const setArchived = useMutation(api.games.setArchived)
   const [deleting, setDeleting] = useState<string | null>(null)
 
-  const handleDelete = async (gameId: Id<'games'>) => {
+  const handleDelete = async (gameId: Id<'games'>, phase: string) => {
+    if (
+      phase !== 'lobby' &&
+      !confirm('Delete this game for everyone? Its results will be lost.')
+    ) {
+      return
+    }
     setDeleting(gameId)
     try {
       await deleteGame({ gameId })
@@ -56,21 +67,50 @@ function GamesPage() {
     }
   }
 
+  const handleArchive = async (gameId: Id<'games'>, archived: boolean) => {
+    try {
+      await setArchived({ gameId, archived })
+    } catch (err) {
+      console.error('Failed to archive game:', err)
+    }
+  }
+
   const isGuest = session?.user.email.includes('guest.songgame.local')
 
   return (
     <section className="mx-auto max-w-4xl space-y-6 p-6">
       <header className="flex items-center gap-3">
         <GameControllerIcon weight="duotone" className="size-8 text-primary" />
-        <div>
+        <div className="flex-1">
           <h1 className="text-2xl font-bold">My Games</h1>
           <p className="text-muted-foreground">
             View and manage your active games
           </p>
         </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowArchived(!showArchived)}
+        >
+          {showArchived ? 'Show Active' : 'Show Archived'}
+        </Button>
       </header>
 
-      {games.length === 0 ? (
+      {games.length === 0 && showArchived ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ArchiveIcon
+              weight="duotone"
+              className="mb-4 size-16 text-muted-foreground/50"
+            />
+            <CardTitle className="mb-2 text-lg">No archived games</CardTitle>
+            <CardDescription className="text-center">
+              Archive finished games to tidy up your list. Their results are
+              kept.
+            </CardDescription>
+          </CardContent>
+        </Card>
+      ) : games.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <GameControllerIcon
@@ -91,7 +131,9 @@ function GamesPage() {
       ) : (
         <Card>
           <CardHeader>
-            <CardTitle>Active Games</CardTitle>
+            <CardTitle>
+              {showArchived ? 'Archived Games' : 'Active Games'}
+            </CardTitle>
             <CardDescription>
               {games.length} game{games.length !== 1 && 's'}
             </CardDescription>
@@ -113,6 +155,8 @@ function GamesPage() {
                   <p className="text-sm text-muted-foreground">
                     Code: <span className="font-mono">{game.joinCode}</span> •{' '}
                     {game.playerCount} player{game.playerCount !== 1 && 's'}
+                    {game.place !== undefined &&
+                      ` • Finished ${formatPlace(game.place)}`}
                   </p>
                 </Link>
                 <nav className="flex items-center gap-2">
@@ -122,7 +166,7 @@ function GamesPage() {
                     {game.phase}
                   </Badge>
                   {game.isHost && <Badge variant="outline">Host</Badge>}
-                  {game.isHost && game.phase === 'lobby' && (
+                  {(game.isHost || game.phase === 'finished') && (
                     <DropdownMenu>
                       <DropdownMenuTrigger
                         render={
@@ -137,16 +181,38 @@ function GamesPage() {
                         }
                       />
                       <DropdownMenuContent align="end">
-                        <DropdownMenuItem
-                          variant="destructive"
-                          onClick={(e) => {
-                            e.preventDefault()
-                            handleDelete(game._id)
-                          }}
-                        >
-                          <TrashIcon weight="duotone" className="mr-2 h-4 w-4" />
-                          Delete Game
-                        </DropdownMenuItem>
+                        {game.phase === 'finished' && (
+                          <DropdownMenuItem
+                            onClick={() =>
+                              handleArchive(game._id, !game.isArchived)
+                            }
+                          >
+                            {game.isArchived ? (
+                              <ArrowCounterClockwiseIcon
+                                weight="duotone"
+                                className="mr-2 h-4 w-4"
+                              />
+                            ) : (
+                              <ArchiveIcon
+                                weight="duotone"
+                                className="mr-2 h-4 w-4"
+                              />
+                            )}
+                            {game.isArchived ? 'Unarchive' : 'Archive'}
+                          </DropdownMenuItem>
+                        )}
+                        {game.isHost && (
+                          <DropdownMenuItem
+                            variant="destructive"
+                            onClick={(e) => {
+                              e.preventDefault()
+                              handleDelete(game._id, game.phase)
+                            }}
+                          >
+                            <TrashIcon weight="duotone" className="mr-2 h-4 w-4" />
+                            Delete Game
+                          </DropdownMenuItem>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   )}
@@ -4,7 +4,16 @@ import { useMutation } from 'convex/react'
 import { useState } from 'react'
 import { ArrowsClockwiseIcon, GoogleLogoIcon } from '@phosphor-icons/react'
 import { api } from '../../convex/_generated/api'
-import type { Id } from '../../convex/_generated/dataModel'
+import type {
+  DeckOptionsSettings,
+  EndOfDeckSettings,
+  GameLimitSettings,
+  LateJoinSettings,
+  PlayStyleSettings,
+  PlaylistSourceSettings,
+  RulesSettings,
+  TurnTimerSettings,
+} from '@/components/create-game'
 import { listMyPlaylistsQuery } from '@/lib/convex-queries'
 import { authClient } from '@/lib/auth-client'
 import { Button } from '@/components/ui/button'
@@ -16,14 +25,24 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card'
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select'
 import { AppLogo } from '@/components/app-logo'
+import {
+  DEFAULT_DECK_OPTIONS,
+  DEFAULT_END_OF_DECK,
+  DeckOptionsFields,
+  DeckSeedField,
+  EMPTY_PLAYLIST_SOURCES,
+  EndOfDeckFields,
+  GameLimitFields,
+  LateJoinFields,
+  PlayStyleFields,
+  PlaylistSourceFields,
+  RulesPresetFields,
+  TurnTimerFields,
+  toDeckFilters,
+  toDeckSources,
+  toDeckStrategy,
+} from '@/components/create-game'
 
 export const Route = createFileRoute('/')({
   loader: async ({ context }) => {
@@ -84,8 +103,13 @@ function JoinGameSection() {
   const [joining, setJoining] = useState(false)
 
   const joinByCode = useMutation(api.games.joinByCode)
+  const claimSeat = useMutation(api.seatClaims.claim)
+  const watch = useMutation(api.spectators.watch)
+
+  // Join codes are 6 characters; 8-character codes claim a local seat
+  const isClaimCode = joinCode.length === 8
 
-  const handleJoin = async () => {
+  const handleJoin = async (asSpectator = false) => {
     if (joining) return // Prevent concurrent submissions
     if (!joinCode.trim()) return
 
@@ -103,7 +127,16 @@ function JoinGameSection() {
     setJoining(true)
 
     try {
-      await joinByCode({ joinCode: joinCode.trim() })
+      if (isClaimCode) {
+        const claimed = await claimSeat({ claimCode: joinCode })
+        navigate({ to: '/play/$joinCode', params: { joinCode: claimed.joinCode } })
+        return
+      }
+      if (asSpectator) {
+        await watch({ code: joinCode.trim() })
+      } else {
+        await joinByCode({ joinCode: joinCode.trim() })
+      }
       navigate({ to: '/play/$joinCode', params: { joinCode: joinCode.trim().toUpperCase() } })
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to join game')
@@ -117,7 +150,8 @@ function JoinGameSection() {
       <CardHeader>
         <CardTitle>Join Game</CardTitle>
         <CardDescription>
-          Enter a 6-character code to join a game
+          Enter a 6-character code to join or watch a game, or an
+          8-character seat code from the host to take over a seat
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -125,19 +159,32 @@ function JoinGameSection() {
           className="flex gap-2"
           onSubmit={(e) => {
             e.preventDefault()
-            if (joinCode.length === 6) handleJoin()
+            if (joinCode.length === 6 || isClaimCode) handleJoin()
           }}
         >
           <Input
             placeholder="ABC123"
             value={joinCode}
             onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
-            maxLength={6}
+            maxLength={8}
             className="font-mono uppercase"
           />
-          <Button type="submit" disabled={joining || joinCode.length < 6}>
-            {joining ? 'Joining...' : 'Join'}
+          <Button
+            type="submit"
+            disabled={joining || (joinCode.length !== 6 && !isClaimCode)}
+          >
+            {joining ? 'Joining...' : isClaimCode ? 'Claim Seat' : 'Join'}
           </Button>
+          {!isClaimCode && (
+            <Button
+              type="button"
+              variant="outline"
+              disabled={joining || joinCode.length !== 6}
+              onClick={() => handleJoin(true)}
+            >
+              Watch
+            </Button>
+          )}
         </form>
         {error && (
           <p className="mt-2 text-sm text-destructive" role="alert">
@@ -194,12 +241,28 @@ function LoginCTA({ isGuest }: LoginCTAProps) {
 function CreateGameSection() {
   const navigate = useNavigate()
   const { data: playlists } = useSuspenseQuery(listMyPlaylistsQuery())
-  const [selectedPlaylist, setSelectedPlaylist] = useState<string>('')
+  const [sources, setSources] = useState<PlaylistSourceSettings>(
+    EMPTY_PLAYLIST_SOURCES,
+  )
   const [mode, setMode] = useState<'hostOnly' | 'sidecars'>('hostOnly')
   const [playerNames, setPlayerNames] = useState<Array<string>>([
     'Player 1',
     'Player 2',
   ])
+  const [playStyle, setPlayStyle] = useState<PlayStyleSettings>({
+    playStyle: 'individual',
+  })
+  const [rules, setRules] = useState<RulesSettings>({ preset: 'original' })
+  const [turnTimers, setTurnTimers] = useState<TurnTimerSettings | null>(
+    null,
+  )
+  const [lateJoin, setLateJoin] = useState<LateJoinSettings | null>(null)
+  const [limit, setLimit] = useState<GameLimitSettings | null>(null)
+  const [endOfDeck, setEndOfDeck] =
+    useState<EndOfDeckSettings>(DEFAULT_END_OF_DECK)
+  const [seed, setSeed] = useState('')
+  const [deckOptions, setDeckOptions] =
+    useState<DeckOptionsSettings>(DEFAULT_DECK_OPTIONS)
   const [creating, setCreating] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -231,7 +294,7 @@ function CreateGameSection() {
   }
 
   const handleCreate = async () => {
-    if (!selectedPlaylist) {
+    if (sources.playlistIds.length === 0) {
       setError('Please select a playlist')
       return
     }
@@ -241,10 +304,34 @@ function CreateGameSection() {
 
     try {
       const result = await createGame({
-        playlistId: selectedPlaylist as Id<'playlists'>,
+        deckSources: toDeckSources(sources),
         mode,
         playerNames:
           mode === 'hostOnly' ? playerNames.filter((n) => n.trim()) : undefined,
+        playStyle: playStyle.playStyle,
+        teamNames:
+          playStyle.playStyle === 'teams' ? playStyle.teamNames : undefined,
+        startingLives:
+          playStyle.playStyle === 'coop' ? playStyle.startingLives : undefined,
+        turnTimers: turnTimers ?? undefined,
+        lateJoin: mode === 'sidecars' ? (lateJoin ?? undefined) : undefined,
+        limit:
+          playStyle.playStyle === 'coop' ? undefined : (limit ?? undefined),
+        endOfDeck:
+          playStyle.playStyle === 'coop'
+            ? undefined
+            : {
+                ...endOfDeck,
+                suddenDeathCards:
+                  playStyle.playStyle === 'individual'
+                    ? endOfDeck.suddenDeathCards
+                    : 0,
+              },
+        rulesPreset: rules.preset,
+        yearBucketSpan: rules.yearBucketSpan,
+        seed: seed.trim() || undefined,
+        deckFilters: toDeckFilters(deckOptions),
+        deckStrategy: toDeckStrategy(deckOptions),
       })
       navigate({ to: '/play/$joinCode', params: { joinCode: result.joinCode } })
     } catch (err) {
@@ -280,11 +367,9 @@ function CreateGameSection() {
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Playlist Selection */}
-        <fieldset className="space-y-2">
-          <label className="text-sm font-medium" htmlFor="playlist-select">
-            Select Playlist
-          </label>
-          {readyPlaylists.length === 0 ? (
+        {readyPlaylists.length === 0 ? (
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">Playlists</legend>
             <div className="space-y-2">
               <p className="text-sm text-muted-foreground">
                 No playlists are ready yet.
@@ -304,29 +389,14 @@ function CreateGameSection() {
                 View Playlists
               </Button>
             </div>
-          ) : (
-            <Select
-              value={selectedPlaylist || null}
-              onValueChange={(value) => setSelectedPlaylist(value ?? '')}
-            >
-              <SelectTrigger className="w-full" id="playlist-select">
-                <SelectValue>
-                  {selectedPlaylist
-                    ? (readyPlaylists.find((p) => p._id === selectedPlaylist)
-                        ?.name ?? 'Choose a playlist...')
-                    : 'Choose a playlist...'}
-                </SelectValue>
-              </SelectTrigger>
-              <SelectContent>
-                {readyPlaylists.map((p) => (
-                  <SelectItem key={p._id} value={p._id}>
-                    {p.name} ({p.readyTracks} playable tracks)
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          )}
-        </fieldset>
+          </fieldset>
+        ) : (
+          <PlaylistSourceFields
+            playlists={readyPlaylists}
+            value={sources}
+            onChange={setSources}
+          />
+        )}
 
         {/* Mode Selection */}
         <fieldset className="space-y-2">
@@ -395,6 +465,32 @@ function CreateGameSection() {
           </p>
         )}
 
+        <PlayStyleFields value={playStyle} onChange={setPlayStyle} />
+
+        <RulesPresetFields value={rules} onChange={setRules} />
+
+        <TurnTimerFields value={turnTimers} onChange={setTurnTimers} />
+
+        {mode === 'sidecars' && (
+          <LateJoinFields value={lateJoin} onChange={setLateJoin} />
+        )}
+
+        {playStyle.playStyle !== 'coop' && (
+          <GameLimitFields value={limit} onChange={setLimit} />
+        )}
+
+        {playStyle.playStyle !== 'coop' && (
+          <EndOfDeckFields
+            value={endOfDeck}
+            onChange={setEndOfDeck}
+            allowSuddenDeath={playStyle.playStyle === 'individual'}
+          />
+        )}
+
+        <DeckOptionsFields value={deckOptions} onChange={setDeckOptions} />
+
+        <DeckSeedField value={seed} onChange={setSeed} />
+
         {error && (
           <p className="text-sm text-destructive" role="alert">
             {error}
@@ -403,7 +499,11 @@ function CreateGameSection() {
 
         <Button
           onClick={handleCreate}
-          disabled={creating || !selectedPlaylist || readyPlaylists.length === 0}
+          disabled={
+            creating ||
+            sources.playlistIds.length === 0 ||
+            readyPlaylists.length === 0
+          }
           className="w-full"
         >
           {creating ? 'Creating...' : 'Create Game'}
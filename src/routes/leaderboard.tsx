@@ -0,0 +1,88 @@
+import { Link, createFileRoute, redirect } from '@tanstack/react-router'
+import { useSuspenseQuery } from '@tanstack/react-query'
+import { RankingIcon } from '@phosphor-icons/react'
+import {
+  getLeaderboardQuery,
+  getMyRatingHistoryQuery,
+} from '@/lib/convex-queries'
+import { authClient } from '@/lib/auth-client'
+import { LeaderboardTable, RatingHistoryChart } from '@/components/leaderboard'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+
+export const Route = createFileRoute('/leaderboard')({
+  beforeLoad: ({ context }) => {
+    if (!context.isAuthenticated) {
+      throw redirect({ to: '/' })
+    }
+  },
+  loader: async ({ context }) => {
+    await Promise.all([
+      context.queryClient.ensureQueryData(getLeaderboardQuery()),
+      context.queryClient.ensureQueryData(getMyRatingHistoryQuery()),
+    ])
+  },
+  component: LeaderboardPage,
+})
+
+function LeaderboardPage() {
+  const { data: session } = authClient.useSession()
+  const { data: entries } = useSuspenseQuery(getLeaderboardQuery())
+  const { data: history } = useSuspenseQuery(getMyRatingHistoryQuery())
+
+  const isGuest = session?.user.email.includes('guest.songgame.local')
+
+  return (
+    <section className="mx-auto max-w-4xl space-y-6 p-6">
+      <header className="flex items-center gap-3">
+        <RankingIcon weight="duotone" className="size-8 text-primary" />
+        <div>
+          <h1 className="text-2xl font-bold">Leaderboard</h1>
+          <p className="text-muted-foreground">
+            Ratings of everyone you have played with
+          </p>
+        </div>
+      </header>
+
+      {isGuest ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <RankingIcon
+              weight="duotone"
+              className="mb-4 size-16 text-muted-foreground/50"
+            />
+            <CardTitle className="mb-2 text-lg">Guests are not rated</CardTitle>
+            <CardDescription className="mb-4 text-center">
+              Sign in with Google to get a rating from your finished games.
+            </CardDescription>
+            <Button render={<Link to="/" />}>Go to Home</Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <RatingHistoryChart history={history} />
+          {entries.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Rankings</CardTitle>
+                <CardDescription>
+                  Ratings move after every finished game against other signed-in
+                  players
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LeaderboardTable entries={entries} />
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
@@ -9,6 +9,7 @@ import {
   GameHeader,
   GameStickyFooter,
   LobbyView,
+  PausedOverlay,
 } from '@/components/play'
 import {
   getAllTimelinesQuery,
@@ -42,6 +43,7 @@ function GamePage() {
   const { data: game } = useSuspenseQuery(getGameByJoinCodeQuery(joinCode))
   const { data: session, isPending: isSessionPending } = authClient.useSession()
   const joinByCode = useMutation(api.games.joinByCode)
+  const watch = useMutation(api.spectators.watch)
 
   const [isJoining, setIsJoining] = useState(false)
   const [joinError, setJoinError] = useState<string | null>(null)
@@ -86,6 +88,20 @@ function GamePage() {
     joinCode,
   ])
 
+  // Fall back to watching when the game can't be joined (already started,
+  // full, or opened with a spectate code)
+  const handleWatch = async () => {
+    setIsJoining(true)
+    try {
+      await watch({ code: joinCode })
+      setJoinError(null)
+    } catch (err) {
+      setJoinError(err instanceof Error ? err.message : 'Failed to watch game')
+    } finally {
+      setIsJoining(false)
+    }
+  }
+
   // Show loading state while joining
   if (isJoining) {
     return (
@@ -109,7 +125,8 @@ function GamePage() {
             <CardTitle>Unable to Join Game</CardTitle>
             <CardDescription>{joinError}</CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="flex gap-2">
+            <Button onClick={handleWatch}>Watch Game</Button>
             <Button variant="outline" render={<Link to="/" />}>
               Go Home
             </Button>
@@ -175,7 +192,7 @@ function ActiveGameView({
   }
 
   return (
-    <div className="flex h-full flex-col">
+    <div className="relative flex h-full flex-col">
       {/* Scrollable main content */}
       <ScrollArea className="flex-1">
         <div className="space-y-4 p-4 pb-0">
@@ -186,6 +203,8 @@ function ActiveGameView({
 
       {/* Sticky footer with controls */}
       <GameStickyFooter game={game} onBeforeResolve={handleBeforeResolve} />
+
+      <PausedOverlay game={game} />
     </div>
   )
 }
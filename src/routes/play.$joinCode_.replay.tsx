@@ -0,0 +1,73 @@
+import { Link, createFileRoute } from '@tanstack/react-router'
+import { useSuspenseQuery } from '@tanstack/react-query'
+import { ArrowLeftIcon, FilmStripIcon } from '@phosphor-icons/react'
+import { ReplayView } from '@/components/play'
+import { getGameReplayQuery } from '@/lib/convex-queries'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+
+export const Route = createFileRoute('/play/$joinCode_/replay')({
+  loader: async ({ context, params }) => {
+    await context.queryClient.ensureQueryData(
+      getGameReplayQuery(params.joinCode),
+    )
+  },
+  component: ReplayPage,
+})
+
+function ReplayPage() {
+  const { joinCode } = Route.useParams()
+  const { data: replay } = useSuspenseQuery(getGameReplayQuery(joinCode))
+
+  if (!replay) {
+    return (
+      <div className="p-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Replay Not Available</CardTitle>
+            <CardDescription>
+              Replays are only available for finished games you took part in.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button
+              variant="outline"
+              render={<Link to="/play/$joinCode" params={{ joinCode }} />}
+            >
+              <ArrowLeftIcon weight="duotone" className="size-4" />
+              Back to Game
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FilmStripIcon weight="duotone" className="size-6 text-primary" />
+          <h1 className="truncate text-xl font-bold">
+            {replay.playlistName ?? 'Song Game'} replay
+          </h1>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          render={<Link to="/play/$joinCode" params={{ joinCode }} />}
+        >
+          <ArrowLeftIcon weight="duotone" className="size-4" />
+          Back
+        </Button>
+      </div>
+      <ReplayView replay={replay} />
+    </div>
+  )
+}
@@ -2,7 +2,10 @@ import { Link, createFileRoute, redirect } from '@tanstack/react-router'
 import { useSuspenseQuery } from '@tanstack/react-query'
 import { ArrowLeftIcon } from '@phosphor-icons/react'
 import type { Id } from '../../convex/_generated/dataModel'
-import { getPlaylistWithAllTracksQuery } from '@/lib/convex-queries'
+import {
+  getPlaylistLeaderboardQuery,
+  getPlaylistWithAllTracksQuery,
+} from '@/lib/convex-queries'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -12,7 +15,10 @@ import {
   CardTitle,
 } from '@/components/ui/card'
 import {
+  HardestSongs,
   PlaylistHeader,
+  PlaylistLeaderboard,
+  PlaylistSharing,
   PlaylistStatusSummary,
   TrackList,
 } from '@/components/playlists'
@@ -24,9 +30,15 @@ export const Route = createFileRoute('/playlists_/$playlistId')({
     }
   },
   loader: async ({ context, params }) => {
-    await context.queryClient.ensureQueryData(
-      getPlaylistWithAllTracksQuery(params.playlistId as Id<'playlists'>),
-    )
+    const playlistId = params.playlistId as Id<'playlists'>
+    await Promise.all([
+      context.queryClient.ensureQueryData(
+        getPlaylistWithAllTracksQuery(playlistId),
+      ),
+      context.queryClient.ensureQueryData(
+        getPlaylistLeaderboardQuery(playlistId),
+      ),
+    ])
   },
   component: PlaylistDetailPage,
 })
@@ -36,6 +48,9 @@ function PlaylistDetailPage() {
   const { data: playlist } = useSuspenseQuery(
     getPlaylistWithAllTracksQuery(playlistId as Id<'playlists'>),
   )
+  const { data: leaderboard } = useSuspenseQuery(
+    getPlaylistLeaderboardQuery(playlistId as Id<'playlists'>),
+  )
 
   if (!playlist) {
     return (
@@ -71,7 +86,19 @@ function PlaylistDetailPage() {
         status={playlist.status}
       />
 
-      <TrackList tracks={playlist.tracks} />
+      <PlaylistSharing
+        playlistId={playlist._id}
+        isOwner={playlist.isOwner}
+        isShared={playlist.isShared}
+        shareable={playlist.shareable}
+      />
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <HardestSongs tracks={playlist.tracks} />
+        <PlaylistLeaderboard entries={leaderboard} />
+      </div>
+
+      <TrackList tracks={playlist.tracks} canRemove={playlist.isOwner} />
     </section>
   )
 }
@@ -0,0 +1,70 @@
+import { Link, createFileRoute, redirect } from '@tanstack/react-router'
+import { useSuspenseQuery } from '@tanstack/react-query'
+import { ChartBarIcon } from '@phosphor-icons/react'
+import { getMyStatsQuery } from '@/lib/convex-queries'
+import {
+  BetsTokensChart,
+  DecadeAccuracyChart,
+  FavouritePlaylists,
+  StatSummary,
+} from '@/components/profile'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardTitle,
+} from '@/components/ui/card'
+
+export const Route = createFileRoute('/profile')({
+  beforeLoad: ({ context }) => {
+    if (!context.isAuthenticated) {
+      throw redirect({ to: '/' })
+    }
+  },
+  loader: async ({ context }) => {
+    await context.queryClient.ensureQueryData(getMyStatsQuery())
+  },
+  component: ProfilePage,
+})
+
+function ProfilePage() {
+  const { data: stats } = useSuspenseQuery(getMyStatsQuery())
+
+  return (
+    <section className="mx-auto max-w-4xl space-y-6 p-6">
+      <header className="flex items-center gap-3">
+        <ChartBarIcon weight="duotone" className="size-8 text-primary" />
+        <div>
+          <h1 className="text-2xl font-bold">Profile</h1>
+          <p className="text-muted-foreground">Your stats across every game</p>
+        </div>
+      </header>
+
+      {stats === null ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ChartBarIcon
+              weight="duotone"
+              className="mb-4 size-16 text-muted-foreground/50"
+            />
+            <CardTitle className="mb-2 text-lg">No stats yet</CardTitle>
+            <CardDescription className="mb-4 text-center">
+              Finish a game and your results will show up here.
+            </CardDescription>
+            <Button render={<Link to="/" />}>Play a Game</Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <StatSummary stats={stats} />
+          <DecadeAccuracyChart decades={stats.decades} />
+          <div className="grid gap-6 md:grid-cols-2">
+            <BetsTokensChart stats={stats} />
+            <FavouritePlaylists playlists={stats.playlists} />
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
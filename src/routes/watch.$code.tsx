@@ -0,0 +1,85 @@
+import { Link, createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useMutation } from 'convex/react'
+import { useEffect, useState } from 'react'
+import { api } from '../../convex/_generated/api'
+import { authClient } from '@/lib/auth-client'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+
+export const Route = createFileRoute('/watch/$code')({
+  component: WatchGamePage,
+})
+
+function WatchGamePage() {
+  const { code } = Route.useParams()
+  const navigate = useNavigate()
+  const { data: session, isPending: isSessionPending } = authClient.useSession()
+  const watch = useMutation(api.spectators.watch)
+
+  const [watchError, setWatchError] = useState<string | null>(null)
+  const [hasAttemptedWatch, setHasAttemptedWatch] = useState(false)
+
+  // Join as a spectator as soon as the session is known, then open the game
+  useEffect(() => {
+    if (hasAttemptedWatch || isSessionPending) {
+      return
+    }
+    setHasAttemptedWatch(true)
+
+    const attemptWatch = async () => {
+      try {
+        // If not logged in, sign in as anonymous first
+        if (!session) {
+          await authClient.signIn.anonymous()
+        }
+        await watch({ code })
+        navigate({
+          to: '/play/$joinCode',
+          params: { joinCode: code.toUpperCase() },
+        })
+      } catch (err) {
+        setWatchError(
+          err instanceof Error ? err.message : 'Failed to watch game',
+        )
+      }
+    }
+
+    attemptWatch()
+  }, [hasAttemptedWatch, isSessionPending, session, watch, code, navigate])
+
+  if (watchError) {
+    return (
+      <div className="p-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Unable to Watch Game</CardTitle>
+            <CardDescription>{watchError}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" render={<Link to="/" />}>
+              Go Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center justify-center p-8">
+      <Card>
+        <CardContent className="flex flex-col items-center gap-4 py-8">
+          <Spinner className="size-8" />
+          <p className="text-muted-foreground">Opening game...</p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -21,6 +21,8 @@ interface ActionState {
 interface DerivedGameState {
   activePlayer: PlayerData | undefined
   isActivePlayer: boolean
+  /** The current user plays for the active team (team games only) */
+  isOnActiveTeam: boolean
   myPlayer: PlayerData | undefined
   isHost: boolean
   activePlayerTimeline: TimelineData | undefined
@@ -82,6 +84,7 @@ const computeDerivedState = (
     return {
       activePlayer: undefined,
       isActivePlayer: false,
+      isOnActiveTeam: false,
       myPlayer: undefined,
       isHost: false,
       activePlayerTimeline: undefined,
@@ -96,13 +99,16 @@ const computeDerivedState = (
     activePlayer?.isCurrentUser ||
     (activePlayer?.kind === 'local' && isHost)
   const myPlayer = game.players.find((p) => p.isCurrentUser)
+  const isOnActiveTeam =
+    !!myPlayer?.teamId && myPlayer.teamId === activePlayer?.teamId
   const activePlayerTimeline = timelines.find(
-    (t) => t.playerId === activePlayer?._id,
+    (t) => !!activePlayer && t.memberIds.includes(activePlayer._id),
   )
 
   return {
     activePlayer,
     isActivePlayer: !!isActivePlayer,
+    isOnActiveTeam,
     myPlayer,
     isHost,
     activePlayerTimeline,
@@ -123,7 +129,7 @@ const computeInitialDndItems = (
     (p) => p.seatIndex === game.currentTurnSeatIndex,
   )
   const activePlayerTimeline = timelines.find(
-    (t) => t.playerId === activePlayer?._id,
+    (t) => !!activePlayer && t.memberIds.includes(activePlayer._id),
   )
 
   const cardIds = activePlayerTimeline?.cards.map((c) => c._id as string) ?? []
@@ -161,6 +167,7 @@ export const usePlayGameStore = create<PlayGameStore>()(
     derived: {
       activePlayer: undefined,
       isActivePlayer: false,
+      isOnActiveTeam: false,
       myPlayer: undefined,
       isHost: false,
       activePlayerTimeline: undefined,
@@ -287,6 +294,9 @@ export const useActivePlayer = () =>
 export const useIsActivePlayer = () =>
   usePlayGameStore((state) => state.derived.isActivePlayer)
 
+export const useIsOnActiveTeam = () =>
+  usePlayGameStore((state) => state.derived.isOnActiveTeam)
+
 export const useMyPlayer = () =>
   usePlayGameStore((state) => state.derived.myPlayer)
 